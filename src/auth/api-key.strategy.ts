@@ -0,0 +1,38 @@
+import { Request } from 'express';
+import { createHash, timingSafeEqual } from 'crypto';
+import { ApiKeyCredential, AuthPrincipal } from '../types';
+import { AuthStrategy } from './auth.strategy';
+
+/**
+ * Authenticates requests carrying a configured key in the X-API-Key header
+ */
+export class ApiKeyStrategy implements AuthStrategy {
+  readonly name = 'api-key';
+
+  constructor(private readonly credentials: ApiKeyCredential[]) {}
+
+  async authenticate(request: Request): Promise<AuthPrincipal | null> {
+    const presented = request.header('X-API-Key');
+    if (!presented) return null;
+
+    const credential = this.credentials.find((c) => this.matches(presented, c.key));
+    if (!credential) return null;
+
+    return {
+      subject: credential.identity,
+      identity: credential.identity,
+      role: credential.role || 'default',
+      strategy: this.name,
+      tenantId: credential.tenantId,
+    };
+  }
+
+  /**
+   * Compare digests so the comparison is constant-time regardless of key length
+   */
+  private matches(presented: string, expected: string): boolean {
+    const a = createHash('sha256').update(presented).digest();
+    const b = createHash('sha256').update(expected).digest();
+    return timingSafeEqual(a, b);
+  }
+}
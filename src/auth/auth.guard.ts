@@ -0,0 +1,52 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Request } from 'express';
+import { AuthPrincipal } from '../types';
+import { TwilioConfigService } from '../config/twilio.config';
+import { AUTH_STRATEGY, AuthStrategy } from './auth.strategy';
+
+@Injectable()
+export class AuthGuard implements CanActivate {
+  private readonly logger = new Logger(AuthGuard.name);
+
+  constructor(
+    @Inject(AUTH_STRATEGY) private readonly strategy: AuthStrategy,
+    private readonly twilioConfig: TwilioConfigService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context
+      .switchToHttp()
+      .getRequest<Request & { principal?: AuthPrincipal; tenantId?: string; requestedTenantId?: string }>();
+    const principal = await this.strategy.authenticate(request);
+
+    if (!principal) {
+      this.logger.warn(`Unauthenticated request to ${request.originalUrl} (${this.strategy.name})`);
+      throw new UnauthorizedException('Authentication required');
+    }
+
+    request.principal = principal;
+
+    // A tenant bound to the credential outranks hostnames, and X-Tenant-Id may only repeat it
+    const requested = request.requestedTenantId;
+    if (principal.tenantId) {
+      if (requested && requested !== principal.tenantId) {
+        this.logger.warn(`${principal.identity} of tenant ${principal.tenantId} asked for tenant ${requested}`);
+        throw new ForbiddenException(`Not allowed to act for tenant ${requested}`);
+      }
+      request.tenantId = principal.tenantId;
+    } else if (requested) {
+      // Credentials bound to no tenant are platform-wide and may pick any configured tenant
+      request.tenantId = this.twilioConfig.getTenant(requested).id;
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,12 @@
+import { Request } from 'express';
+import { AuthPrincipal } from '../types';
+
+export const AUTH_STRATEGY = Symbol('AUTH_STRATEGY');
+
+/**
+ * Resolves the caller of a request to a principal, or null when it is not authenticated
+ */
+export interface AuthStrategy {
+  readonly name: string;
+  authenticate(request: Request): Promise<AuthPrincipal | null>;
+}
@@ -0,0 +1,66 @@
+import { Logger } from '@nestjs/common';
+import { Request } from 'express';
+import { createPublicKey, JsonWebKey, KeyObject } from 'crypto';
+import { readFileSync } from 'fs';
+import * as jwt from 'jsonwebtoken';
+import { AuthPrincipal, JwtAuthConfig } from '../types';
+import { AuthStrategy } from './auth.strategy';
+
+/**
+ * Verifies bearer tokens from our identity provider against a local JWKS file
+ */
+export class JwtStrategy implements AuthStrategy {
+  readonly name = 'jwt';
+  private readonly logger = new Logger(JwtStrategy.name);
+  private readonly keys = new Map<string, KeyObject>();
+
+  constructor(private readonly config: JwtAuthConfig) {
+    this.loadKeys();
+  }
+
+  async authenticate(request: Request): Promise<AuthPrincipal | null> {
+    const header = request.header('Authorization');
+    if (!header?.startsWith('Bearer ')) return null;
+
+    const token = header.slice('Bearer '.length);
+    const decoded = jwt.decode(token, { complete: true });
+    const key = decoded?.header.kid ? this.keys.get(decoded.header.kid) : undefined;
+
+    if (!key) {
+      this.logger.warn(`JWT signed with unknown key ${decoded?.header.kid || '(none)'}`);
+      return null;
+    }
+
+    try {
+      const claims = jwt.verify(token, key, {
+        algorithms: ['RS256', 'RS384', 'RS512', 'ES256', 'ES384', 'ES512'],
+        issuer: this.config.issuer || undefined,
+        audience: this.config.audience || undefined,
+      }) as jwt.JwtPayload;
+
+      const identity = claims[this.config.identityClaim];
+      if (typeof identity !== 'string' || !identity) return null;
+
+      return {
+        subject: claims.sub || identity,
+        identity,
+        role: (claims[this.config.roleClaim] as string) || 'default',
+        strategy: this.name,
+        tenantId: claims[this.config.tenantClaim] as string | undefined,
+      };
+    } catch (error) {
+      this.logger.warn(`JWT verification failed: ${(error as Error).message}`);
+      return null;
+    }
+  }
+
+  private loadKeys(): void {
+    const jwks = JSON.parse(readFileSync(this.config.jwksPath, 'utf8')) as { keys: (JsonWebKey & { kid?: string })[] };
+
+    jwks.keys
+      .filter((jwk) => jwk.kid)
+      .forEach((jwk) => this.keys.set(jwk.kid!, createPublicKey({ key: jwk, format: 'jwk' })));
+
+    this.logger.log(`Loaded ${this.keys.size} signing keys from ${this.config.jwksPath}`);
+  }
+}
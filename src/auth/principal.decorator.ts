@@ -0,0 +1,10 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { AuthPrincipal } from '../types';
+
+/**
+ * The principal AuthGuard attached to the request
+ */
+export const CurrentPrincipal = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): AuthPrincipal =>
+    context.switchToHttp().getRequest().principal,
+);
@@ -0,0 +1,9 @@
+import { applyDecorators, SetMetadata, UseGuards } from '@nestjs/common';
+import { AuthGuard } from './auth.guard';
+import { REQUIRED_ROLES, RolesGuard } from './roles.guard';
+
+/**
+ * Require an authenticated principal with one of these roles
+ */
+export const Roles = (...roles: string[]) =>
+  applyDecorators(SetMetadata(REQUIRED_ROLES, roles), UseGuards(AuthGuard, RolesGuard));
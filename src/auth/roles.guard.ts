@@ -0,0 +1,29 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable, Logger } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { AuthPrincipal } from '../types';
+
+export const REQUIRED_ROLES = 'requiredRoles';
+
+/**
+ * Admits principals whose role is one of the route's required roles; runs after AuthGuard
+ */
+@Injectable()
+export class RolesGuard implements CanActivate {
+  private readonly logger = new Logger(RolesGuard.name);
+
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const roles = this.reflector.get<string[]>(REQUIRED_ROLES, context.getHandler()) || [];
+    const request = context.switchToHttp().getRequest<Request & { principal?: AuthPrincipal }>();
+    const principal = request.principal;
+
+    if (roles.length === 0 || (principal && roles.includes(principal.role))) {
+      return true;
+    }
+
+    this.logger.warn(`${principal?.identity ?? 'Anonymous caller'} (${principal?.role}) denied ${request.originalUrl}`);
+    throw new ForbiddenException(`Requires role: ${roles.join(' or ')}`);
+  }
+}
@@ -0,0 +1,184 @@
+import { Holiday, WeeklyHours } from '../types';
+import { holidayAt, isWithinHours, nextTransition, validateWeeklyHours } from './business-hours';
+
+type Schedule = WeeklyHours & { holidays?: Holiday[] };
+
+const weekdays = ['09:00-17:00'];
+const newYork = (days: Schedule['days'], holidays?: Holiday[]): Schedule => ({
+  timezone: 'America/New_York',
+  days,
+  holidays,
+});
+const officeHours = newYork({
+  monday: weekdays,
+  tuesday: weekdays,
+  wednesday: weekdays,
+  thursday: weekdays,
+  friday: weekdays,
+});
+
+function transition(schedule: Schedule, at: string) {
+  const result = nextTransition(schedule, new Date(at));
+  return result && { at: result.at.toISOString(), open: result.open };
+}
+
+describe('business hours', () => {
+  describe('isWithinHours', () => {
+    it('reads ranges in the schedule timezone, including the opening minute but not the closing one', () => {
+      // Monday 2 March 2026, Eastern Standard Time
+      expect(isWithinHours(officeHours, new Date('2026-03-02T13:59:00Z'))).toBe(false);
+      expect(isWithinHours(officeHours, new Date('2026-03-02T14:00:00Z'))).toBe(true);
+      expect(isWithinHours(officeHours, new Date('2026-03-02T21:59:00Z'))).toBe(true);
+      expect(isWithinHours(officeHours, new Date('2026-03-02T22:00:00Z'))).toBe(false);
+    });
+
+    it('follows the local clock across a DST change', () => {
+      // Monday 9 March 2026 is the first weekday on Eastern Daylight Time, an hour earlier in UTC
+      expect(isWithinHours(officeHours, new Date('2026-03-09T13:00:00Z'))).toBe(true);
+      expect(isWithinHours(officeHours, new Date('2026-03-09T21:00:00Z'))).toBe(false);
+    });
+
+    it('stays closed on holidays, whether dated or yearly', () => {
+      const schedule = newYork(officeHours.days, [{ date: '2026-03-03' }, { date: '12-25', name: 'Christmas' }]);
+
+      expect(isWithinHours(schedule, new Date('2026-03-03T15:00:00Z'))).toBe(false);
+      expect(isWithinHours(schedule, new Date('2027-03-03T15:00:00Z'))).toBe(true);
+      expect(isWithinHours(schedule, new Date('2026-12-25T15:00:00Z'))).toBe(false);
+      expect(holidayAt(schedule, new Date('2027-12-25T15:00:00Z'))).toEqual({ date: '12-25', name: 'Christmas' });
+    });
+
+    it('takes the holiday date from the schedule timezone rather than UTC', () => {
+      const schedule = newYork(officeHours.days, [{ date: '12-25' }]);
+
+      // 03:00 UTC on the 25th is still the evening of the 24th in New York
+      expect(holidayAt(schedule, new Date('2026-12-25T03:00:00Z'))).toBeUndefined();
+      expect(holidayAt(schedule, new Date('2026-12-25T05:00:00Z'))).toEqual({ date: '12-25' });
+    });
+  });
+
+  describe('nextTransition', () => {
+    it('finds the next opening over a weekend', () => {
+      expect(transition(officeHours, '2026-02-27T22:30:00Z')).toEqual({ at: '2026-03-02T14:00:00.000Z', open: true });
+    });
+
+    it('finds the closing time while open', () => {
+      expect(transition(officeHours, '2026-03-02T15:00:00Z')).toEqual({ at: '2026-03-02T22:00:00.000Z', open: false });
+    });
+
+    it('opens at local time on the Monday after clocks go forward', () => {
+      // Clocks went forward at 02:00 on Sunday 8 March 2026
+      expect(transition(officeHours, '2026-03-06T22:30:00Z')).toEqual({ at: '2026-03-09T13:00:00.000Z', open: true });
+    });
+
+    it('opens at local time on the Monday after clocks go back', () => {
+      // Clocks went back at 02:00 on Sunday 1 November 2026
+      expect(transition(officeHours, '2026-10-30T21:30:00Z')).toEqual({ at: '2026-11-02T14:00:00.000Z', open: true });
+    });
+
+    it('opens when the clocks jump past an opening time that never happens', () => {
+      // 02:30 does not exist on 8 March 2026, so the line opens at 03:00 EDT
+      const schedule = newYork({ sunday: ['02:30-05:00'] });
+
+      expect(transition(schedule, '2026-03-07T12:00:00Z')).toEqual({ at: '2026-03-08T07:00:00.000Z', open: true });
+    });
+
+    it('closes when the clocks jump past a closing time that never happens', () => {
+      const schedule = newYork({ sunday: ['01:30-02:30'] });
+
+      expect(transition(schedule, '2026-03-08T06:30:00Z')).toEqual({ at: '2026-03-08T07:00:00.000Z', open: false });
+    });
+
+    it('opens at the first of two repeated times when the clocks go back', () => {
+      // 01:30 happens twice on 1 November 2026, first in EDT and then in EST
+      const schedule = newYork({ sunday: ['01:30-05:00'] });
+
+      expect(transition(schedule, '2026-11-01T05:00:00Z')).toEqual({ at: '2026-11-01T05:30:00.000Z', open: true });
+      expect(transition(schedule, '2026-11-01T05:30:00Z')).toEqual({ at: '2026-11-01T10:00:00.000Z', open: false });
+    });
+
+    it('skips holidays when looking for the next opening', () => {
+      const schedule = newYork(officeHours.days, [{ date: '12-25' }]);
+
+      // Thursday 24 December 2026 after hours; Friday is Christmas
+      expect(transition(schedule, '2026-12-24T22:30:00Z')).toEqual({ at: '2026-12-28T14:00:00.000Z', open: true });
+    });
+
+    it('treats the start and end of a holiday as transitions for a schedule open all day', () => {
+      const allDay = ['00:00-24:00'];
+      const schedule = newYork({ thursday: allDay, friday: allDay, saturday: allDay }, [{ date: '2026-12-25' }]);
+
+      expect(transition(schedule, '2026-12-24T12:00:00Z')).toEqual({ at: '2026-12-25T05:00:00.000Z', open: false });
+      expect(transition(schedule, '2026-12-25T12:00:00Z')).toEqual({ at: '2026-12-26T05:00:00.000Z', open: true });
+    });
+
+    it('runs overnight ranges split at midnight straight through to the morning', () => {
+      const schedule = newYork({ friday: ['22:00-24:00'], saturday: ['00:00-06:00'] });
+
+      expect(transition(schedule, '2026-03-06T12:00:00Z')).toEqual({ at: '2026-03-07T03:00:00.000Z', open: true });
+      expect(transition(schedule, '2026-03-07T04:00:00Z')).toEqual({ at: '2026-03-07T11:00:00.000Z', open: false });
+    });
+
+    it('returns null for schedules that never change', () => {
+      const allDay = ['00:00-24:00'];
+      const alwaysOpen: Schedule = {
+        timezone: 'UTC',
+        days: {
+          sunday: allDay,
+          monday: allDay,
+          tuesday: allDay,
+          wednesday: allDay,
+          thursday: allDay,
+          friday: allDay,
+          saturday: allDay,
+        },
+      };
+
+      expect(transition(alwaysOpen, '2026-03-02T12:00:00Z')).toBeNull();
+      expect(transition(newYork({}), '2026-03-02T12:00:00Z')).toBeNull();
+    });
+
+    describe('horizon', () => {
+      // Every Monday from 2 March 2026 on, for the given number of weeks, is a holiday
+      function mondaysOff(weeks: number): Schedule {
+        const holidays = Array.from({ length: weeks }, (_, week) => ({
+          date: new Date(Date.UTC(2026, 2, 2 + week * 7)).toISOString().slice(0, 10),
+        }));
+        return { timezone: 'UTC', days: { monday: weekdays }, holidays };
+      }
+
+      it('looks up to 366 days ahead for the next change', () => {
+        // Monday 1 March 2027 is 365 days after Sunday 1 March 2026
+        expect(transition(mondaysOff(52), '2026-03-01T12:00:00Z')).toEqual({
+          at: '2027-03-01T09:00:00.000Z',
+          open: true,
+        });
+      });
+
+      it('gives up on changes further away than that', () => {
+        expect(transition(mondaysOff(53), '2026-03-01T12:00:00Z')).toBeNull();
+      });
+    });
+  });
+
+  describe('validateWeeklyHours', () => {
+    it('accepts ranges that end at midnight', () => {
+      expect(validateWeeklyHours('hours', newYork({ friday: ['22:00-24:00', '00:00-06:00'] }))).toEqual([]);
+    });
+
+    it.each(['22:00-24:30', '24:00-24:00', '17:00-09:00', '09:00-09:00', '9:00-17:00', '09:00-25:00'])(
+      'rejects the range %s',
+      (range) => {
+        expect(validateWeeklyHours('hours', newYork({ monday: [range] }))).toEqual([
+          `hours: invalid time range ${range} on monday`,
+        ]);
+      },
+    );
+
+    it('rejects unknown days and timezones', () => {
+      expect(validateWeeklyHours('hours', { timezone: 'Mars/Olympus', days: { funday: weekdays } as never })).toEqual([
+        'hours: unknown timezone Mars/Olympus',
+        'hours: unknown day funday',
+      ]);
+    });
+  });
+});
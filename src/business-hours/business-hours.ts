@@ -0,0 +1,183 @@
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import { load } from 'js-yaml';
+import { Holiday, Weekday, WeeklyHours } from '../types';
+
+export const WEEKDAYS: Weekday[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+// Ranges may end at 24:00 for midnight, but nothing starts there or runs past it
+const TIME_RANGE = /^([01]\d|2[0-3]):[0-5]\d-(([01]\d|2[0-3]):[0-5]\d|24:00)$/;
+const HOLIDAY_DATE = /^(\d{4}-)?(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+// Far enough to step over a long holiday closure without searching forever for a schedule that never opens
+const TRANSITION_HORIZON_DAYS = 366;
+
+interface WallClock {
+  date: string;
+  weekday: Weekday;
+  time: string;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Read a schedule or flow definition from a .json, .yaml or .yml file
+ */
+export function loadDataFile<T>(path: string): T {
+  const content = readFileSync(path, 'utf8');
+  const extension = extname(path).toLowerCase();
+  return (extension === '.yaml' || extension === '.yml' ? load(content) : JSON.parse(content)) as T;
+}
+
+/**
+ * Whether the schedule is open at the given instant, in the schedule's own timezone
+ */
+export function isWithinHours(schedule: WeeklyHours & { holidays?: Holiday[] }, at: Date): boolean {
+  const clock = wallClock(at, schedule.timezone);
+
+  if (findHoliday(schedule.holidays, clock.date)) {
+    return false;
+  }
+
+  return (schedule.days[clock.weekday] || []).some((range) => {
+    const [from, to] = range.split('-');
+    return clock.time >= from && clock.time < to;
+  });
+}
+
+/**
+ * The holiday falling on the schedule's local date for this instant, if any
+ */
+export function holidayAt(schedule: WeeklyHours & { holidays?: Holiday[] }, at: Date): Holiday | undefined {
+  return findHoliday(schedule.holidays, wallClock(at, schedule.timezone).date);
+}
+
+/**
+ * The next instant the schedule opens or closes, or null when it never changes within a year
+ */
+export function nextTransition(
+  schedule: WeeklyHours & { holidays?: Holiday[] },
+  at: Date,
+): { at: Date; open: boolean } | null {
+  const open = isWithinHours(schedule, at);
+  const [year, month, day] = wallClock(at, schedule.timezone).date.split('-').map(Number);
+
+  for (let offset = 0; offset <= TRANSITION_HORIZON_DAYS; offset++) {
+    const date = new Date(Date.UTC(year, month - 1, day + offset));
+    const localDate = date.toISOString().slice(0, 10);
+    const ranges = schedule.days[WEEKDAYS[date.getUTCDay()]] || [];
+
+    // Midnight is included so that the end of a holiday counts as a boundary
+    const candidates = ['00:00', ...ranges.flatMap((range) => range.split('-'))]
+      .map((time) => zonedTimeToUtc(localDate, time, schedule.timezone))
+      .filter((candidate) => candidate.getTime() > at.getTime())
+      .sort((a, b) => a.getTime() - b.getTime());
+
+    const change = candidates.find((candidate) => isWithinHours(schedule, candidate) !== open);
+    if (change) {
+      return { at: change, open: !open };
+    }
+  }
+
+  return null;
+}
+
+export function validateWeeklyHours(label: string, schedule?: WeeklyHours): string[] {
+  if (!schedule?.timezone || !schedule.days) {
+    return [`${label}: schedule needs a timezone and days`];
+  }
+
+  const errors: string[] = [];
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: schedule.timezone });
+  } catch {
+    errors.push(`${label}: unknown timezone ${schedule.timezone}`);
+  }
+
+  for (const [day, ranges] of Object.entries(schedule.days)) {
+    if (!WEEKDAYS.includes(day as Weekday)) {
+      errors.push(`${label}: unknown day ${day}`);
+    }
+    (ranges || [])
+      .filter((range) => !TIME_RANGE.test(range) || range.split('-')[0] >= range.split('-')[1])
+      .forEach((range) => errors.push(`${label}: invalid time range ${range} on ${day}`));
+  }
+
+  return errors;
+}
+
+export function validateHolidays(label: string, holidays?: Holiday[]): string[] {
+  if (holidays === undefined) {
+    return [];
+  }
+  if (!Array.isArray(holidays)) {
+    return [`${label}: holidays must be a list`];
+  }
+
+  return holidays
+    .filter((holiday) => !HOLIDAY_DATE.test(String(holiday?.date)))
+    .map((holiday) => `${label}: invalid holiday date ${holiday?.date} (use YYYY-MM-DD or MM-DD)`);
+}
+
+function findHoliday(holidays: Holiday[] | undefined, date: string): Holiday | undefined {
+  return holidays?.find((holiday) => holiday.date === date || holiday.date === date.slice(5));
+}
+
+function wallClock(at: Date, timezone: string): WallClock {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      weekday: 'long',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    });
+    formatters.set(timezone, formatter);
+  }
+
+  const parts = formatter.formatToParts(at);
+  const part = (type: string) => parts.find((p) => p.type === type)?.value || '';
+
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    weekday: part('weekday').toLowerCase() as Weekday,
+    time: `${part('hour')}:${part('minute')}`,
+  };
+}
+
+// The UTC instant at which the zone's clocks show this date and time; "24:00" is the following midnight.
+// A time skipped when the clocks go forward maps to the instant they jump past it.
+function zonedTimeToUtc(date: string, time: string, timezone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const wall = Date.UTC(year, month - 1, day, hour, minute);
+
+  const offsetAt = (instant: number) => {
+    const clock = wallClock(new Date(instant), timezone);
+    const [y, m, d] = clock.date.split('-').map(Number);
+    const [h, min] = clock.time.split(':').map(Number);
+    return Date.UTC(y, m - 1, d, h, min) - Math.floor(instant / 60000) * 60000;
+  };
+  const wallAt = (instant: number) => instant + offsetAt(instant);
+
+  // A second pass picks up the right offset when a DST change falls between the guess and the answer
+  const guess = wall - offsetAt(wall);
+  const instant = wall - offsetAt(guess);
+  if (wallAt(instant) === wall) {
+    return new Date(instant);
+  }
+
+  // The two offsets either side of the gap bracket the jump, which always falls on a whole minute
+  let [low, high] = [Math.min(guess, instant), Math.max(guess, instant)];
+  while (high - low > 60000) {
+    const middle = low + Math.floor((high - low) / 120000) * 60000;
+    if (wallAt(middle) >= wall) {
+      high = middle;
+    } else {
+      low = middle;
+    }
+  }
+  return new Date(high);
+}
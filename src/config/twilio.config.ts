@@ -1,7 +1,10 @@
-import { Injectable, Logger } from "@nestjs/common";
+import { Injectable, Logger, NotFoundException } from "@nestjs/common";
 import { ConfigService } from "@nestjs/config";
+import { readFileSync } from "fs";
 import * as twilio from "twilio";
-import { TwilioValidator } from "../utils";
+import { PhoneValidator, TwilioValidator } from "../utils";
+
+export const DEFAULT_TENANT_ID = "default";
 
 export interface TwilioConfig {
   accountSid: string;
@@ -9,57 +12,141 @@ export interface TwilioConfig {
   apiSecret: string;
   twimlAppSid: string;
   phoneNumber: string;
+  authToken: string;
+  webhookBaseUrl: string;
+  validateWebhookSignature: boolean;
+}
+
+export interface TenantConfig {
+  id: string;
+  name: string;
+  hostnames: string[];
+  defaultRegion: string;
+  twilio: TwilioConfig;
 }
 
 @Injectable()
 export class TwilioConfigService {
   private readonly logger = new Logger(TwilioConfigService.name);
-  private readonly config: TwilioConfig;
+  private readonly tenants = new Map<string, TenantConfig>();
+  private readonly clients = new Map<string, twilio.Twilio>();
 
   constructor(private readonly configService: ConfigService) {
-    this.config = this.loadConfiguration();
-    this.validateConfiguration();
+    this.loadConfiguration().forEach((tenant) => {
+      this.validateConfiguration(tenant);
+      this.tenants.set(tenant.id, tenant);
+    });
   }
 
-  private loadConfiguration(): TwilioConfig {
-    return {
-      accountSid: this.configService.get<string>("twilio.accountSid") || "",
-      apiKey: this.configService.get<string>("twilio.apiKey") || "",
-      apiSecret: this.configService.get<string>("twilio.apiSecret") || "",
-      twimlAppSid: this.configService.get<string>("twilio.twimlAppSid") || "",
-      phoneNumber: this.configService.get<string>("twilio.phoneNumber") || "",
+  private loadConfiguration(): TenantConfig[] {
+    const webhookBaseUrl =
+      this.configService.get<string>("twilio.webhookBaseUrl") || "";
+    const validateWebhookSignature =
+      this.configService.get<boolean>("twilio.validateWebhookSignature") ??
+      true;
+    const configPath = this.configService.get<string>("tenancy.configPath");
+    const defaultRegion =
+      this.configService.get<string>("phone.defaultRegion") || "US";
+
+    // Without a tenant file the env vars describe a single default tenant
+    if (!configPath) {
+      return [
+        {
+          id: DEFAULT_TENANT_ID,
+          name: "Default",
+          hostnames: [],
+          defaultRegion,
+          twilio: {
+            accountSid: this.configService.get<string>("twilio.accountSid") || "",
+            apiKey: this.configService.get<string>("twilio.apiKey") || "",
+            apiSecret: this.configService.get<string>("twilio.apiSecret") || "",
+            twimlAppSid: this.configService.get<string>("twilio.twimlAppSid") || "",
+            phoneNumber: this.configService.get<string>("twilio.phoneNumber") || "",
+            authToken: this.configService.get<string>("twilio.authToken") || "",
+            webhookBaseUrl,
+            validateWebhookSignature,
+          },
+        },
+      ];
+    }
+
+    const file = JSON.parse(readFileSync(configPath, "utf8")) as {
+      tenants: Array<Omit<TenantConfig, "twilio" | "hostnames" | "defaultRegion"> & {
+        hostnames?: string[];
+        defaultRegion?: string;
+        twilio: Partial<TwilioConfig>;
+      }>;
     };
+
+    this.logger.log(`Loaded ${file.tenants.length} tenants from ${configPath}`);
+    return file.tenants.map((tenant) => ({
+      id: tenant.id,
+      name: tenant.name || tenant.id,
+      hostnames: tenant.hostnames || [],
+      defaultRegion: tenant.defaultRegion || defaultRegion,
+      twilio: {
+        accountSid: tenant.twilio.accountSid || "",
+        apiKey: tenant.twilio.apiKey || "",
+        apiSecret: tenant.twilio.apiSecret || "",
+        twimlAppSid: tenant.twilio.twimlAppSid || "",
+        phoneNumber: tenant.twilio.phoneNumber || "",
+        authToken: tenant.twilio.authToken || "",
+        webhookBaseUrl: tenant.twilio.webhookBaseUrl || webhookBaseUrl,
+        validateWebhookSignature,
+      },
+    }));
   }
 
-  private validateConfiguration(): void {
+  private validateConfiguration(tenant: TenantConfig): void {
+    const config = tenant.twilio;
+
+    if (!PhoneValidator.isRegion(tenant.defaultRegion)) {
+      this.logger.error(
+        `Invalid default region for tenant ${tenant.id}: ${tenant.defaultRegion}`
+      );
+      throw new Error("Invalid default region");
+    }
     const requiredConfigs = [
       {
         key: "accountSid",
-        value: this.config.accountSid,
+        value: config.accountSid,
         validator: TwilioValidator.isValidAccountSid,
       },
       {
         key: "apiKey",
-        value: this.config.apiKey,
+        value: config.apiKey,
         validator: TwilioValidator.isValidApiKey,
       },
       {
         key: "apiSecret",
-        value: this.config.apiSecret,
+        value: config.apiSecret,
         validator: (v: string) => v && v.length > 10,
       },
       {
         key: "twimlAppSid",
-        value: this.config.twimlAppSid,
+        value: config.twimlAppSid,
         validator: TwilioValidator.isValidAppSid,
       },
       {
         key: "phoneNumber",
-        value: this.config.phoneNumber,
+        value: config.phoneNumber,
         validator: (v: string) => v.startsWith("+"),
       },
     ];
 
+    // The auth token is only needed to verify inbound webhook signatures
+    if (config.validateWebhookSignature) {
+      requiredConfigs.push({
+        key: "authToken",
+        value: config.authToken,
+        validator: (v: string) => v.length === 32,
+      });
+    } else {
+      this.logger.warn(
+        `Twilio webhook signature validation is disabled for tenant ${tenant.id}`
+      );
+    }
+
     const missingConfigs = requiredConfigs.filter((c) => !c.value);
     const invalidConfigs = requiredConfigs.filter(
       (c) => c.value && !c.validator(c.value)
@@ -67,36 +154,92 @@ export class TwilioConfigService {
 
     if (missingConfigs.length > 0) {
       const missing = missingConfigs.map((c) => c.key).join(", ");
-      this.logger.error(`Missing Twilio configuration: ${missing}`);
+      this.logger.error(
+        `Missing Twilio configuration for tenant ${tenant.id}: ${missing}`
+      );
       throw new Error("Incomplete Twilio configuration");
     }
 
     if (invalidConfigs.length > 0) {
       const invalid = invalidConfigs.map((c) => c.key).join(", ");
-      this.logger.error(`Invalid Twilio configuration: ${invalid}`);
+      this.logger.error(
+        `Invalid Twilio configuration for tenant ${tenant.id}: ${invalid}`
+      );
       throw new Error("Invalid Twilio credentials");
     }
 
-    this.logger.log("Twilio configuration validated successfully");
+    this.logger.log(`Twilio configuration validated for tenant ${tenant.id}`);
+  }
+
+  getTenants(): TenantConfig[] {
+    return Array.from(this.tenants.values());
   }
 
-  getConfig(): TwilioConfig {
-    return { ...this.config };
+  getTenant(tenantId: string = DEFAULT_TENANT_ID): TenantConfig {
+    const tenant = this.tenants.get(tenantId);
+    if (!tenant) {
+      throw new NotFoundException(`Unknown tenant: ${tenantId}`);
+    }
+    return tenant;
   }
 
-  createClient(): twilio.Twilio {
-    return twilio(this.config.accountSid, this.config.apiSecret);
+  findTenantByAccountSid(accountSid: string): TenantConfig | undefined {
+    return this.getTenants().find((t) => t.twilio.accountSid === accountSid);
   }
 
-  getCredentialsForToken(): {
+  findTenantByHostname(hostname: string): TenantConfig | undefined {
+    return this.getTenants().find(
+      (t) => t.hostnames.includes(hostname) || hostname.split(".")[0] === t.id
+    );
+  }
+
+  /**
+   * Region assumed for numbers dialed without a country code
+   */
+  getDefaultRegion(tenantId?: string): string {
+    return this.getTenant(tenantId).defaultRegion;
+  }
+
+  getConfig(tenantId?: string): TwilioConfig {
+    return { ...this.getTenant(tenantId).twilio };
+  }
+
+  /**
+   * One REST client per tenant, created on first use
+   */
+  getClient(tenantId: string = DEFAULT_TENANT_ID): twilio.Twilio {
+    let client = this.clients.get(tenantId);
+    if (!client) {
+      client = this.createClient(tenantId);
+      this.clients.set(tenantId, client);
+    }
+    return client;
+  }
+
+  createClient(tenantId?: string): twilio.Twilio {
+    const { accountSid, apiKey, apiSecret } = this.getConfig(tenantId);
+    return twilio(apiKey, apiSecret, { accountSid });
+  }
+
+  getCredentialsForToken(tenantId?: string): {
     accountSid: string;
     apiKey: string;
     apiSecret: string;
   } {
+    const { accountSid, apiKey, apiSecret } = this.getConfig(tenantId);
+    return { accountSid, apiKey, apiSecret };
+  }
+
+  getWebhookValidationSettings(tenantId?: string): {
+    enabled: boolean;
+    authToken: string;
+    webhookBaseUrl: string;
+  } {
+    const config = this.getConfig(tenantId);
     return {
-      accountSid: this.config.accountSid,
-      apiKey: this.config.apiKey,
-      apiSecret: this.config.apiSecret,
+      enabled: config.validateWebhookSignature,
+      authToken: config.authToken,
+      webhookBaseUrl: config.webhookBaseUrl,
     };
   }
 }
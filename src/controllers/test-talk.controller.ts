@@ -9,87 +9,471 @@ import {
   HttpCode,
   HttpStatus,
   BadRequestException,
+  ForbiddenException,
+  UseGuards,
+  Sse,
+  Delete,
+  MessageEvent,
 } from '@nestjs/common';
+import { Observable } from 'rxjs';
 import { Response } from 'express';
 import { TestTalkService } from '../services/test-talk.service';
+import { PresenceService } from '../services/presence.service';
+import { NumberPoolService } from '../services/number-pool.service';
+import { DialPolicyService } from '../services/dial-policy.service';
+import { ConferenceService } from '../services/conference.service';
+import { TransferService } from '../services/transfer.service';
+import { CallControlService } from '../services/call-control.service';
+import { IvrService } from '../services/ivr.service';
+import { BusinessHoursService } from '../services/business-hours.service';
+import { CallReconciliationService } from '../services/call-reconciliation.service';
+import { QueueService } from '../services/queue.service';
+import { VoicemailService } from '../services/voicemail.service';
+import { RecordingService } from '../services/recording.service';
+import { CallEventsService } from '../services/call-events.service';
+import { WebhookDispatcherService } from '../services/webhook-dispatcher.service';
 import { MakeCallDto } from '../dto/make-call.dto';
+import { CallHistoryQueryDto } from '../dto/call-history-query.dto';
+import { HeartbeatDto } from '../dto/heartbeat.dto';
+import { DequeueDto } from '../dto/dequeue.dto';
+import { AddPoolNumberDto } from '../dto/add-pool-number.dto';
+import { TransferCallDto } from '../dto/transfer-call.dto';
+import { CreateConferenceDto } from '../dto/create-conference.dto';
+import { AddParticipantDto } from '../dto/add-participant.dto';
+import { MuteCallDto } from '../dto/mute-call.dto';
+import { IvrDryRunDto } from '../dto/ivr-dry-run.dto';
+import { BusinessHoursQueryDto } from '../dto/business-hours-query.dto';
+import { TwilioSignatureGuard } from '../guards/twilio-signature.guard';
+import { RateLimit } from '../rate-limit/rate-limit.decorator';
+import { AuthGuard } from '../auth/auth.guard';
+import { Roles } from '../auth/roles.decorator';
+import { CurrentPrincipal } from '../auth/principal.decorator';
+import { CurrentTenant } from '../tenancy/tenant.decorator';
+import { AuthPrincipal } from '../types';
 
 @Controller('api/v1/test-talk')
 export class TestTalkController {
-  constructor(private readonly testTalkService: TestTalkService) {}
+  constructor(
+    private readonly testTalkService: TestTalkService,
+    private readonly presenceService: PresenceService,
+    private readonly numberPool: NumberPoolService,
+    private readonly dialPolicy: DialPolicyService,
+    private readonly conferenceService: ConferenceService,
+    private readonly transferService: TransferService,
+    private readonly callControl: CallControlService,
+    private readonly ivrService: IvrService,
+    private readonly businessHours: BusinessHoursService,
+    private readonly reconciliation: CallReconciliationService,
+    private readonly queueService: QueueService,
+    private readonly voicemailService: VoicemailService,
+    private readonly recordingService: RecordingService,
+    private readonly callEvents: CallEventsService,
+    private readonly webhookDispatcher: WebhookDispatcherService,
+  ) {}
 
   @Get('token')
-  generateToken(@Query('identity') identity?: string) {
-    return this.testTalkService.generateAccessToken(identity);
+  @RateLimit('token')
+  @UseGuards(AuthGuard)
+  generateToken(@CurrentPrincipal() principal: AuthPrincipal, @CurrentTenant() tenantId: string) {
+    return this.testTalkService.generateAccessToken(principal, tenantId);
+  }
+
+  @Post('presence/heartbeat')
+  @UseGuards(AuthGuard)
+  @HttpCode(HttpStatus.OK)
+  heartbeat(
+    @Body() heartbeatDto: HeartbeatDto,
+    @CurrentPrincipal() principal: AuthPrincipal,
+    @CurrentTenant() tenantId: string,
+  ) {
+    const identity = this.ownIdentity(principal, heartbeatDto.identity);
+    return this.presenceService.heartbeat(identity, heartbeatDto.state, tenantId);
+  }
+
+  @Get('presence')
+  @UseGuards(AuthGuard)
+  getPresence(@CurrentTenant() tenantId: string) {
+    return {
+      strategy: this.presenceService.getStrategyName(),
+      clients: this.presenceService.getClients(tenantId),
+    };
   }
 
   @Post('voice')
+  @UseGuards(TwilioSignatureGuard)
   @HttpCode(HttpStatus.OK)
-  generateVoiceResponse(
+  async generateVoiceResponse(
     @Body() body: any,
+    @CurrentTenant() tenantId: string,
     @Res() res: Response,
+    @Query('Record') recordQuery?: string,
+    @Query('PlacedBy') placedBy?: string,
   ) {
-    const { To, From } = body;
-    const twiml = this.testTalkService.generateTwiMLResponse(To, From, 'outbound');
+    // device.connect sends Record as a parameter; calls placed with POST call carry it on the webhook URL
+    const { To, From, Record = recordQuery, CallerId, CallSid } = body;
+    const twiml = await this.testTalkService.generateTwiMLResponse(
+      To,
+      From,
+      'outbound',
+      Record === 'true',
+      tenantId,
+      CallerId,
+      CallSid,
+      placedBy === 'api',
+    );
     
     res.set('Content-Type', 'text/xml');
     res.send(twiml);
   }
 
   @Post('call')
+  @RateLimit('call')
+  @UseGuards(AuthGuard)
   async makeCall(
     @Body() makeCallDto: MakeCallDto,
+    @CurrentPrincipal() principal: AuthPrincipal,
+    @CurrentTenant() tenantId: string,
     @Query('baseUrl') baseUrl?: string,
   ) {
-    const { to, from = 'browser' } = makeCallDto;
-    return this.testTalkService.makeBrowserToPhoneCall(to, from, baseUrl || '');
+    return this.testTalkService.makeBrowserToPhoneCall(makeCallDto, baseUrl || '', tenantId, principal.identity);
+  }
+
+  @Post('click-to-call/connect')
+  @UseGuards(TwilioSignatureGuard)
+  @HttpCode(HttpStatus.OK)
+  async connectClickToCall(@Body() body: any, @CurrentTenant() tenantId: string, @Res() res: Response) {
+    const twiml = await this.testTalkService.connectClickToCall(body.CallSid, tenantId);
+
+    res.set('Content-Type', 'text/xml');
+    res.send(twiml);
+  }
+
+  @Post('click-to-call/customer-status')
+  @UseGuards(TwilioSignatureGuard)
+  @HttpCode(HttpStatus.OK)
+  async handleClickToCallCustomerStatus(@Body() body: any, @CurrentTenant() tenantId: string) {
+    await this.testTalkService.handleClickToCallCustomerStatus(body, tenantId);
+    return { received: true };
+  }
+
+  @Get('phone-numbers/lookup')
+  lookupPhoneNumber(
+    @Query('number') phoneNumber: string,
+    @CurrentTenant() tenantId: string,
+    @Query('region') region?: string,
+  ) {
+    if (!phoneNumber) {
+      throw new BadRequestException('number is required');
+    }
+    return this.testTalkService.lookupPhoneNumber(phoneNumber, tenantId, region);
   }
 
   @Post('call-status')
+  @UseGuards(TwilioSignatureGuard)
   @HttpCode(HttpStatus.OK)
-  handleCallStatus(@Body() callStatus: any) {
-    this.testTalkService.handleCallStatusUpdate(callStatus);
+  async handleCallStatus(@Body() callStatus: any, @CurrentTenant() tenantId: string) {
+    await this.testTalkService.handleCallStatusUpdate(callStatus, tenantId);
     return { received: true };
   }
 
+  @Post('recording-status')
+  @UseGuards(TwilioSignatureGuard)
+  @HttpCode(HttpStatus.OK)
+  async handleRecordingStatus(@Body() recordingStatus: any) {
+    await this.recordingService.handleRecordingStatus(recordingStatus);
+    return { received: true };
+  }
+
+  @Post('recording-consent')
+  @UseGuards(TwilioSignatureGuard)
+  @HttpCode(HttpStatus.OK)
+  getRecordingConsent(@Res() res: Response) {
+    const twiml = this.recordingService.generateConsentNotice();
+    res.set('Content-Type', 'text/xml');
+    res.send(twiml);
+  }
+
   @Post('dial-status')
+  @UseGuards(TwilioSignatureGuard)
   @HttpCode(HttpStatus.OK)
-  handleDialStatus(@Body() dialStatus: any, @Res() res: Response) {
-    const twiml = this.testTalkService.handleDialStatus(dialStatus);
+  handleDialStatus(@Body() dialStatus: any, @CurrentTenant() tenantId: string, @Res() res: Response) {
+    const twiml = this.testTalkService.handleDialStatus(dialStatus, tenantId);
     res.set('Content-Type', 'text/xml');
     res.send(twiml);
   }
 
+  @Post('conference-status')
+  @UseGuards(TwilioSignatureGuard)
+  @HttpCode(HttpStatus.OK)
+  async handleConferenceStatus(@Body() conferenceStatus: any, @CurrentTenant() tenantId: string) {
+    await this.conferenceService.handleConferenceStatus(conferenceStatus, tenantId);
+    return { received: true };
+  }
+
   @Post('incoming')
+  @UseGuards(TwilioSignatureGuard)
   @HttpCode(HttpStatus.OK)
-  handleIncomingCall(@Body() body: any, @Res() res: Response) {
-    const { From, To } = body;
-    const twiml = this.testTalkService.generateIncomingCallTwiML(From, To);
+  async handleIncomingCall(@Body() body: any, @CurrentTenant() tenantId: string, @Res() res: Response) {
+    const { From, To, CallSid } = body;
+    const twiml = await this.testTalkService.generateIncomingCallTwiML(From, To, CallSid, tenantId);
     
     res.set('Content-Type', 'text/xml');
     res.send(twiml);
   }
 
+  @Post('ivr/nodes/:nodeId')
+  @UseGuards(TwilioSignatureGuard)
+  @HttpCode(HttpStatus.OK)
+  handleIvrNode(@Param('nodeId') nodeId: string, @CurrentTenant() tenantId: string, @Res() res: Response) {
+    const twiml = this.ivrService.respond(tenantId, () => this.ivrService.render(nodeId));
+    res.set('Content-Type', 'text/xml');
+    res.send(twiml);
+  }
+
+  @Post('ivr/nodes/:nodeId/input')
+  @UseGuards(TwilioSignatureGuard)
+  @HttpCode(HttpStatus.OK)
+  handleIvrInput(
+    @Param('nodeId') nodeId: string,
+    @Body() body: any,
+    @Query('attempt') attempt: string,
+    @CurrentTenant() tenantId: string,
+    @Res() res: Response,
+  ) {
+    const { Digits, SpeechResult } = body;
+    const twiml = this.ivrService.respond(tenantId, () =>
+      this.ivrService.handleInput(nodeId, { digits: Digits, speech: SpeechResult }, parseInt(attempt) || 0),
+    );
+    res.set('Content-Type', 'text/xml');
+    res.send(twiml);
+  }
+
+  @Post('ivr/agents')
+  @UseGuards(TwilioSignatureGuard)
+  @HttpCode(HttpStatus.OK)
+  async handleIvrAgents(@Body() body: any, @CurrentTenant() tenantId: string, @Res() res: Response) {
+    const { From, To, CallSid } = body;
+    const twiml = await this.testTalkService.routeIncomingCall(From, To, CallSid, tenantId);
+    res.set('Content-Type', 'text/xml');
+    res.send(twiml);
+  }
+
+  @Post('ivr/queue')
+  @UseGuards(TwilioSignatureGuard)
+  @HttpCode(HttpStatus.OK)
+  handleIvrQueue(@Body() body: any, @CurrentTenant() tenantId: string, @Res() res: Response) {
+    const { From, CallSid } = body;
+    const twiml = this.queueService.enqueue(CallSid, From, tenantId);
+    res.set('Content-Type', 'text/xml');
+    res.send(twiml);
+  }
+
+  @Post('ivr/voicemail')
+  @UseGuards(TwilioSignatureGuard)
+  @HttpCode(HttpStatus.OK)
+  handleIvrVoicemail(@Body() body: any, @CurrentTenant() tenantId: string, @Res() res: Response) {
+    const { From, To, CallSid } = body;
+    const twiml = this.voicemailService.startVoicemail(CallSid, From, To, tenantId);
+    res.set('Content-Type', 'text/xml');
+    res.send(twiml);
+  }
+
+  @Get('ivr/flow')
+  @UseGuards(AuthGuard)
+  getIvrFlow(@CurrentTenant() tenantId: string) {
+    return this.ivrService.getFlow(tenantId);
+  }
+
+  @Post('ivr/dry-run')
+  @UseGuards(AuthGuard)
+  @HttpCode(HttpStatus.OK)
+  dryRunIvr(@Body() dryRunDto: IvrDryRunDto, @CurrentTenant() tenantId: string) {
+    return this.ivrService.dryRun(tenantId, dryRunDto.inputs, dryRunDto.at ? new Date(dryRunDto.at) : undefined);
+  }
+
+  @Get('business-hours')
+  getBusinessHours(@Query() query: BusinessHoursQueryDto, @CurrentTenant() tenantId: string) {
+    return this.businessHours.getState(tenantId, query.number, query.at ? new Date(query.at) : undefined);
+  }
+
+  @Post('queue/wait')
+  @UseGuards(TwilioSignatureGuard)
+  @HttpCode(HttpStatus.OK)
+  handleQueueWait(@Body() body: any, @Res() res: Response) {
+    const { CallSid, QueuePosition, QueueTime } = body;
+    const twiml = this.queueService.generateWaitTwiML(
+      CallSid,
+      QueuePosition ? parseInt(QueuePosition) : undefined,
+      QueueTime ? parseInt(QueueTime) : undefined,
+    );
+
+    res.set('Content-Type', 'text/xml');
+    res.send(twiml);
+  }
+
+  @Post('queue/leave')
+  @UseGuards(TwilioSignatureGuard)
+  @HttpCode(HttpStatus.OK)
+  handleQueueLeave(@Body() body: any, @CurrentTenant() tenantId: string, @Res() res: Response) {
+    const { CallSid, QueueResult, QueueTime, To } = body;
+    const twiml = this.queueService.handleQueueExit(
+      CallSid,
+      QueueResult,
+      To,
+      tenantId,
+      QueueTime ? parseInt(QueueTime) : undefined,
+    );
+
+    res.set('Content-Type', 'text/xml');
+    res.send(twiml);
+  }
+
+  @Post('queue/callback')
+  @UseGuards(TwilioSignatureGuard)
+  @HttpCode(HttpStatus.OK)
+  handleQueueCallback(@Body() body: any, @CurrentTenant() tenantId: string, @Res() res: Response) {
+    const { CallSid, From, Digits } = body;
+    const twiml = this.queueService.handleCallbackResponse(CallSid, From, tenantId, Digits);
+
+    res.set('Content-Type', 'text/xml');
+    res.send(twiml);
+  }
+
+  @Post('queue/connect')
+  @UseGuards(TwilioSignatureGuard)
+  @HttpCode(HttpStatus.OK)
+  async connectQueuedCaller(
+    @Query('identity') identity: string,
+    @CurrentTenant() tenantId: string,
+    @Res() res: Response,
+  ) {
+    const twiml = await this.testTalkService.generateTwiMLResponse(
+      `client:${identity}`,
+      undefined,
+      'outbound',
+      false,
+      tenantId,
+    );
+
+    res.set('Content-Type', 'text/xml');
+    res.send(twiml);
+  }
+
+  @Post('queue/dequeue')
+  @UseGuards(AuthGuard)
+  async dequeueNextCaller(
+    @Body() dequeueDto: DequeueDto,
+    @CurrentPrincipal() principal: AuthPrincipal,
+    @CurrentTenant() tenantId: string,
+    @Query('baseUrl') baseUrl?: string,
+  ) {
+    const identity = this.ownIdentity(principal, dequeueDto.identity);
+    return this.testTalkService.dequeueNextCaller(identity, baseUrl || '', tenantId);
+  }
+
+  @Get('queue')
+  @UseGuards(AuthGuard)
+  getQueue(@CurrentTenant() tenantId: string) {
+    return {
+      enabled: this.queueService.isEnabled(),
+      name: this.queueService.getQueueName(),
+      ...this.queueService.getStatistics(tenantId),
+      callbackRequests: this.queueService.getCallbackRequests(tenantId),
+    };
+  }
+
+  @Post('voicemail/complete')
+  @UseGuards(TwilioSignatureGuard)
+  @HttpCode(HttpStatus.OK)
+  completeVoicemail(@Res() res: Response) {
+    const twiml = this.voicemailService.completeVoicemail();
+    res.set('Content-Type', 'text/xml');
+    res.send(twiml);
+  }
+
+  @Post('voicemail/recording-status')
+  @UseGuards(TwilioSignatureGuard)
+  @HttpCode(HttpStatus.OK)
+  handleVoicemailRecording(@Body() body: any) {
+    this.voicemailService.handleRecordingStatus(body);
+    return { received: true };
+  }
+
+  @Post('voicemail/transcription')
+  @UseGuards(TwilioSignatureGuard)
+  @HttpCode(HttpStatus.OK)
+  handleVoicemailTranscription(@Body() body: any) {
+    this.voicemailService.handleTranscription(body);
+    return { received: true };
+  }
+
+  @Get('voicemails')
+  @UseGuards(AuthGuard)
+  getVoicemails(@CurrentTenant() tenantId: string, @Query('heard') heard?: string) {
+    const voicemails = this.voicemailService.getVoicemails(
+      tenantId,
+      heard === undefined ? undefined : heard === 'true',
+    );
+    return {
+      voicemails,
+      unheard: this.voicemailService.getUnheardCount(tenantId),
+    };
+  }
+
+  @Get('voicemails/:sid')
+  @UseGuards(AuthGuard)
+  getVoicemail(@Param('sid') sid: string, @CurrentTenant() tenantId: string) {
+    return this.voicemailService.getVoicemail(sid, tenantId);
+  }
+
+  @Get('voicemails/:sid/audio')
+  @UseGuards(AuthGuard)
+  async getVoicemailAudio(
+    @Param('sid') sid: string,
+    @CurrentTenant() tenantId: string,
+    @Res() res: Response,
+  ) {
+    const { body, contentType } = await this.voicemailService.fetchAudio(sid, tenantId);
+    res.set('Content-Type', contentType);
+    res.send(body);
+  }
+
+  @Post('voicemails/:sid/heard')
+  @UseGuards(AuthGuard)
+  @HttpCode(HttpStatus.OK)
+  markVoicemailHeard(@Param('sid') sid: string, @CurrentTenant() tenantId: string) {
+    return this.voicemailService.markHeard(sid, tenantId);
+  }
+
   @Get('calls')
-  getActiveCalls() {
+  @UseGuards(AuthGuard)
+  async getActiveCalls(@CurrentTenant() tenantId: string) {
     return {
-      calls: this.testTalkService.getActiveCalls(),
-      statistics: this.testTalkService.getCallStatistics(),
+      calls: await this.testTalkService.getActiveCalls(tenantId),
+      statistics: await this.testTalkService.getCallStatistics(tenantId),
     };
   }
 
+  @Get('calls/history')
+  @UseGuards(AuthGuard)
+  getCallHistory(@Query() query: CallHistoryQueryDto, @CurrentTenant() tenantId: string) {
+    return this.testTalkService.getCallHistory(query, tenantId);
+  }
+
   @Get('calls/status/:status')
-  getCallsByStatus(@Param('status') status: string) {
-    return this.testTalkService.getCallsByStatus(status);
+  @UseGuards(AuthGuard)
+  getCallsByStatus(@Param('status') status: string, @CurrentTenant() tenantId: string) {
+    return this.testTalkService.getCallsByStatus(status, tenantId);
   }
 
   @Get('calls/:callSid')
-  async getCallDetails(@Param('callSid') callSid: string) {
+  @UseGuards(AuthGuard)
+  async getCallDetails(@Param('callSid') callSid: string, @CurrentTenant() tenantId: string) {
     if (!callSid) {
       throw new BadRequestException('Call SID is required');
     }
     
-    const callDetails = await this.testTalkService.getCallDetails(callSid);
+    const callDetails = await this.testTalkService.getCallDetails(callSid, tenantId);
     if (!callDetails) {
       throw new BadRequestException('Call not found');
     }
@@ -98,19 +482,284 @@ export class TestTalkController {
   }
 
   @Post('calls/:callSid/end')
-  async endCall(@Param('callSid') callSid: string) {
-    const success = await this.testTalkService.endCall(callSid);
+  @RateLimit('end')
+  @UseGuards(AuthGuard)
+  async endCall(@Param('callSid') callSid: string, @CurrentTenant() tenantId: string) {
+    const success = await this.testTalkService.endCall(callSid, tenantId);
     return { success, callSid };
   }
 
+  @Post('calls/:callSid/recording/pause')
+  @UseGuards(AuthGuard)
+  @HttpCode(HttpStatus.OK)
+  pauseRecording(@Param('callSid') callSid: string, @CurrentTenant() tenantId: string) {
+    return this.testTalkService.controlRecording(callSid, 'pause', tenantId);
+  }
+
+  @Post('calls/:callSid/recording/resume')
+  @UseGuards(AuthGuard)
+  @HttpCode(HttpStatus.OK)
+  resumeRecording(@Param('callSid') callSid: string, @CurrentTenant() tenantId: string) {
+    return this.testTalkService.controlRecording(callSid, 'resume', tenantId);
+  }
+
+  @Post('calls/:callSid/recording/stop')
+  @UseGuards(AuthGuard)
+  @HttpCode(HttpStatus.OK)
+  stopRecording(@Param('callSid') callSid: string, @CurrentTenant() tenantId: string) {
+    return this.testTalkService.controlRecording(callSid, 'stop', tenantId);
+  }
+
+  @Post('calls/:callSid/hold')
+  @UseGuards(AuthGuard)
+  @HttpCode(HttpStatus.OK)
+  holdCall(
+    @Param('callSid') callSid: string,
+    @CurrentPrincipal() principal: AuthPrincipal,
+    @CurrentTenant() tenantId: string,
+  ) {
+    return this.callControl.hold(tenantId, callSid, principal.identity);
+  }
+
+  @Post('calls/:callSid/resume')
+  @UseGuards(AuthGuard)
+  @HttpCode(HttpStatus.OK)
+  resumeCall(
+    @Param('callSid') callSid: string,
+    @CurrentPrincipal() principal: AuthPrincipal,
+    @CurrentTenant() tenantId: string,
+  ) {
+    return this.callControl.resume(tenantId, callSid, principal.identity);
+  }
+
+  @Post('calls/:callSid/mute')
+  @UseGuards(AuthGuard)
+  @HttpCode(HttpStatus.OK)
+  muteCall(
+    @Param('callSid') callSid: string,
+    @Body() muteCallDto: MuteCallDto,
+    @CurrentPrincipal() principal: AuthPrincipal,
+    @CurrentTenant() tenantId: string,
+  ) {
+    return this.callControl.mute(tenantId, callSid, muteCallDto.muted ?? true, principal.identity);
+  }
+
+  @Post('calls/:callSid/transfer')
+  @UseGuards(AuthGuard)
+  @HttpCode(HttpStatus.OK)
+  transferCall(
+    @Param('callSid') callSid: string,
+    @Body() transferDto: TransferCallDto,
+    @CurrentPrincipal() principal: AuthPrincipal,
+    @CurrentTenant() tenantId: string,
+  ) {
+    return this.transferService.transfer(callSid, transferDto, tenantId, principal.identity);
+  }
+
+  @Post('calls/:callSid/transfer/complete')
+  @UseGuards(AuthGuard)
+  @HttpCode(HttpStatus.OK)
+  completeTransfer(@Param('callSid') callSid: string, @CurrentTenant() tenantId: string) {
+    return this.transferService.completeWarmTransfer(callSid, tenantId);
+  }
+
+  @Post('calls/:callSid/transfer/cancel')
+  @UseGuards(AuthGuard)
+  @HttpCode(HttpStatus.OK)
+  async cancelTransfer(@Param('callSid') callSid: string, @CurrentTenant() tenantId: string) {
+    await this.transferService.cancelWarmTransfer(callSid, tenantId);
+    return { success: true, callSid };
+  }
+
+  @Post('calls/:callSid/conference')
+  @UseGuards(AuthGuard)
+  @HttpCode(HttpStatus.OK)
+  addThirdParty(
+    @Param('callSid') callSid: string,
+    @Body() participantDto: AddParticipantDto,
+    @CurrentPrincipal() principal: AuthPrincipal,
+    @CurrentTenant() tenantId: string,
+  ) {
+    return this.conferenceService.addThirdParty(tenantId, callSid, participantDto, principal.identity);
+  }
+
+  @Get('conferences')
+  @UseGuards(AuthGuard)
+  getConferences(@CurrentTenant() tenantId: string) {
+    return { conferences: this.conferenceService.getRooms(tenantId) };
+  }
+
+  @Post('conferences')
+  @UseGuards(AuthGuard)
+  createConference(
+    @Body() createConferenceDto: CreateConferenceDto,
+    @CurrentPrincipal() principal: AuthPrincipal,
+    @CurrentTenant() tenantId: string,
+  ) {
+    return this.conferenceService.createRoom(tenantId, createConferenceDto.name, principal.identity);
+  }
+
+  @Delete('conferences/:name')
+  @UseGuards(AuthGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async closeConference(@Param('name') name: string, @CurrentTenant() tenantId: string) {
+    await this.conferenceService.closeRoom(tenantId, name);
+  }
+
+  @Get('conferences/:name/participants')
+  @UseGuards(AuthGuard)
+  async getParticipants(@Param('name') name: string, @CurrentTenant() tenantId: string) {
+    const participants = await this.conferenceService.listParticipants(tenantId, name);
+    return { conference: name, participants };
+  }
+
+  @Post('conferences/:name/participants')
+  @UseGuards(AuthGuard)
+  addParticipant(
+    @Param('name') name: string,
+    @Body() participantDto: AddParticipantDto,
+    @CurrentPrincipal() principal: AuthPrincipal,
+    @CurrentTenant() tenantId: string,
+  ) {
+    return this.conferenceService.addParticipant(tenantId, name, participantDto, principal.identity);
+  }
+
+  @Post('conferences/:name/participants/:callSid/mute')
+  @UseGuards(AuthGuard)
+  @HttpCode(HttpStatus.OK)
+  muteParticipant(
+    @Param('name') name: string,
+    @Param('callSid') callSid: string,
+    @CurrentTenant() tenantId: string,
+  ) {
+    return this.conferenceService.updateParticipant(tenantId, name, callSid, { muted: true });
+  }
+
+  @Post('conferences/:name/participants/:callSid/unmute')
+  @UseGuards(AuthGuard)
+  @HttpCode(HttpStatus.OK)
+  unmuteParticipant(
+    @Param('name') name: string,
+    @Param('callSid') callSid: string,
+    @CurrentTenant() tenantId: string,
+  ) {
+    return this.conferenceService.updateParticipant(tenantId, name, callSid, { muted: false });
+  }
+
+  @Post('conferences/:name/participants/:callSid/hold')
+  @UseGuards(AuthGuard)
+  @HttpCode(HttpStatus.OK)
+  holdParticipant(
+    @Param('name') name: string,
+    @Param('callSid') callSid: string,
+    @CurrentTenant() tenantId: string,
+  ) {
+    return this.conferenceService.updateParticipant(tenantId, name, callSid, { hold: true });
+  }
+
+  @Post('conferences/:name/participants/:callSid/unhold')
+  @UseGuards(AuthGuard)
+  @HttpCode(HttpStatus.OK)
+  unholdParticipant(
+    @Param('name') name: string,
+    @Param('callSid') callSid: string,
+    @CurrentTenant() tenantId: string,
+  ) {
+    return this.conferenceService.updateParticipant(tenantId, name, callSid, { hold: false });
+  }
+
+  @Delete('conferences/:name/participants/:callSid')
+  @UseGuards(AuthGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async kickParticipant(
+    @Param('name') name: string,
+    @Param('callSid') callSid: string,
+    @CurrentTenant() tenantId: string,
+  ) {
+    await this.conferenceService.removeParticipant(tenantId, name, callSid);
+  }
+
+  @Sse('events')
+  @UseGuards(AuthGuard)
+  streamEvents(
+    @CurrentPrincipal() principal: AuthPrincipal,
+    @CurrentTenant() tenantId: string,
+    @Query('callSid') callSid?: string,
+    @Query('identity') identity?: string,
+  ): Observable<MessageEvent> {
+    return this.callEvents.stream({
+      tenantId,
+      callSid,
+      identity: identity && this.ownIdentity(principal, identity),
+    });
+  }
+
+  @Get('admin/webhooks')
+  @Roles('admin')
+  getWebhookSubscribers(@CurrentTenant() tenantId: string) {
+    return { subscribers: this.webhookDispatcher.getSubscribers(tenantId) };
+  }
+
+  @Get('admin/webhooks/dead-letters')
+  @Roles('admin')
+  getDeadLetters(@CurrentTenant() tenantId: string) {
+    return { deliveries: this.webhookDispatcher.getDeadLetters(tenantId) };
+  }
+
+  @Post('admin/webhooks/dead-letters/:deliveryId/replay')
+  @Roles('admin')
+  @HttpCode(HttpStatus.OK)
+  replayDeadLetter(@CurrentTenant() tenantId: string, @Param('deliveryId') deliveryId: string) {
+    return this.webhookDispatcher.replay(tenantId, deliveryId);
+  }
+
+  @Post('admin/reconcile')
+  @Roles('admin')
+  @HttpCode(HttpStatus.OK)
+  reconcileCalls(@CurrentTenant() tenantId: string) {
+    return this.reconciliation.reconcile(tenantId);
+  }
+
+  @Get('admin/numbers')
+  @Roles('admin')
+  getNumberPool(@CurrentTenant() tenantId: string, @Query('tag') tag?: string) {
+    return {
+      strategy: this.numberPool.getStrategy(),
+      numbers: this.numberPool.list(tenantId, tag),
+    };
+  }
+
+  @Post('admin/numbers')
+  @Roles('admin')
+  addPoolNumber(@Body() addPoolNumberDto: AddPoolNumberDto, @CurrentTenant() tenantId: string) {
+    return this.numberPool.add(tenantId, addPoolNumberDto.phoneNumber, addPoolNumberDto.tags);
+  }
+
+  @Delete('admin/numbers/:phoneNumber')
+  @Roles('admin')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  removePoolNumber(@Param('phoneNumber') phoneNumber: string, @CurrentTenant() tenantId: string) {
+    this.numberPool.remove(tenantId, phoneNumber);
+  }
+
+  @Get('admin/dial-policy')
+  @Roles('admin')
+  getDialPolicy(@CurrentTenant() tenantId: string) {
+    return {
+      policy: this.dialPolicy.getPolicy(),
+      blockedAttempts: this.dialPolicy.getBlockedAttempts(tenantId),
+    };
+  }
+
   @Get('statistics')
-  getStatistics() {
-    return this.testTalkService.getCallStatistics();
+  @UseGuards(AuthGuard)
+  getStatistics(@CurrentTenant() tenantId: string) {
+    return this.testTalkService.getCallStatistics(tenantId);
   }
 
   @Get('health')
-  async healthCheck() {
-    return this.testTalkService.healthCheck();
+  async healthCheck(@CurrentTenant() tenantId: string) {
+    return this.testTalkService.healthCheck(tenantId);
   }
 
   @Get('phone')
@@ -121,10 +770,21 @@ export class TestTalkController {
   }
 
   @Get('config')
-  getConfig() {
+  getConfig(@CurrentTenant() tenantId: string) {
     return {
-      phoneNumber: this.testTalkService.getPhoneNumber(),
+      tenantId,
+      phoneNumber: this.testTalkService.getPhoneNumber(tenantId),
       // Add other non-sensitive config as needed
     };
   }
+
+  /**
+   * The principal's own identity; naming anyone else's is refused rather than silently replaced
+   */
+  private ownIdentity(principal: AuthPrincipal, requested?: string): string {
+    if (requested && requested !== principal.identity) {
+      throw new ForbiddenException(`Authenticated as ${principal.identity}, not ${requested}`);
+    }
+    return principal.identity;
+  }
 }
@@ -0,0 +1,16 @@
+import { IsBoolean, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+
+export class AddParticipantDto {
+  // Either a browser client as client:<identity> or a phone number
+  @IsString()
+  @IsNotEmpty()
+  to!: string;
+
+  @IsOptional()
+  @IsString()
+  from?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  muted?: boolean;
+}
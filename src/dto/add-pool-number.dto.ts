@@ -0,0 +1,13 @@
+import { IsArray, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+
+export class AddPoolNumberDto {
+  // Parsed against the tenant's default region, so national formats are accepted
+  @IsString()
+  @IsNotEmpty()
+  phoneNumber!: string;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  tags?: string[];
+}
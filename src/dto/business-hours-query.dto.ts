@@ -0,0 +1,13 @@
+import { IsDateString, IsOptional, IsString } from 'class-validator';
+
+export class BusinessHoursQueryDto {
+  // The called number, for lines with their own schedule; the tenant's schedule applies otherwise
+  @IsOptional()
+  @IsString()
+  number?: string;
+
+  // Report the state at this time instead of now
+  @IsOptional()
+  @IsDateString()
+  at?: string;
+}
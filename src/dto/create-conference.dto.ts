@@ -0,0 +1,8 @@
+import { IsString, Matches } from 'class-validator';
+
+export class CreateConferenceDto {
+  // Used as the Twilio conference friendly name, so keep it URL safe
+  @IsString()
+  @Matches(/^[A-Za-z0-9_-]{1,64}$/, { message: 'name may only contain letters, digits, - and _' })
+  name!: string;
+}
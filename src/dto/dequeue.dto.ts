@@ -0,0 +1,9 @@
+import { IsString, IsNotEmpty, IsOptional } from 'class-validator';
+
+export class DequeueDto {
+  // Defaults to the authenticated principal, and may only repeat it
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  identity?: string;
+}
@@ -0,0 +1,14 @@
+import { IsString, IsOptional, IsIn, IsNotEmpty } from 'class-validator';
+import { PresenceState } from '../types';
+
+export class HeartbeatDto {
+  // Defaults to the authenticated principal, and may only repeat it
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  identity?: string;
+
+  @IsOptional()
+  @IsIn(['available', 'busy', 'offline'])
+  state?: PresenceState;
+}
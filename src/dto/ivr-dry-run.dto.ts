@@ -0,0 +1,14 @@
+import { IsArray, IsDateString, IsOptional, IsString } from 'class-validator';
+
+export class IvrDryRunDto {
+  // Digits such as "1" or speech such as "billing", answered to each menu in turn
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  inputs?: string[];
+
+  // Evaluate business-hours branches at this time instead of now
+  @IsOptional()
+  @IsDateString()
+  at?: string;
+}
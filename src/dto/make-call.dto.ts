@@ -1,11 +1,48 @@
-import { IsString, IsOptional, IsPhoneNumber } from 'class-validator';
+import {
+  IsString,
+  IsOptional,
+  IsNotEmpty,
+  IsBoolean,
+  IsIn,
+  IsISO31661Alpha2,
+  MaxLength,
+} from 'class-validator';
 
 export class MakeCallDto {
+  // Parsed against the region below, or the tenant's default, so national formats are accepted
   @IsString()
-  @IsPhoneNumber()
+  @IsNotEmpty()
   to!: string;
 
   @IsOptional()
   @IsString()
   from?: string;
+
+  @IsOptional()
+  @IsString()
+  callerIdTag?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  record?: boolean;
+
+  @IsOptional()
+  @IsISO31661Alpha2()
+  region?: string;
+
+  // "click-to-call" rings the agent first and dials the customer once they answer
+  @IsOptional()
+  @IsIn(['direct', 'click-to-call'])
+  mode?: 'direct' | 'click-to-call';
+
+  // Ring this desk or mobile number instead of the agent's browser client
+  @IsOptional()
+  @IsString()
+  agentNumber?: string;
+
+  // Spoken to the agent before the customer is dialed
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  whisper?: string;
 }
@@ -0,0 +1,8 @@
+import { IsBoolean, IsOptional } from 'class-validator';
+
+export class MuteCallDto {
+  // Omit to mute; send false to unmute
+  @IsOptional()
+  @IsBoolean()
+  muted?: boolean;
+}
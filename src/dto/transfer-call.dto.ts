@@ -0,0 +1,12 @@
+import { IsIn, IsNotEmpty, IsString } from 'class-validator';
+import { TransferType } from '../types';
+
+export class TransferCallDto {
+  @IsIn(['cold', 'warm'])
+  type!: TransferType;
+
+  // Either a browser client as client:<identity> or a phone number
+  @IsString()
+  @IsNotEmpty()
+  to!: string;
+}
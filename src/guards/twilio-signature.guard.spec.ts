@@ -0,0 +1,106 @@
+import { ExecutionContext, ForbiddenException, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as twilio from 'twilio';
+import { TwilioConfigService } from '../config/twilio.config';
+import { TwilioSignatureGuard } from './twilio-signature.guard';
+
+const authToken = 'a'.repeat(32);
+const webhookUrl = 'https://voice.example.com/api/v1/test-talk/call-status';
+const body = { CallSid: 'CA123', CallStatus: 'completed', CallDuration: '42' };
+
+function createGuard(twilioSettings: { webhookBaseUrl?: string; validateWebhookSignature?: boolean } = {}) {
+  const configService = new ConfigService({
+    twilio: {
+      accountSid: `AC${'0'.repeat(32)}`,
+      apiKey: `SK${'0'.repeat(32)}`,
+      apiSecret: 'test-api-secret',
+      twimlAppSid: `AP${'0'.repeat(32)}`,
+      phoneNumber: '+15005550006',
+      authToken,
+      webhookBaseUrl: 'https://voice.example.com',
+      validateWebhookSignature: true,
+      ...twilioSettings,
+    },
+  });
+  return new TwilioSignatureGuard(new TwilioConfigService(configService));
+}
+
+function contextFor(request: {
+  body: Record<string, string>;
+  headers?: Record<string, string>;
+  originalUrl?: string;
+  host?: string;
+}): ExecutionContext {
+  const headers: Record<string, string | undefined> = {
+    host: request.host || 'localhost:3000',
+    ...request.headers,
+  };
+  const httpRequest = {
+    body: request.body,
+    originalUrl: request.originalUrl || '/api/v1/test-talk/call-status',
+    protocol: 'http',
+    header: (name: string) => headers[name.toLowerCase()],
+    get: (name: string) => headers[name.toLowerCase()],
+  };
+  return { switchToHttp: () => ({ getRequest: () => httpRequest }) } as unknown as ExecutionContext;
+}
+
+function sign(url: string, params: Record<string, string>) {
+  return { 'x-twilio-signature': twilio.getExpectedTwilioSignature(authToken, url, params) };
+}
+
+describe('TwilioSignatureGuard', () => {
+  beforeEach(() => {
+    jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('lets through a request signed for the public webhook URL', () => {
+    const guard = createGuard();
+
+    expect(guard.canActivate(contextFor({ body, headers: sign(webhookUrl, body) }))).toBe(true);
+  });
+
+  it('rejects a request whose body was changed after signing', () => {
+    const guard = createGuard();
+    const context = contextFor({ body: { ...body, CallDuration: '4200' }, headers: sign(webhookUrl, body) });
+
+    expect(() => guard.canActivate(context)).toThrow(new ForbiddenException('Invalid Twilio signature'));
+  });
+
+  it('rejects a request signed for a different URL', () => {
+    const guard = createGuard();
+    const context = contextFor({
+      body,
+      headers: sign(webhookUrl, body),
+      originalUrl: '/api/v1/test-talk/call-status?tenant=other',
+    });
+
+    expect(() => guard.canActivate(context)).toThrow(new ForbiddenException('Invalid Twilio signature'));
+  });
+
+  it('rejects a request without a signature', () => {
+    const guard = createGuard();
+
+    expect(() => guard.canActivate(contextFor({ body }))).toThrow(new ForbiddenException('Missing Twilio signature'));
+  });
+
+  it('checks the signature against the request host when no public URL is configured', () => {
+    const guard = createGuard({ webhookBaseUrl: '' });
+    const localUrl = 'http://localhost:3000/api/v1/test-talk/call-status';
+
+    expect(guard.canActivate(contextFor({ body, headers: sign(localUrl, body) }))).toBe(true);
+    expect(() => guard.canActivate(contextFor({ body, headers: sign(webhookUrl, body) }))).toThrow(
+      ForbiddenException,
+    );
+  });
+
+  it('lets everything through when validation is turned off', () => {
+    const guard = createGuard({ validateWebhookSignature: false });
+
+    expect(guard.canActivate(contextFor({ body }))).toBe(true);
+  });
+});
@@ -0,0 +1,58 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { Request } from 'express';
+import * as twilio from 'twilio';
+import { TwilioConfigService } from '../config/twilio.config';
+
+/**
+ * Rejects webhook requests that do not carry a valid X-Twilio-Signature
+ */
+@Injectable()
+export class TwilioSignatureGuard implements CanActivate {
+  private readonly logger = new Logger(TwilioSignatureGuard.name);
+
+  constructor(private readonly twilioConfig: TwilioConfigService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<Request & { tenantId?: string }>();
+    const { enabled, authToken, webhookBaseUrl } =
+      this.twilioConfig.getWebhookValidationSettings(request.tenantId);
+
+    if (!enabled) {
+      return true;
+    }
+
+    const signature = request.header('X-Twilio-Signature');
+
+    if (!signature) {
+      this.logger.warn(`Missing Twilio signature on ${request.originalUrl}`);
+      throw new ForbiddenException('Missing Twilio signature');
+    }
+
+    const url = this.resolvePublicUrl(request, webhookBaseUrl);
+    const params = request.body && typeof request.body === 'object' ? request.body : {};
+
+    if (!twilio.validateRequest(authToken, signature, url, params)) {
+      this.logger.warn(`Invalid Twilio signature for ${url}`);
+      throw new ForbiddenException('Invalid Twilio signature');
+    }
+
+    return true;
+  }
+
+  /**
+   * Twilio signs the public URL it called, which differs from the local one behind a proxy
+   */
+  private resolvePublicUrl(request: Request, webhookBaseUrl: string): string {
+    if (webhookBaseUrl) {
+      return `${webhookBaseUrl.replace(/\/+$/, '')}${request.originalUrl}`;
+    }
+
+    return `${request.protocol}://${request.get('host')}${request.originalUrl}`;
+  }
+}
@@ -0,0 +1,138 @@
+import { IvrFlow } from '../types';
+import { validateIvrFlow } from './ivr-flow';
+
+const weekdays = { timezone: 'America/New_York', days: { monday: ['09:00-17:00'] } };
+
+describe('validateIvrFlow', () => {
+  const flow: IvrFlow = {
+    start: 'welcome',
+    nodes: {
+      welcome: { type: 'say', message: 'Welcome to Acme.', next: 'hours' },
+      hours: { type: 'hours', schedule: weekdays, open: 'menu', closed: 'voicemail' },
+      menu: {
+        type: 'menu',
+        prompt: 'Press 1 for sales or 2 for support.',
+        options: [
+          { digit: '1', phrases: ['sales'], next: 'sales' },
+          { digit: '2', next: 'support' },
+        ],
+        fallback: 'voicemail',
+      },
+      sales: { type: 'client', identity: 'alice' },
+      support: { type: 'queue' },
+      voicemail: { type: 'voicemail' },
+    },
+  };
+
+  it('accepts a well formed flow', () => {
+    expect(validateIvrFlow(flow)).toEqual([]);
+  });
+
+  it('reports every reference to a node that does not exist', () => {
+    const broken: IvrFlow = {
+      start: 'missing',
+      nodes: {
+        welcome: { type: 'say', message: 'Hi.', next: 'nowhere' },
+        hours: { type: 'hours', schedule: weekdays, open: 'welcome', closed: 'gone' },
+        menu: { type: 'menu', prompt: 'Choose.', options: [{ digit: '1', next: 'lost' }], fallback: 'absent' },
+      },
+    };
+
+    expect(validateIvrFlow(broken)).toEqual([
+      'start refers to unknown node missing',
+      'welcome: next refers to unknown node nowhere',
+      'hours: closed refers to unknown node gone',
+      'menu: fallback refers to unknown node absent',
+      'menu: option 1 refers to unknown node lost',
+    ]);
+  });
+
+  it('does not mistake inherited object properties for nodes', () => {
+    const errors = validateIvrFlow({ ...flow, start: 'constructor' });
+
+    expect(errors).toEqual(['start refers to unknown node constructor']);
+  });
+
+  it('reports hours nodes that loop back to themselves', () => {
+    const looping: IvrFlow = {
+      start: 'first',
+      nodes: {
+        first: { type: 'hours', schedule: weekdays, open: 'second', closed: 'bye' },
+        second: { type: 'hours', schedule: weekdays, open: 'bye', closed: 'first' },
+        bye: { type: 'hangup' },
+      },
+    };
+
+    expect(validateIvrFlow(looping)).toEqual([
+      'first: hours nodes loop back to themselves',
+      'second: hours nodes loop back to themselves',
+    ]);
+  });
+
+  it('reports an hours node that branches straight back to itself', () => {
+    const looping: IvrFlow = {
+      start: 'hours',
+      nodes: { hours: { type: 'hours', schedule: weekdays, open: 'hours', closed: 'hours' } },
+    };
+
+    expect(validateIvrFlow(looping)).toEqual(['hours: hours nodes loop back to themselves']);
+  });
+
+  it('allows loops that pass through a node the caller hears', () => {
+    const repeating: IvrFlow = {
+      start: 'hours',
+      nodes: {
+        hours: { type: 'hours', schedule: weekdays, open: 'bye', closed: 'closed' },
+        closed: { type: 'say', message: 'We are closed.', next: 'hours' },
+        bye: { type: 'hangup' },
+      },
+    };
+
+    expect(validateIvrFlow(repeating)).toEqual([]);
+  });
+
+  it('checks hours schedules by name or by content', () => {
+    const named: IvrFlow = {
+      start: 'hours',
+      nodes: {
+        hours: { type: 'hours', schedule: 'office', open: 'bye', closed: 'late' },
+        late: { type: 'hours', schedule: { timezone: 'Nowhere/City', days: {} }, open: 'bye', closed: 'bye' },
+        bye: { type: 'hangup' },
+      },
+    };
+
+    expect(validateIvrFlow(named, ['office'])).toEqual(['late: unknown timezone Nowhere/City']);
+    expect(validateIvrFlow(named, [])).toEqual([
+      'hours: hours refers to unknown schedule office',
+      'late: unknown timezone Nowhere/City',
+    ]);
+  });
+
+  it('reports menus with bad options', () => {
+    const menu: IvrFlow = {
+      start: 'menu',
+      nodes: {
+        menu: {
+          type: 'menu',
+          prompt: 'Choose.',
+          retries: -1,
+          options: [{ digit: '1', next: 'bye' }, { digit: '1', next: 'bye' }, { digit: '12', next: 'bye' }],
+        },
+        bye: { type: 'hangup' },
+      },
+    };
+
+    expect(validateIvrFlow(menu)).toEqual([
+      'menu: retries must be a non-negative integer',
+      'menu: digit 1 is used twice',
+      'menu: option 3 digit must be a single key',
+    ]);
+  });
+
+  it('requires the tenant list once several tenants are configured', () => {
+    expect(validateIvrFlow(flow, [], ['acme', 'globex'])).toEqual(['tenants must list the tenants the flow is for']);
+    expect(validateIvrFlow({ ...flow, tenants: ['acme', 'initech'] }, [], ['acme', 'globex'])).toEqual([
+      'tenants refers to unknown tenant initech',
+    ]);
+  });
+});
@@ -0,0 +1,150 @@
+import { loadDataFile, validateWeeklyHours } from '../business-hours/business-hours';
+import { IvrFlow, IvrNode } from '../types';
+import { PhoneValidator } from '../utils';
+
+const MENU_INPUTS = ['dtmf', 'speech', 'dtmf speech'];
+
+/**
+ * Read a flow definition from a .json, .yaml or .yml file
+ */
+export function loadIvrFlow(path: string): IvrFlow {
+  return loadDataFile<IvrFlow>(path);
+}
+
+/**
+ * Every problem with the flow, so a bad file can be fixed in one pass. Hours nodes may name one of
+ * the configured business-hours schedules instead of spelling one out.
+ */
+export function validateIvrFlow(flow: IvrFlow, scheduleIds: string[] = [], tenantIds: string[] = []): string[] {
+  if (!flow || typeof flow !== 'object' || !flow.nodes || typeof flow.nodes !== 'object') {
+    return ['flow must have a nodes object'];
+  }
+
+  const errors: string[] = [];
+  const exists = (nodeId?: string) => !!nodeId && Object.prototype.hasOwnProperty.call(flow.nodes, nodeId);
+  const requireNode = (nodeId: string, field: string, target?: string) => {
+    if (!exists(target)) errors.push(`${nodeId}: ${field} refers to unknown node ${target ?? '(missing)'}`);
+  };
+
+  if (!exists(flow.start)) {
+    errors.push(`start refers to unknown node ${flow.start ?? '(missing)'}`);
+  }
+
+  // A flow without tenants would answer every tenant's calls with one tenant's menu
+  if (flow.tenants === undefined) {
+    if (tenantIds.length > 1) errors.push('tenants must list the tenants the flow is for');
+  } else if (!Array.isArray(flow.tenants) || flow.tenants.length === 0) {
+    errors.push('tenants must be a non-empty list');
+  } else {
+    flow.tenants
+      .filter((tenantId) => tenantIds.length > 0 && !tenantIds.includes(tenantId))
+      .forEach((tenantId) => errors.push(`tenants refers to unknown tenant ${tenantId}`));
+  }
+
+  for (const [nodeId, node] of Object.entries(flow.nodes)) {
+    switch (node?.type) {
+      case 'say':
+        if (!node.message) errors.push(`${nodeId}: say needs a message`);
+        if (node.next !== undefined) requireNode(nodeId, 'next', node.next);
+        break;
+      case 'menu':
+        errors.push(...validateMenu(nodeId, node, exists));
+        break;
+      case 'hours':
+        if (typeof node.schedule === 'string') {
+          if (!scheduleIds.includes(node.schedule)) {
+            errors.push(`${nodeId}: hours refers to unknown schedule ${node.schedule}`);
+          }
+        } else {
+          errors.push(...validateWeeklyHours(nodeId, node.schedule));
+        }
+        requireNode(nodeId, 'open', node.open);
+        requireNode(nodeId, 'closed', node.closed);
+        break;
+      case 'client':
+        if (!node.identity) errors.push(`${nodeId}: client needs an identity`);
+        break;
+      case 'number':
+        if (!PhoneValidator.isValid(node.number)) errors.push(`${nodeId}: number must be in E.164 format`);
+        break;
+      case 'agents':
+      case 'queue':
+      case 'voicemail':
+      case 'hangup':
+        break;
+      default:
+        errors.push(`${nodeId}: unknown node type ${(node as { type?: string })?.type}`);
+    }
+  }
+
+  errors.push(...findHoursCycles(flow));
+  return errors;
+}
+
+function validateMenu(
+  nodeId: string,
+  node: Extract<IvrNode, { type: 'menu' }>,
+  exists: (nodeId?: string) => boolean,
+): string[] {
+  const errors: string[] = [];
+
+  if (!node.prompt) errors.push(`${nodeId}: menu needs a prompt`);
+  if (node.input && !MENU_INPUTS.includes(node.input)) {
+    errors.push(`${nodeId}: input must be one of ${MENU_INPUTS.join(', ')}`);
+  }
+  if (node.retries !== undefined && (!Number.isInteger(node.retries) || node.retries < 0)) {
+    errors.push(`${nodeId}: retries must be a non-negative integer`);
+  }
+  if (node.fallback !== undefined && !exists(node.fallback)) {
+    errors.push(`${nodeId}: fallback refers to unknown node ${node.fallback}`);
+  }
+  if (!Array.isArray(node.options) || node.options.length === 0) {
+    errors.push(`${nodeId}: menu needs at least one option`);
+    return errors;
+  }
+
+  const digits = new Set<string>();
+  node.options.forEach((option, index) => {
+    if (!option.digit && !option.phrases?.length) {
+      errors.push(`${nodeId}: option ${index + 1} needs a digit or phrases`);
+    }
+    if (option.digit !== undefined) {
+      if (!/^[0-9*#]$/.test(option.digit)) {
+        errors.push(`${nodeId}: option ${index + 1} digit must be a single key`);
+      } else if (digits.has(option.digit)) {
+        errors.push(`${nodeId}: digit ${option.digit} is used twice`);
+      }
+      digits.add(option.digit);
+    }
+    if (!exists(option.next)) {
+      errors.push(`${nodeId}: option ${index + 1} refers to unknown node ${option.next ?? '(missing)'}`);
+    }
+  });
+
+  return errors;
+}
+
+// Hours nodes are resolved without a round trip to Twilio, so a loop of them would never end
+function findHoursCycles(flow: IvrFlow): string[] {
+  const errors: string[] = [];
+
+  for (const nodeId of Object.keys(flow.nodes)) {
+    let loops = false;
+    const visit = (current: string, path: string[]): void => {
+      const node = flow.nodes[current];
+      if (loops || node?.type !== 'hours') return;
+      if (path.includes(current)) {
+        loops = current === nodeId;
+        return;
+      }
+      visit(node.open, [...path, current]);
+      visit(node.closed, [...path, current]);
+    };
+    visit(nodeId, []);
+
+    // Both branches may lead back, but one report per node is enough
+    if (loops) errors.push(`${nodeId}: hours nodes loop back to themselves`);
+  }
+
+  return errors;
+}
@@ -1,8 +1,41 @@
-import { Module } from '@nestjs/common';
-import { ConfigModule } from '@nestjs/config';
+import { MiddlewareConsumer, Module, NestModule } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
 import { TestTalkController } from '../controllers/test-talk.controller';
 import { TestTalkService } from '../services/test-talk.service';
+import { PresenceService } from '../services/presence.service';
+import { NumberPoolService } from '../services/number-pool.service';
+import { DialPolicyService } from '../services/dial-policy.service';
+import { ConferenceService } from '../services/conference.service';
+import { TransferService } from '../services/transfer.service';
+import { CallControlService } from '../services/call-control.service';
+import { IvrService } from '../services/ivr.service';
+import { BusinessHoursService } from '../services/business-hours.service';
+import { CallReconciliationService } from '../services/call-reconciliation.service';
+import { QueueService } from '../services/queue.service';
+import { VoicemailService } from '../services/voicemail.service';
+import { RecordingService } from '../services/recording.service';
+import { CallEventsService } from '../services/call-events.service';
+import { WebhookDispatcherService } from '../services/webhook-dispatcher.service';
+import {
+  ApiKeyCredential,
+  JwtAuthConfig,
+  RateLimitPolicy,
+  WebhookSubscriber,
+} from '../types';
+import { RATE_LIMIT_STORE } from '../rate-limit/rate-limit.store';
+import { InMemoryRateLimitStore } from '../rate-limit/in-memory-rate-limit.store';
+import { RedisRateLimitStore } from '../rate-limit/redis-rate-limit.store';
+import { AUTH_STRATEGY } from '../auth/auth.strategy';
+import { ApiKeyStrategy } from '../auth/api-key.strategy';
+import { JwtStrategy } from '../auth/jwt.strategy';
 import { TwilioConfigService } from '../config/twilio.config';
+import { CALL_REPOSITORY } from '../repositories/call.repository';
+import { InMemoryCallRepository } from '../repositories/in-memory-call.repository';
+import { FileCallRepository } from '../repositories/file-call.repository';
+import { TenantMiddleware } from '../tenancy/tenant.middleware';
+import { VOICE_PROVIDER } from '../voice/voice-provider';
+import { TwilioVoiceProvider } from '../voice/twilio-voice.provider';
+import { FakeVoiceProvider, FakeVoiceProviderOptions } from '../voice/fake-voice.provider';
 
 // Configuration loader
 const twilioConfig = () => ({
@@ -12,19 +45,266 @@ const twilioConfig = () => ({
     apiSecret: process.env.TWILIO_API_SECRET,
     twimlAppSid: process.env.TWILIO_TWIML_APP_SID,
     phoneNumber: process.env.TWILIO_PHONE_NUMBER,
+    authToken: process.env.TWILIO_AUTH_TOKEN,
+    webhookBaseUrl: process.env.TWILIO_WEBHOOK_BASE_URL,
+    validateWebhookSignature: process.env.TWILIO_VALIDATE_WEBHOOKS !== 'false',
+  },
+});
+
+const tenancyConfig = () => ({
+  tenancy: {
+    configPath: process.env.TENANTS_CONFIG_PATH,
+    defaultTenantId: process.env.DEFAULT_TENANT_ID,
+  },
+});
+
+const phoneConfig = () => ({
+  phone: {
+    defaultRegion: process.env.PHONE_DEFAULT_REGION || 'US',
+  },
+});
+
+const csv = (value?: string): string[] =>
+  (value || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+const dialPolicyConfig = () => ({
+  dialPolicy: {
+    allowedCountries: csv(process.env.DIAL_ALLOWED_COUNTRIES).map((country) => country.toUpperCase()),
+    deniedCountries: csv(process.env.DIAL_DENIED_COUNTRIES).map((country) => country.toUpperCase()),
+    blockedPrefixes: csv(process.env.DIAL_BLOCKED_PREFIXES),
+    blockPremium: process.env.DIAL_BLOCK_PREMIUM !== 'false',
+    dailyCallLimit: parseInt(process.env.DIAL_DAILY_CALL_LIMIT || '0', 10),
+    dailyMinutesLimit: parseInt(process.env.DIAL_DAILY_MINUTES_LIMIT || '0', 10),
+  },
+});
+
+const numberPoolConfig = () => ({
+  numberPool: {
+    strategy: process.env.CALLER_ID_STRATEGY || 'local-presence',
+    numbers: JSON.parse(process.env.PHONE_NUMBER_POOL || '[]'),
+  },
+});
+
+const routingConfig = () => ({
+  routing: {
+    strategy: process.env.ROUTING_STRATEGY || 'longest-idle',
+    heartbeatTimeoutMs: parseInt(process.env.PRESENCE_TIMEOUT_MS || '60000', 10),
+  },
+});
+
+const queueConfig = () => ({
+  queue: {
+    enabled: process.env.QUEUE_ENABLED === 'true',
+    name: process.env.QUEUE_NAME || 'support',
+    waitMusicUrl: process.env.QUEUE_WAIT_MUSIC_URL || '',
+    announceIntervalSeconds: parseInt(process.env.QUEUE_ANNOUNCE_INTERVAL_SECONDS || '30', 10),
+    maxWaitSeconds: parseInt(process.env.QUEUE_MAX_WAIT_SECONDS || '300', 10),
+    overflowAction: process.env.QUEUE_OVERFLOW_ACTION || 'voicemail',
+  },
+});
+
+const voicemailConfig = () => ({
+  voicemail: {
+    enabled: process.env.VOICEMAIL_ENABLED !== 'false',
+    greeting: process.env.VOICEMAIL_GREETING,
+    maxLength: parseInt(process.env.VOICEMAIL_MAX_LENGTH_SECONDS || '120', 10),
+    transcribe: process.env.VOICEMAIL_TRANSCRIBE === 'true',
+  },
+});
+
+const recordingConfig = () => ({
+  recording: {
+    enabled: process.env.CALL_RECORDING_ENABLED === 'true',
+    consentAnnouncement: process.env.CALL_RECORDING_CONSENT_MESSAGE,
+  },
+});
+
+const callControlConfig = () => ({
+  callControl: {
+    holdMusicUrl: process.env.HOLD_MUSIC_URL,
+  },
+});
+
+const ivrConfig = () => ({
+  ivr: {
+    flowPath: process.env.IVR_FLOW_PATH,
+  },
+});
+
+const businessHoursConfig = () => ({
+  businessHours: {
+    configPath: process.env.BUSINESS_HOURS_PATH,
+  },
+});
+
+const voiceConfig = () => ({
+  voice: {
+    provider: process.env.VOICE_PROVIDER || 'twilio',
+    fake: {
+      autoProgress: process.env.FAKE_VOICE_AUTO_PROGRESS !== 'false',
+      ringMs: parseInt(process.env.FAKE_VOICE_RING_SECONDS || '2', 10) * 1000,
+      talkMs: parseInt(process.env.FAKE_VOICE_CALL_SECONDS || '10', 10) * 1000,
+    },
+  },
+});
+
+const reconciliationConfig = () => ({
+  reconciliation: {
+    enabled: process.env.RECONCILE_ENABLED !== 'false',
+    intervalMs: parseInt(process.env.RECONCILE_INTERVAL_SECONDS || '60', 10) * 1000,
+    staleAfterMs: parseInt(process.env.RECONCILE_STALE_AFTER_SECONDS || '120', 10) * 1000,
+  },
+});
+
+const webhookConfig = () => ({
+  webhooks: {
+    subscribers: (JSON.parse(process.env.WEBHOOK_SUBSCRIBERS || '[]') as WebhookSubscriber[]).map(
+      (subscriber) => ({
+        ...subscriber,
+        secret: subscriber.secret || process.env.WEBHOOK_SIGNING_SECRET || '',
+      }),
+    ),
+    maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '5', 10),
+    baseDelayMs: parseInt(process.env.WEBHOOK_RETRY_BASE_DELAY_MS || '1000', 10),
+    timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '5000', 10),
+  },
+});
+
+const rateLimitPolicy = (name: string, defaults: RateLimitPolicy): RateLimitPolicy => ({
+  algorithm:
+    (process.env[`RATE_LIMIT_${name}_ALGORITHM`] as RateLimitPolicy['algorithm']) || defaults.algorithm,
+  limit: parseInt(process.env[`RATE_LIMIT_${name}_LIMIT`] || String(defaults.limit), 10),
+  windowMs: parseInt(process.env[`RATE_LIMIT_${name}_WINDOW_MS`] || String(defaults.windowMs), 10),
+  keyBy: defaults.keyBy,
+});
+
+const rateLimitConfig = () => ({
+  rateLimit: {
+    store: process.env.RATE_LIMIT_STORE || 'memory',
+    redisUrl: process.env.REDIS_URL || 'redis://localhost:6379',
+    policies: {
+      call: rateLimitPolicy('CALL', { algorithm: 'sliding-window', limit: 5, windowMs: 60000, keyBy: 'principal' }),
+      token: rateLimitPolicy('TOKEN', { algorithm: 'token-bucket', limit: 30, windowMs: 60000, keyBy: 'ip' }),
+      end: rateLimitPolicy('END', { algorithm: 'sliding-window', limit: 20, windowMs: 60000, keyBy: 'ip' }),
+    },
+  },
+});
+
+const authConfig = () => ({
+  auth: {
+    strategy: process.env.AUTH_STRATEGY || 'api-key',
+    apiKeys: JSON.parse(process.env.AUTH_API_KEYS || '[]'),
+    jwt: {
+      jwksPath: process.env.AUTH_JWKS_PATH || 'config/jwks.json',
+      issuer: process.env.AUTH_JWT_ISSUER || '',
+      audience: process.env.AUTH_JWT_AUDIENCE || '',
+      identityClaim: process.env.AUTH_JWT_IDENTITY_CLAIM || 'sub',
+      roleClaim: process.env.AUTH_JWT_ROLE_CLAIM || 'role',
+      tenantClaim: process.env.AUTH_JWT_TENANT_CLAIM || 'tenant',
+    },
+    tokenPolicies: {
+      default: { ttl: 3600, incomingAllow: true, outgoingAllow: true },
+      ...JSON.parse(process.env.AUTH_TOKEN_POLICIES || '{}'),
+    },
+  },
+});
+
+const storageConfig = () => ({
+  callStore: {
+    driver: process.env.CALL_STORE_DRIVER || 'memory',
+    filePath: process.env.CALL_STORE_PATH || 'data/calls.json',
   },
 });
 
 @Module({
   imports: [
     ConfigModule.forRoot({
-      load: [twilioConfig],
+      load: [
+        twilioConfig,
+        voiceConfig,
+        tenancyConfig,
+        phoneConfig,
+        numberPoolConfig,
+        dialPolicyConfig,
+        storageConfig,
+        routingConfig,
+        queueConfig,
+        voicemailConfig,
+        recordingConfig,
+        callControlConfig,
+        ivrConfig,
+        businessHoursConfig,
+        reconciliationConfig,
+        webhookConfig,
+        rateLimitConfig,
+        authConfig,
+      ],
       isGlobal: true,
       cache: true,
     }),
   ],
   controllers: [TestTalkController],
-  providers: [TestTalkService, TwilioConfigService],
+  providers: [
+    TestTalkService,
+    PresenceService,
+    NumberPoolService,
+    DialPolicyService,
+    ConferenceService,
+    TransferService,
+    CallControlService,
+    IvrService,
+    BusinessHoursService,
+    CallReconciliationService,
+    QueueService,
+    VoicemailService,
+    RecordingService,
+    CallEventsService,
+    WebhookDispatcherService,
+    {
+      provide: AUTH_STRATEGY,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => {
+        switch (configService.get<string>('auth.strategy')) {
+          case 'jwt':
+            return new JwtStrategy(configService.get<JwtAuthConfig>('auth.jwt')!);
+          default:
+            return new ApiKeyStrategy(configService.get<ApiKeyCredential[]>('auth.apiKeys') || []);
+        }
+      },
+    },
+    {
+      provide: RATE_LIMIT_STORE,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) =>
+        configService.get<string>('rateLimit.store') === 'redis'
+          ? new RedisRateLimitStore(configService.get<string>('rateLimit.redisUrl')!)
+          : new InMemoryRateLimitStore(),
+    },
+    TwilioConfigService,
+    {
+      provide: VOICE_PROVIDER,
+      inject: [ConfigService, TwilioConfigService],
+      useFactory: (configService: ConfigService, twilioConfig: TwilioConfigService) =>
+        configService.get<string>('voice.provider') === 'fake'
+          ? new FakeVoiceProvider(twilioConfig, configService.get<FakeVoiceProviderOptions>('voice.fake'))
+          : new TwilioVoiceProvider(twilioConfig),
+    },
+    {
+      provide: CALL_REPOSITORY,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) =>
+        configService.get<string>('callStore.driver') === 'file'
+          ? new FileCallRepository(configService.get<string>('callStore.filePath')!)
+          : new InMemoryCallRepository(),
+    },
+  ],
   exports: [TestTalkService],
 })
-export class TestTalkModule {}
+export class TestTalkModule implements NestModule {
+  configure(consumer: MiddlewareConsumer) {
+    consumer.apply(TenantMiddleware).forRoutes(TestTalkController);
+  }
+}
@@ -0,0 +1,110 @@
+import { OnModuleDestroy } from '@nestjs/common';
+import { RateLimitPolicy, RateLimitResult } from '../types';
+import { RateLimitStore } from './rate-limit.store';
+
+interface WindowState {
+  windowStart: number;
+  currentCount: number;
+  previousCount: number;
+  tokens: number;
+  lastRefill: number;
+  expiresAt: number;
+}
+
+/**
+ * Per-process store; limits are not shared between instances
+ */
+export class InMemoryRateLimitStore implements RateLimitStore, OnModuleDestroy {
+  private readonly entries = new Map<string, WindowState>();
+  private readonly cleanupInterval: NodeJS.Timeout;
+
+  constructor(cleanupIntervalMs = 300000) {
+    this.cleanupInterval = setInterval(() => this.cleanup(), cleanupIntervalMs);
+    this.cleanupInterval.unref();
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.cleanupInterval);
+    this.entries.clear();
+  }
+
+  async hit(key: string, policy: RateLimitPolicy): Promise<RateLimitResult> {
+    const now = Date.now();
+    const state = this.entries.get(key) || {
+      windowStart: now,
+      currentCount: 0,
+      previousCount: 0,
+      tokens: policy.limit,
+      lastRefill: now,
+      expiresAt: 0,
+    };
+
+    state.expiresAt = now + policy.windowMs * 2;
+    this.entries.set(key, state);
+
+    return policy.algorithm === 'token-bucket'
+      ? this.takeToken(state, policy, now)
+      : this.slideWindow(state, policy, now);
+  }
+
+  async reset(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  /**
+   * Sliding window counter: the previous window's hits count in proportion to its overlap
+   */
+  private slideWindow(state: WindowState, policy: RateLimitPolicy, now: number): RateLimitResult {
+    const elapsedWindows = Math.floor((now - state.windowStart) / policy.windowMs);
+
+    if (elapsedWindows >= 1) {
+      state.previousCount = elapsedWindows === 1 ? state.currentCount : 0;
+      state.currentCount = 0;
+      state.windowStart += elapsedWindows * policy.windowMs;
+    }
+
+    const elapsed = now - state.windowStart;
+    const weight = (policy.windowMs - elapsed) / policy.windowMs;
+    const estimated = state.previousCount * weight + state.currentCount;
+
+    if (estimated >= policy.limit) {
+      return { allowed: false, remaining: 0, retryAfterMs: policy.windowMs - elapsed };
+    }
+
+    state.currentCount++;
+    return {
+      allowed: true,
+      remaining: Math.max(0, Math.floor(policy.limit - estimated - 1)),
+      retryAfterMs: 0,
+    };
+  }
+
+  /**
+   * Token bucket: capacity of `limit`, refilled evenly across `windowMs`
+   */
+  private takeToken(state: WindowState, policy: RateLimitPolicy, now: number): RateLimitResult {
+    const refillPerMs = policy.limit / policy.windowMs;
+    state.tokens = Math.min(policy.limit, state.tokens + (now - state.lastRefill) * refillPerMs);
+    state.lastRefill = now;
+
+    if (state.tokens < 1) {
+      return {
+        allowed: false,
+        remaining: 0,
+        retryAfterMs: Math.ceil((1 - state.tokens) / refillPerMs),
+      };
+    }
+
+    state.tokens -= 1;
+    return { allowed: true, remaining: Math.floor(state.tokens), retryAfterMs: 0 };
+  }
+
+  private cleanup(): void {
+    const now = Date.now();
+    for (const [key, state] of this.entries.entries()) {
+      if (state.expiresAt < now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
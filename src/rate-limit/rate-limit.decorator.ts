@@ -0,0 +1,8 @@
+import { applyDecorators, SetMetadata, UseGuards } from '@nestjs/common';
+import { RATE_LIMIT_POLICY, RateLimitGuard } from './rate-limit.guard';
+
+/**
+ * Apply the named rate limit policy from configuration to a route
+ */
+export const RateLimit = (policyName: string) =>
+  applyDecorators(SetMetadata(RATE_LIMIT_POLICY, policyName), UseGuards(RateLimitGuard));
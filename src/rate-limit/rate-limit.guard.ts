@@ -0,0 +1,77 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  HttpException,
+  HttpStatus,
+  Inject,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { Request, Response } from 'express';
+import { AuthPrincipal, RateLimitPolicy } from '../types';
+import { RATE_LIMIT_STORE, RateLimitStore } from './rate-limit.store';
+
+export const RATE_LIMIT_POLICY = 'rateLimitPolicy';
+
+@Injectable()
+export class RateLimitGuard implements CanActivate {
+  private readonly logger = new Logger(RateLimitGuard.name);
+
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly configService: ConfigService,
+    @Inject(RATE_LIMIT_STORE) private readonly store: RateLimitStore,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const policyName = this.reflector.get<string>(RATE_LIMIT_POLICY, context.getHandler());
+    const policy = this.configService.get<RateLimitPolicy>(`rateLimit.policies.${policyName}`);
+
+    if (!policy) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<Request & { tenantId?: string }>();
+    const response = context.switchToHttp().getResponse<Response>();
+    const key = `${request.tenantId || 'global'}:${policyName}:${this.resolveIdentifier(request, policy)}`;
+
+    let result;
+    try {
+      result = await this.store.hit(key, policy);
+    } catch (error) {
+      // Fail open so an unavailable store never takes calling down with it
+      this.logger.error(`Rate limit store unavailable for ${key}:`, (error as Error).message);
+      return true;
+    }
+
+    response.setHeader('X-RateLimit-Limit', policy.limit);
+    response.setHeader('X-RateLimit-Remaining', result.remaining);
+
+    if (!result.allowed) {
+      const retryAfterSeconds = Math.max(1, Math.ceil(result.retryAfterMs / 1000));
+      response.setHeader('Retry-After', retryAfterSeconds);
+      this.logger.warn(`Rate limit exceeded for ${key}`);
+
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.TOO_MANY_REQUESTS,
+          message: 'Too many requests. Please try again later.',
+          retryAfter: retryAfterSeconds,
+        },
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    return true;
+  }
+
+  // The caller ID in the body is chosen by the client, so limits key on who is calling instead
+  private resolveIdentifier(request: Request & { principal?: AuthPrincipal }, policy: RateLimitPolicy): string {
+    if (policy.keyBy === 'principal' && request.principal) {
+      return `principal:${request.principal.subject}`;
+    }
+    return request.ip || 'unknown';
+  }
+}
@@ -0,0 +1,11 @@
+import { RateLimitPolicy, RateLimitResult } from '../types';
+
+export const RATE_LIMIT_STORE = Symbol('RATE_LIMIT_STORE');
+
+/**
+ * Backend that counts hits against a policy, shared between instances when it is remote
+ */
+export interface RateLimitStore {
+  hit(key: string, policy: RateLimitPolicy): Promise<RateLimitResult>;
+  reset(key: string): Promise<void>;
+}
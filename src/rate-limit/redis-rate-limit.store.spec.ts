@@ -0,0 +1,91 @@
+import Redis from 'ioredis';
+import { RateLimitPolicy, RateLimitResult } from '../types';
+import { RedisRateLimitStore } from './redis-rate-limit.store';
+
+// ioredis-mock runs the Lua scripts in-process, so the store is exercised without a server
+jest.mock('ioredis', () => require('ioredis-mock'));
+
+const redisUrl = 'redis://localhost:6379';
+const slidingWindow: RateLimitPolicy = { algorithm: 'sliding-window', limit: 3, windowMs: 60000, keyBy: 'ip' };
+const tokenBucket: RateLimitPolicy = { algorithm: 'token-bucket', limit: 3, windowMs: 60000, keyBy: 'ip' };
+
+describe('RedisRateLimitStore', () => {
+  let now: number;
+  let store: RedisRateLimitStore;
+
+  beforeEach(async () => {
+    // Mock clients on the same URL share their data, so start each test empty
+    await new Redis(redisUrl).flushall();
+
+    // The mock's Lua VM has 32-bit integers, so the clock starts near zero rather than at a real epoch time
+    now = 160_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    store = new RedisRateLimitStore(redisUrl);
+  });
+
+  afterEach(async () => {
+    await store.onModuleDestroy();
+    jest.restoreAllMocks();
+  });
+
+  async function hitTimes(key: string, policy: RateLimitPolicy, times: number) {
+    const results: RateLimitResult[] = [];
+    for (let i = 0; i < times; i++) {
+      results.push(await store.hit(key, policy));
+    }
+    return results;
+  }
+
+  describe('sliding window', () => {
+    it('allows the limit within a window and then blocks until it has passed', async () => {
+      const results = await hitTimes('ip:1.2.3.4', slidingWindow, 4);
+
+      expect(results.map(({ allowed, remaining }) => ({ allowed, remaining }))).toEqual([
+        { allowed: true, remaining: 2 },
+        { allowed: true, remaining: 1 },
+        { allowed: true, remaining: 0 },
+        { allowed: false, remaining: 0 },
+      ]);
+      expect(results[3].retryAfterMs).toBe(20000);
+    });
+
+    it('weighs the previous window by how much of it still overlaps', async () => {
+      await hitTimes('ip:1.2.3.4', slidingWindow, 3);
+
+      // 40s into the window two thirds of the previous one has slid out, leaving one hit counted
+      now += 60000;
+      const results = await hitTimes('ip:1.2.3.4', slidingWindow, 3);
+
+      expect(results.map(({ allowed }) => allowed)).toEqual([true, true, false]);
+    });
+
+    it('counts each key separately', async () => {
+      await hitTimes('ip:1.2.3.4', slidingWindow, 3);
+
+      expect((await store.hit('ip:5.6.7.8', slidingWindow)).allowed).toBe(true);
+    });
+  });
+
+  describe('token bucket', () => {
+    it('allows a burst up to the limit and then refills one token per share of the window', async () => {
+      const results = await hitTimes('principal:alice', tokenBucket, 4);
+
+      expect(results.map(({ allowed }) => allowed)).toEqual([true, true, true, false]);
+      expect(results[3].retryAfterMs).toBe(20000);
+
+      now += 20000;
+      expect((await store.hit('principal:alice', tokenBucket)).allowed).toBe(true);
+      expect((await store.hit('principal:alice', tokenBucket)).allowed).toBe(false);
+    });
+  });
+
+  it('forgets a key under both algorithms on reset', async () => {
+    await hitTimes('ip:1.2.3.4', slidingWindow, 3);
+    await hitTimes('ip:1.2.3.4', tokenBucket, 3);
+
+    await store.reset('ip:1.2.3.4');
+
+    expect((await store.hit('ip:1.2.3.4', slidingWindow)).allowed).toBe(true);
+    expect((await store.hit('ip:1.2.3.4', tokenBucket)).allowed).toBe(true);
+  });
+});
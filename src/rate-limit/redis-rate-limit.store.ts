@@ -0,0 +1,89 @@
+import { Logger, OnModuleDestroy } from '@nestjs/common';
+import Redis from 'ioredis';
+import { RateLimitPolicy, RateLimitResult } from '../types';
+import { RateLimitStore } from './rate-limit.store';
+
+const SLIDING_WINDOW_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+local index = math.floor(now / window)
+local currentKey = KEYS[1] .. ':' .. index
+local previousKey = KEYS[1] .. ':' .. (index - 1)
+local current = tonumber(redis.call('GET', currentKey) or '0')
+local previous = tonumber(redis.call('GET', previousKey) or '0')
+local elapsed = now - index * window
+local estimated = previous * ((window - elapsed) / window) + current
+if estimated >= limit then
+  return {0, 0, window - elapsed}
+end
+redis.call('INCR', currentKey)
+redis.call('PEXPIRE', currentKey, window * 2)
+return {1, math.floor(limit - estimated - 1), 0}
+`;
+
+const TOKEN_BUCKET_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'ts')
+local tokens = tonumber(state[1]) or limit
+local ts = tonumber(state[2]) or now
+local rate = limit / window
+tokens = math.min(limit, tokens + (now - ts) * rate)
+local allowed = 0
+local retry = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+else
+  retry = math.ceil((1 - tokens) / rate)
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'ts', tostring(now))
+redis.call('PEXPIRE', KEYS[1], window * 2)
+return {allowed, math.floor(tokens), retry}
+`;
+
+/**
+ * Store shared by every instance through any server speaking the Redis protocol
+ */
+export class RedisRateLimitStore implements RateLimitStore, OnModuleDestroy {
+  private readonly logger = new Logger(RedisRateLimitStore.name);
+  private readonly client: Redis;
+
+  constructor(redisUrl: string, private readonly keyPrefix = 'test-talk:rate-limit:') {
+    this.client = new Redis(redisUrl, { maxRetriesPerRequest: 1 });
+    this.client.on('error', (error) => this.logger.error(`Redis error: ${error.message}`));
+  }
+
+  async onModuleDestroy() {
+    await this.client.quit();
+  }
+
+  async hit(key: string, policy: RateLimitPolicy): Promise<RateLimitResult> {
+    const script = policy.algorithm === 'token-bucket' ? TOKEN_BUCKET_SCRIPT : SLIDING_WINDOW_SCRIPT;
+    const [allowed, remaining, retryAfterMs] = (await this.client.eval(
+      script,
+      1,
+      `${this.keyPrefix}${policy.algorithm}:${key}`,
+      Date.now(),
+      policy.windowMs,
+      policy.limit,
+    )) as [number, number, number];
+
+    return { allowed: allowed === 1, remaining, retryAfterMs };
+  }
+
+  async reset(key: string): Promise<void> {
+    const pattern = `${this.keyPrefix}*:${key}*`;
+    let cursor = '0';
+
+    do {
+      const [next, keys] = await this.client.scan(cursor, 'MATCH', pattern, 'COUNT', 100);
+      if (keys.length > 0) {
+        await this.client.del(...keys);
+      }
+      cursor = next;
+    } while (cursor !== '0');
+  }
+}
@@ -0,0 +1,30 @@
+import { decodeHistoryCursor, encodeHistoryCursor } from './call.repository';
+
+describe('history cursors', () => {
+  const call = { createdAt: new Date('2026-03-02T12:00:00.123Z'), sid: 'CA123' };
+
+  it('round-trips the sort key of a call', () => {
+    expect(decodeHistoryCursor(encodeHistoryCursor(call))).toEqual(call);
+  });
+
+  it('keeps the millisecond that tells calls in the same second apart', () => {
+    const sameSecond = { ...call, createdAt: new Date('2026-03-02T12:00:00.124Z') };
+
+    expect(encodeHistoryCursor(sameSecond)).not.toBe(encodeHistoryCursor(call));
+    expect(decodeHistoryCursor(encodeHistoryCursor(sameSecond))?.createdAt).toEqual(sameSecond.createdAt);
+  });
+
+  it('is safe to put in a query string', () => {
+    expect(encodeHistoryCursor(call)).toMatch(/^[A-Za-z0-9_-]+$/);
+  });
+
+  it.each([
+    ['an empty string', ''],
+    ['text that is not base64', '!!!'],
+    ['a cursor without a call SID', Buffer.from('2026-03-02T12:00:00.000Z').toString('base64url')],
+    ['a cursor with an empty call SID', Buffer.from('2026-03-02T12:00:00.000Z|').toString('base64url')],
+    ['a cursor with a bad timestamp', Buffer.from('yesterday|CA123').toString('base64url')],
+  ])('rejects %s', (_, cursor) => {
+    expect(decodeHistoryCursor(cursor)).toBeNull();
+  });
+});
@@ -0,0 +1,49 @@
+import { ActiveCall, CallHistoryFilter, RemoteCall } from '../types';
+
+export const CALL_REPOSITORY = Symbol('CALL_REPOSITORY');
+
+export const TERMINAL_CALL_STATUSES = ['completed', 'busy', 'failed', 'no-answer', 'canceled'];
+
+export function isTerminalStatus(status: string): boolean {
+  return TERMINAL_CALL_STATUSES.includes(status);
+}
+
+/**
+ * How a call Twilio knows about is filed in history. Browser calls reach Twilio as inbound calls from a
+ * client: address, so Twilio's direction alone would file them as phone-to-browser
+ */
+export function callTypeOf(remote: Pick<RemoteCall, 'direction' | 'from'>): ActiveCall['type'] {
+  const fromPhone = remote.direction === 'inbound' && !remote.from?.startsWith('client:');
+  return fromPhone ? 'phone-to-browser' : 'browser-to-phone';
+}
+
+/**
+ * History cursors are opaque to clients but encode the sort key of the last row returned
+ */
+export function encodeHistoryCursor(call: Pick<ActiveCall, 'createdAt' | 'sid'>): string {
+  return Buffer.from(`${call.createdAt.toISOString()}|${call.sid}`).toString('base64url');
+}
+
+export function decodeHistoryCursor(cursor: string): { createdAt: Date; sid: string } | null {
+  const [timestamp, sid] = Buffer.from(cursor, 'base64url').toString('utf8').split('|');
+  const createdAt = new Date(timestamp);
+
+  if (!sid || isNaN(createdAt.getTime())) return null;
+  return { createdAt, sid };
+}
+
+/**
+ * Storage for the full lifecycle of every call the service has seen
+ */
+export interface CallRepository {
+  create(call: ActiveCall): Promise<ActiveCall>;
+  update(callSid: string, updates: Partial<ActiveCall>): Promise<ActiveCall | null>;
+  findBySid(callSid: string): Promise<ActiveCall | null>;
+  /** Omitting the tenant returns calls across every tenant */
+  findAll(tenantId?: string): Promise<ActiveCall[]>;
+  findActive(tenantId?: string): Promise<ActiveCall[]>;
+  findFinished(tenantId?: string): Promise<ActiveCall[]>;
+  /** Finished calls, newest first, one page past the cursor */
+  findHistory(filter: CallHistoryFilter): Promise<ActiveCall[]>;
+  clear(): Promise<void>;
+}
@@ -0,0 +1,64 @@
+import { Logger } from '@nestjs/common';
+import { existsSync, mkdirSync, readFileSync } from 'fs';
+import { writeFile, rename } from 'fs/promises';
+import { dirname } from 'path';
+import { ActiveCall } from '../types';
+import { DEFAULT_TENANT_ID } from '../config/twilio.config';
+import { InMemoryCallRepository } from './in-memory-call.repository';
+
+/**
+ * JSON file-backed call store that survives restarts
+ */
+export class FileCallRepository extends InMemoryCallRepository {
+  private readonly logger = new Logger(FileCallRepository.name);
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {
+    super();
+    this.load();
+  }
+
+  protected persist(): Promise<void> {
+    const snapshot = JSON.stringify(Array.from(this.calls.values()), null, 2);
+
+    // Serialize writes so an older snapshot never overwrites a newer one
+    this.writeQueue = this.writeQueue
+      .then(async () => {
+        const tempPath = `${this.filePath}.tmp`;
+        await writeFile(tempPath, snapshot, 'utf8');
+        await rename(tempPath, this.filePath);
+      })
+      .catch((error) => {
+        this.logger.error(`Failed to persist calls to ${this.filePath}:`, error);
+      });
+
+    return this.writeQueue;
+  }
+
+  private load(): void {
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    if (!existsSync(this.filePath)) return;
+
+    try {
+      const records = JSON.parse(readFileSync(this.filePath, 'utf8')) as ActiveCall[];
+      records.forEach((record) => this.calls.set(record.sid, this.revive(record)));
+      this.logger.log(`Loaded ${records.length} calls from ${this.filePath}`);
+    } catch (error) {
+      this.logger.error(`Failed to load calls from ${this.filePath}:`, error);
+    }
+  }
+
+  private revive(record: ActiveCall): ActiveCall {
+    return {
+      ...record,
+      tenantId: record.tenantId || DEFAULT_TENANT_ID,
+      createdAt: new Date(record.createdAt),
+      lastUpdated: record.lastUpdated ? new Date(record.lastUpdated) : undefined,
+      endedAt: record.endedAt ? new Date(record.endedAt) : undefined,
+      statusHistory: (record.statusHistory || []).map((transition) => ({
+        status: transition.status,
+        timestamp: new Date(transition.timestamp),
+      })),
+    };
+  }
+}
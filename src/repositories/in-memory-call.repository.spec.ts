@@ -0,0 +1,116 @@
+import { ActiveCall } from '../types';
+import { decodeHistoryCursor, encodeHistoryCursor } from './call.repository';
+import { InMemoryCallRepository } from './in-memory-call.repository';
+
+describe('InMemoryCallRepository', () => {
+  let repository: InMemoryCallRepository;
+
+  beforeEach(() => {
+    repository = new InMemoryCallRepository();
+  });
+
+  async function store(sid: string, createdAt: string, overrides: Partial<ActiveCall> = {}) {
+    return repository.create({
+      sid,
+      tenantId: 'acme',
+      to: '+14155550123',
+      from: '+15005550006',
+      type: 'browser-to-phone',
+      status: 'completed',
+      createdAt: new Date(createdAt),
+      statusHistory: [],
+      ...overrides,
+    });
+  }
+
+  // Walks every page the way the history endpoint does, through encoded cursors
+  async function allPages(limit: number): Promise<string[][]> {
+    const pages: string[][] = [];
+    let cursor: { createdAt: Date; sid: string } | undefined;
+
+    for (;;) {
+      const calls = await repository.findHistory({ tenantId: 'acme', cursor, limit });
+      if (calls.length === 0) return pages;
+
+      pages.push(calls.map((call) => call.sid));
+      cursor = decodeHistoryCursor(encodeHistoryCursor(calls[calls.length - 1])) || undefined;
+    }
+  }
+
+  describe('findHistory', () => {
+    it('lists finished calls newest first', async () => {
+      await store('CA1', '2026-03-02T10:00:00Z');
+      await store('CA2', '2026-03-02T12:00:00Z');
+      await store('CA3', '2026-03-02T11:00:00Z');
+      await store('CA4', '2026-03-02T13:00:00Z', { status: 'in-progress' });
+
+      const calls = await repository.findHistory({ tenantId: 'acme', limit: 10 });
+
+      expect(calls.map((call) => call.sid)).toEqual(['CA2', 'CA3', 'CA1']);
+    });
+
+    it('starts each page right after the cursor without repeating or skipping calls', async () => {
+      for (let hour = 10; hour < 15; hour++) {
+        await store(`CA${hour}`, `2026-03-02T${hour}:00:00Z`);
+      }
+
+      expect(await allPages(2)).toEqual([['CA14', 'CA13'], ['CA12', 'CA11'], ['CA10']]);
+    });
+
+    it('ends on a full last page when the calls divide evenly', async () => {
+      for (let hour = 10; hour < 14; hour++) {
+        await store(`CA${hour}`, `2026-03-02T${hour}:00:00Z`);
+      }
+
+      expect(await allPages(2)).toEqual([['CA13', 'CA12'], ['CA11', 'CA10']]);
+    });
+
+    it('orders calls created in the same millisecond by SID, across page boundaries', async () => {
+      await store('CAa', '2026-03-02T12:00:00Z');
+      await store('CAc', '2026-03-02T12:00:00Z');
+      await store('CAb', '2026-03-02T12:00:00Z');
+      await store('CAd', '2026-03-02T11:00:00Z');
+
+      expect(await allPages(2)).toEqual([['CAc', 'CAb'], ['CAa', 'CAd']]);
+    });
+
+    it('resumes after a cursor whose call has since been removed', async () => {
+      await store('CA1', '2026-03-02T10:00:00Z');
+      await store('CA3', '2026-03-02T12:00:00Z');
+
+      const calls = await repository.findHistory({
+        tenantId: 'acme',
+        cursor: { createdAt: new Date('2026-03-02T11:00:00Z'), sid: 'CA2' },
+        limit: 10,
+      });
+
+      expect(calls.map((call) => call.sid)).toEqual(['CA1']);
+    });
+
+    it('only lists the tenant asked for', async () => {
+      await store('CA1', '2026-03-02T10:00:00Z');
+      await store('CA2', '2026-03-02T11:00:00Z', { tenantId: 'globex' });
+
+      const calls = await repository.findHistory({ tenantId: 'acme', limit: 10 });
+
+      expect(calls.map((call) => call.sid)).toEqual(['CA1']);
+    });
+
+    it('applies filters before paging', async () => {
+      await store('CA1', '2026-03-02T10:00:00Z', { duration: 30 });
+      await store('CA2', '2026-03-02T11:00:00Z', { duration: 300 });
+      await store('CA3', '2026-03-02T12:00:00Z', { duration: 5, status: 'no-answer' });
+      await store('CA4', '2026-03-02T13:00:00Z', { duration: 600, type: 'phone-to-browser' });
+
+      const calls = await repository.findHistory({
+        tenantId: 'acme',
+        limit: 1,
+        direction: 'browser-to-phone',
+        status: 'completed',
+        minDuration: 60,
+      });
+
+      expect(calls.map((call) => call.sid)).toEqual(['CA2']);
+    });
+  });
+});
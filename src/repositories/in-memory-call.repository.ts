@@ -0,0 +1,100 @@
+import { ActiveCall, CallHistoryFilter } from '../types';
+import { CallRepository, isTerminalStatus } from './call.repository';
+
+/**
+ * Map-backed call store, lost on restart
+ */
+export class InMemoryCallRepository implements CallRepository {
+  protected readonly calls = new Map<string, ActiveCall>();
+
+  async create(call: ActiveCall): Promise<ActiveCall> {
+    const stored = {
+      ...call,
+      statusHistory: call.statusHistory.length
+        ? [...call.statusHistory]
+        : [{ status: call.status, timestamp: call.createdAt }],
+    };
+    this.calls.set(call.sid, stored);
+    await this.persist();
+    return stored;
+  }
+
+  async update(callSid: string, updates: Partial<ActiveCall>): Promise<ActiveCall | null> {
+    const existingCall = this.calls.get(callSid);
+    if (!existingCall) return null;
+
+    const timestamp = updates.lastUpdated || new Date();
+    const statusHistory = [...existingCall.statusHistory];
+
+    if (updates.status && updates.status !== existingCall.status) {
+      statusHistory.push({ status: updates.status, timestamp });
+    }
+
+    const updated: ActiveCall = { ...existingCall, ...updates, statusHistory };
+
+    if (updates.status && isTerminalStatus(updates.status) && !updated.endedAt) {
+      updated.endedAt = timestamp;
+    }
+
+    this.calls.set(callSid, updated);
+    await this.persist();
+    return updated;
+  }
+
+  async findBySid(callSid: string): Promise<ActiveCall | null> {
+    return this.calls.get(callSid) || null;
+  }
+
+  async findAll(tenantId?: string): Promise<ActiveCall[]> {
+    const calls = Array.from(this.calls.values());
+    return tenantId ? calls.filter((call) => call.tenantId === tenantId) : calls;
+  }
+
+  async findActive(tenantId?: string): Promise<ActiveCall[]> {
+    return (await this.findAll(tenantId)).filter((call) => !isTerminalStatus(call.status));
+  }
+
+  async findFinished(tenantId?: string): Promise<ActiveCall[]> {
+    return (await this.findAll(tenantId)).filter((call) => isTerminalStatus(call.status));
+  }
+
+  async findHistory(filter: CallHistoryFilter): Promise<ActiveCall[]> {
+    const { cursor } = filter;
+
+    return (await this.findFinished(filter.tenantId))
+      .filter((call) => this.matchesFilter(call, filter))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.sid.localeCompare(a.sid))
+      .filter(
+        (call) =>
+          !cursor ||
+          call.createdAt.getTime() < cursor.createdAt.getTime() ||
+          (call.createdAt.getTime() === cursor.createdAt.getTime() && call.sid < cursor.sid),
+      )
+      .slice(0, filter.limit);
+  }
+
+  async clear(): Promise<void> {
+    this.calls.clear();
+    await this.persist();
+  }
+
+  private matchesFilter(call: ActiveCall, filter: CallHistoryFilter): boolean {
+    const duration = call.duration ?? 0;
+
+    if (filter.startDate && call.createdAt < filter.startDate) return false;
+    if (filter.endDate && call.createdAt > filter.endDate) return false;
+    if (filter.direction && call.type !== filter.direction) return false;
+    if (filter.status && call.status !== filter.status) return false;
+    if (filter.phoneNumber && call.to !== filter.phoneNumber && call.from !== filter.phoneNumber) {
+      return false;
+    }
+    if (filter.minDuration !== undefined && duration < filter.minDuration) return false;
+    if (filter.maxDuration !== undefined && duration > filter.maxDuration) return false;
+
+    return true;
+  }
+
+  protected async persist(): Promise<void> {
+    // Nothing to flush for the in-memory store
+  }
+}
@@ -0,0 +1,68 @@
+import { ClientPresence, RoutingStrategyName } from '../types';
+
+/**
+ * Picks which available client should ring for an inbound call
+ */
+export interface RoutingStrategy {
+  select(candidates: ClientPresence[], caller?: string): ClientPresence | null;
+  recordAssignment?(identity: string, caller?: string): void;
+}
+
+export class RoundRobinStrategy implements RoutingStrategy {
+  private lastIdentity: string | null = null;
+
+  select(candidates: ClientPresence[]): ClientPresence | null {
+    if (candidates.length === 0) return null;
+
+    const ordered = [...candidates].sort((a, b) => a.identity.localeCompare(b.identity));
+    const next =
+      ordered.find((client) => this.lastIdentity === null || client.identity > this.lastIdentity) ||
+      ordered[0];
+
+    this.lastIdentity = next.identity;
+    return next;
+  }
+}
+
+export class LongestIdleStrategy implements RoutingStrategy {
+  select(candidates: ClientPresence[]): ClientPresence | null {
+    if (candidates.length === 0) return null;
+
+    return candidates.reduce((longest, current) =>
+      current.idleSince < longest.idleSince ? current : longest,
+    );
+  }
+}
+
+/**
+ * Prefers the agent who last spoke to this caller, falling back to longest-idle
+ */
+export class StickyStrategy implements RoutingStrategy {
+  private readonly lastAgentByCaller = new Map<string, string>();
+  private readonly fallback = new LongestIdleStrategy();
+
+  select(candidates: ClientPresence[], caller?: string): ClientPresence | null {
+    const preferred = caller ? this.lastAgentByCaller.get(caller) : undefined;
+    const sticky = preferred && candidates.find((client) => client.identity === preferred);
+
+    return sticky || this.fallback.select(candidates);
+  }
+
+  recordAssignment(identity: string, caller?: string): void {
+    if (caller) {
+      this.lastAgentByCaller.set(caller, identity);
+    }
+  }
+}
+
+export function createRoutingStrategy(name: RoutingStrategyName): RoutingStrategy {
+  switch (name) {
+    case 'round-robin':
+      return new RoundRobinStrategy();
+    case 'sticky':
+      return new StickyStrategy();
+    case 'longest-idle':
+    default:
+      return new LongestIdleStrategy();
+  }
+}
@@ -0,0 +1,160 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  holidayAt,
+  isWithinHours,
+  loadDataFile,
+  nextTransition,
+  validateHolidays,
+  validateWeeklyHours,
+} from '../business-hours/business-hours';
+import { TwilioConfigService } from '../config/twilio.config';
+import { BusinessHoursConfig, BusinessHoursSchedule, BusinessHoursState } from '../types';
+import { PhoneValidator } from '../utils';
+
+/**
+ * Opening hours and holidays for inbound lines. A call is matched to a schedule by the number it
+ * was placed to, then by tenant; lines without a schedule are always open.
+ */
+@Injectable()
+export class BusinessHoursService {
+  private readonly logger = new Logger(BusinessHoursService.name);
+  private readonly schedules = new Map<string, BusinessHoursSchedule>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly twilioConfig: TwilioConfigService,
+  ) {
+    const configPath = this.configService.get<string>('businessHours.configPath');
+    if (!configPath) {
+      return;
+    }
+
+    const config = loadDataFile<BusinessHoursConfig>(configPath);
+    const errors = this.validate(config);
+
+    if (errors.length > 0) {
+      errors.forEach((error) => this.logger.error(`Invalid business hours ${configPath}: ${error}`));
+      throw new Error('Invalid business hours configuration');
+    }
+
+    for (const schedule of config.schedules) {
+      this.schedules.set(schedule.id, {
+        ...schedule,
+        holidays: [...(config.holidays || []), ...(schedule.holidays || [])],
+      });
+    }
+    this.logger.log(`Loaded ${this.schedules.size} business hours schedules from ${configPath}`);
+  }
+
+  getSchedules(): BusinessHoursSchedule[] {
+    return Array.from(this.schedules.values());
+  }
+
+  getSchedule(id: string): BusinessHoursSchedule {
+    const schedule = this.schedules.get(id);
+    if (!schedule) {
+      throw new NotFoundException(`Unknown business hours schedule ${id}`);
+    }
+    return schedule;
+  }
+
+  /**
+   * The schedule covering calls to this number, falling back to the tenant's own
+   */
+  findSchedule(tenantId: string, calledNumber?: string): BusinessHoursSchedule | undefined {
+    const schedules = this.getSchedules();
+    const number = calledNumber && PhoneValidator.sanitize(calledNumber);
+
+    return (
+      (number && schedules.find((schedule) => schedule.numbers?.includes(number))) ||
+      schedules.find((schedule) => schedule.tenants?.includes(tenantId))
+    );
+  }
+
+  /**
+   * Whether an inbound call should be routed, and the message to play when it should not
+   */
+  check(
+    tenantId: string,
+    calledNumber?: string,
+    at: Date = new Date(),
+  ): { open: boolean; schedule?: BusinessHoursSchedule; closedMessage?: string } {
+    const schedule = this.findSchedule(tenantId, calledNumber);
+    if (!schedule || isWithinHours(schedule, at)) {
+      return { open: true, schedule };
+    }
+
+    const holiday = holidayAt(schedule, at);
+    const closedMessage =
+      schedule.closedMessage ||
+      (holiday?.name
+        ? `Thank you for calling. We are closed today for ${holiday.name}.`
+        : 'Thank you for calling. We are currently closed.');
+
+    return { open: false, schedule, closedMessage };
+  }
+
+  getState(tenantId: string, calledNumber?: string, at: Date = new Date()): BusinessHoursState {
+    const schedule = this.findSchedule(tenantId, calledNumber);
+    if (!schedule) {
+      return { scheduleId: null, open: true, nextTransition: null };
+    }
+
+    return {
+      scheduleId: schedule.id,
+      timezone: schedule.timezone,
+      open: isWithinHours(schedule, at),
+      holiday: holidayAt(schedule, at)?.name,
+      nextTransition: nextTransition(schedule, at),
+    };
+  }
+
+  private validate(config: BusinessHoursConfig): string[] {
+    if (!config || !Array.isArray(config.schedules)) {
+      return ['configuration must have a schedules list'];
+    }
+
+    const errors = validateHolidays('holidays', config.holidays);
+    const tenantIds = this.twilioConfig.getTenants().map((tenant) => tenant.id);
+    const ids = new Set<string>();
+    const assigned = new Map<string, string>();
+
+    const assign = (key: string, label: string, scheduleId: string) => {
+      const existing = assigned.get(key);
+      if (existing) {
+        errors.push(`${scheduleId}: ${label} is already assigned to ${existing}`);
+      }
+      assigned.set(key, scheduleId);
+    };
+
+    config.schedules.forEach((schedule, index) => {
+      const label = schedule?.id || `schedule ${index + 1}`;
+
+      if (!schedule?.id) {
+        errors.push(`${label}: schedule needs an id`);
+      } else if (ids.has(schedule.id)) {
+        errors.push(`${label}: id is used twice`);
+      }
+      ids.add(schedule?.id);
+
+      errors.push(...validateWeeklyHours(label, schedule));
+      errors.push(...validateHolidays(label, schedule?.holidays));
+
+      for (const tenantId of schedule?.tenants || []) {
+        if (!tenantIds.includes(tenantId)) {
+          errors.push(`${label}: unknown tenant ${tenantId}`);
+        }
+        assign(`tenant:${tenantId}`, `tenant ${tenantId}`, label);
+      }
+      for (const number of schedule?.numbers || []) {
+        if (!PhoneValidator.isValid(number)) {
+          errors.push(`${label}: number ${number} must be in E.164 format`);
+        }
+        assign(`number:${number}`, `number ${number}`, label);
+      }
+    });
+
+    return errors;
+  }
+}
@@ -0,0 +1,96 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { CALL_REPOSITORY, CallRepository } from '../repositories/call.repository';
+import { CallEventType } from '../types';
+import { CallEventsService } from './call-events.service';
+import { CallLegs, ConferenceService } from './conference.service';
+
+/**
+ * Hold and mute work on conference participants, so a plain bridged call is moved into a conference first
+ */
+@Injectable()
+export class CallControlService {
+  private readonly logger = new Logger(CallControlService.name);
+
+  constructor(
+    @Inject(CALL_REPOSITORY) private readonly callRepository: CallRepository,
+    private readonly conferenceService: ConferenceService,
+    private readonly callEvents: CallEventsService,
+  ) {}
+
+  /**
+   * Play hold music to the other party of the agent's call
+   */
+  async hold(tenantId: string, callSid: string, identity?: string): Promise<{ callSid: string; status: string }> {
+    const legs = await this.conferenceService.resolveLegs(tenantId, callSid);
+    await this.updateLeg(tenantId, legs, legs.customer.sid, { hold: true }, identity);
+
+    await this.setStatus(legs, 'on-hold');
+    this.notify('call.held', legs, tenantId);
+    this.logger.log(`Call ${legs.customer.sid} placed on hold`);
+    return { callSid: legs.customer.sid, status: 'on-hold' };
+  }
+
+  async resume(tenantId: string, callSid: string, identity?: string): Promise<{ callSid: string; status: string }> {
+    const legs = await this.conferenceService.resolveLegs(tenantId, callSid);
+    await this.updateLeg(tenantId, legs, legs.customer.sid, { hold: false }, identity);
+
+    await this.setStatus(legs, 'in-progress');
+    this.notify('call.resumed', legs, tenantId);
+    this.logger.log(`Call ${legs.customer.sid} resumed`);
+    return { callSid: legs.customer.sid, status: 'in-progress' };
+  }
+
+  /**
+   * Mute or unmute the given leg itself, e.g. a supervisor silencing an agent
+   */
+  async mute(
+    tenantId: string,
+    callSid: string,
+    muted: boolean,
+    identity?: string,
+  ): Promise<{ callSid: string; muted: boolean }> {
+    const legs = await this.conferenceService.resolveLegs(tenantId, callSid);
+    await this.updateLeg(tenantId, legs, callSid, { muted }, identity);
+
+    this.notify('call.muted', legs, tenantId, { mutedCallSid: callSid, muted });
+    this.logger.log(`Call leg ${callSid} ${muted ? 'muted' : 'unmuted'}`);
+    return { callSid, muted };
+  }
+
+  private async updateLeg(
+    tenantId: string,
+    legs: CallLegs,
+    callSid: string,
+    updates: { muted?: boolean; hold?: boolean },
+    identity?: string,
+  ): Promise<void> {
+    const { conferenceName, moved } = await this.conferenceService.ensureConference(tenantId, legs, identity);
+
+    // Legs that were only just redirected have not joined yet
+    if (moved) {
+      this.conferenceService.queueParticipantUpdate(callSid, updates);
+    } else {
+      await this.conferenceService.updateParticipant(tenantId, conferenceName, callSid, updates);
+    }
+  }
+
+  private async setStatus(legs: CallLegs, status: string): Promise<void> {
+    for (const sid of [legs.parent.sid, legs.child.sid]) {
+      const call = await this.callRepository.update(sid, { status, lastUpdated: new Date() });
+      if (call) {
+        this.callEvents.emit('call.updated', sid, { tenantId: call.tenantId, call });
+      }
+    }
+  }
+
+  // Addressed to the agent so their browser phone can reflect the change
+  private notify(type: CallEventType, legs: CallLegs, tenantId: string, data: Record<string, unknown> = {}): void {
+    const agentAddress = [legs.agent.from, legs.agent.to].find((address) => address?.startsWith('client:'));
+
+    this.callEvents.emit(type, legs.customer.sid, {
+      tenantId,
+      identity: agentAddress?.replace('client:', ''),
+      data: { agentCallSid: legs.agent.sid, ...data },
+    });
+  }
+}
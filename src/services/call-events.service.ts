@@ -0,0 +1,33 @@
+import { Injectable, Logger, MessageEvent, OnModuleDestroy } from '@nestjs/common';
+import { Observable, Subject, filter, map } from 'rxjs';
+import { CallEvent, CallEventType } from '../types';
+
+@Injectable()
+export class CallEventsService implements OnModuleDestroy {
+  private readonly logger = new Logger(CallEventsService.name);
+  private readonly events$ = new Subject<CallEvent>();
+
+  onModuleDestroy() {
+    this.events$.complete();
+  }
+
+  /**
+   * Publish an event; ones carrying the stored call are addressed to that call's identity unless told otherwise
+   */
+  emit(type: CallEventType, callSid: string, details: Omit<Partial<CallEvent>, 'type' | 'callSid'> = {}): void {
+    this.events$.next({ type, callSid, timestamp: new Date(), identity: details.call?.identity, ...details });
+    this.logger.debug(`Event ${type} for call ${callSid}`);
+  }
+
+  /**
+   * Server-Sent Events stream, optionally narrowed to one tenant, call or client identity
+   */
+  stream(filters: { tenantId?: string; callSid?: string; identity?: string } = {}): Observable<MessageEvent> {
+    return this.events$.pipe(
+      filter((event) => !filters.tenantId || event.tenantId === filters.tenantId),
+      filter((event) => !filters.callSid || event.callSid === filters.callSid),
+      filter((event) => !filters.identity || event.identity === filters.identity),
+      map((event) => ({ type: event.type, data: event })),
+    );
+  }
+}
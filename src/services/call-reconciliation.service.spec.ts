@@ -0,0 +1,171 @@
+import { ConfigService } from '@nestjs/config';
+import { DEFAULT_TENANT_ID, TwilioConfigService } from '../config/twilio.config';
+import { InMemoryCallRepository } from '../repositories/in-memory-call.repository';
+import { CallEvent } from '../types';
+import { FakeVoiceProvider } from '../voice/fake-voice.provider';
+import { CallEventsService } from './call-events.service';
+import { CallReconciliationService } from './call-reconciliation.service';
+
+const tenantId = DEFAULT_TENANT_ID;
+
+describe('CallReconciliationService', () => {
+  let voiceProvider: FakeVoiceProvider;
+  let callRepository: InMemoryCallRepository;
+  let events: CallEvent[];
+  let service: CallReconciliationService;
+
+  beforeEach(() => {
+    const configService = new ConfigService({
+      twilio: {
+        accountSid: `AC${'0'.repeat(32)}`,
+        apiKey: `SK${'0'.repeat(32)}`,
+        apiSecret: 'test-api-secret',
+        twimlAppSid: `AP${'0'.repeat(32)}`,
+        phoneNumber: '+15005550006',
+        validateWebhookSignature: false,
+      },
+      reconciliation: { staleAfterMs: 60000 },
+    });
+    const twilioConfig = new TwilioConfigService(configService);
+    const callEvents = new CallEventsService();
+
+    voiceProvider = new FakeVoiceProvider(twilioConfig, { autoProgress: false });
+    callRepository = new InMemoryCallRepository();
+    events = [];
+    callEvents.stream().subscribe(({ data }) => events.push(data as CallEvent));
+    service = new CallReconciliationService(configService, twilioConfig, voiceProvider, callRepository, callEvents);
+  });
+
+  // A call the provider placed, stored as the service last saw it
+  async function placeCall(to: string, stored: { status: string; createdAt?: Date } | null) {
+    const { sid } = await voiceProvider.createCall(tenantId, { to, from: '+15005550006', url: '/voice' });
+    if (stored) {
+      await callRepository.create({
+        sid,
+        tenantId,
+        to,
+        from: '+15005550006',
+        type: 'browser-to-phone',
+        identity: 'alice',
+        createdAt: new Date(),
+        statusHistory: [],
+        ...stored,
+      });
+    }
+    return sid;
+  }
+
+  it('adds calls the provider has that the store lost', async () => {
+    const callSid = await placeCall('client:alice', null);
+    voiceProvider.progress(callSid, 'ringing');
+
+    const result = await service.reconcile(tenantId);
+
+    expect(result.added).toEqual([callSid]);
+    expect(await callRepository.findBySid(callSid)).toMatchObject({
+      status: 'ringing',
+      identity: 'alice',
+      type: 'browser-to-phone',
+    });
+    expect(events).toEqual([expect.objectContaining({ type: 'call.created', callSid, identity: 'alice' })]);
+  });
+
+  it('updates calls whose status callback was lost', async () => {
+    const callSid = await placeCall('+14155550123', { status: 'ringing' });
+    voiceProvider.progress(callSid, 'in-progress');
+
+    const result = await service.reconcile(tenantId);
+
+    expect(result.updated).toEqual([callSid]);
+    expect((await callRepository.findBySid(callSid))?.status).toBe('in-progress');
+    expect(events).toEqual([expect.objectContaining({ type: 'call.updated', callSid, identity: 'alice' })]);
+  });
+
+  it('leaves calls on hold alone while the provider reports them in progress', async () => {
+    const callSid = await placeCall('+14155550123', { status: 'on-hold' });
+    voiceProvider.progress(callSid, 'in-progress');
+
+    const result = await service.reconcile(tenantId);
+
+    expect(result.updated).toEqual([]);
+    expect((await callRepository.findBySid(callSid))?.status).toBe('on-hold');
+  });
+
+  it('closes calls the provider has finished', async () => {
+    const callSid = await placeCall('+14155550123', { status: 'in-progress' });
+    voiceProvider.progress(callSid, 'in-progress');
+    voiceProvider.progress(callSid, 'completed');
+
+    const result = await service.reconcile(tenantId);
+
+    expect(result.closed).toEqual([callSid]);
+    expect(await callRepository.findBySid(callSid)).toMatchObject({ status: 'completed', duration: 0 });
+  });
+
+  it('closes answered calls the provider no longer knows about', async () => {
+    await callRepository.create({
+      sid: 'CAunknown',
+      tenantId,
+      to: '+14155550123',
+      from: '+15005550006',
+      type: 'browser-to-phone',
+      status: 'in-progress',
+      createdAt: new Date(),
+      statusHistory: [],
+    });
+
+    const result = await service.reconcile(tenantId);
+
+    expect(result.closed).toEqual(['CAunknown']);
+    expect((await callRepository.findBySid('CAunknown'))?.status).toBe('completed');
+  });
+
+  it('sweeps calls stuck before answer past the stale timeout', async () => {
+    const stale = await placeCall('+14155550123', { status: 'initiated', createdAt: new Date(Date.now() - 120000) });
+    const fresh = await placeCall('+14155550124', { status: 'initiated' });
+    voiceProvider.progress(stale, 'initiated');
+    voiceProvider.progress(fresh, 'initiated');
+
+    const result = await service.reconcile(tenantId);
+
+    expect(result.swept).toEqual([stale]);
+    expect((await callRepository.findBySid(stale))?.status).toBe('failed');
+    expect((await callRepository.findBySid(fresh))?.status).toBe('initiated');
+  });
+
+  it('ignores child legs, which belong to the call that dialed them', async () => {
+    const parent = await placeCall('+14155550123', { status: 'in-progress' });
+    voiceProvider.progress(parent, 'in-progress');
+    const child = {
+      sid: 'CAchild',
+      status: 'in-progress',
+      from: '+15005550006',
+      to: 'client:alice',
+      direction: 'outbound-dial',
+      parentCallSid: parent,
+    };
+    // The fake never dials child legs itself, so list one alongside its parent
+    const listCalls = voiceProvider.listCalls.bind(voiceProvider);
+    jest
+      .spyOn(voiceProvider, 'listCalls')
+      .mockImplementation(async (id, filter) => [
+        ...(await listCalls(id, filter)),
+        ...(filter.status === 'in-progress' ? [child] : []),
+      ]);
+
+    const result = await service.reconcile(tenantId);
+
+    expect(result.added).toEqual([]);
+    expect(await callRepository.findBySid('CAchild')).toBeNull();
+  });
+
+  it('does not reopen calls the store has already closed', async () => {
+    const callSid = await placeCall('+14155550123', { status: 'completed' });
+    voiceProvider.progress(callSid, 'in-progress');
+
+    const result = await service.reconcile(tenantId);
+
+    expect(result.updated).toEqual([]);
+    expect((await callRepository.findBySid(callSid))?.status).toBe('completed');
+  });
+});
@@ -0,0 +1,196 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { TwilioConfigService } from '../config/twilio.config';
+import { CALL_REPOSITORY, CallRepository, callTypeOf, isTerminalStatus } from '../repositories/call.repository';
+import { ActiveCall, ReconciliationResult, RemoteCall } from '../types';
+import { VOICE_PROVIDER, VoiceProvider } from '../voice/voice-provider';
+import { CallEventsService } from './call-events.service';
+
+const REMOTE_ACTIVE_STATUSES = ['queued', 'ringing', 'in-progress'];
+const UNANSWERED_STATUSES = ['initiated', 'queued', 'ringing'];
+// Statuses only this service sets on a call Twilio still reports as in-progress
+const LOCAL_STATUSES: Record<string, string> = { 'on-hold': 'in-progress' };
+
+/**
+ * Repairs the call store when status callbacks are lost or the process restarts: calls Twilio knows
+ * about are added, calls Twilio has finished are closed, and calls stuck before answer are swept.
+ */
+@Injectable()
+export class CallReconciliationService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(CallReconciliationService.name);
+  private readonly enabled: boolean;
+  private readonly intervalMs: number;
+  private readonly staleAfterMs: number;
+  private readonly lastResults = new Map<string, ReconciliationResult>();
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly twilioConfig: TwilioConfigService,
+    @Inject(VOICE_PROVIDER) private readonly voiceProvider: VoiceProvider,
+    @Inject(CALL_REPOSITORY) private readonly callRepository: CallRepository,
+    private readonly callEvents: CallEventsService,
+  ) {
+    this.enabled = this.configService.get<boolean>('reconciliation.enabled') ?? true;
+    this.intervalMs = this.configService.get<number>('reconciliation.intervalMs') || 60000;
+    this.staleAfterMs = this.configService.get<number>('reconciliation.staleAfterMs') || 120000;
+  }
+
+  onApplicationBootstrap() {
+    if (!this.enabled) {
+      this.logger.log('Call reconciliation is disabled');
+      return;
+    }
+
+    void this.reconcileAll();
+    this.timer = setInterval(() => void this.reconcileAll(), this.intervalMs);
+    this.timer.unref();
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  getLastResult(tenantId: string): ReconciliationResult | null {
+    return this.lastResults.get(tenantId) || null;
+  }
+
+  /**
+   * Reconcile every tenant, skipping the run if the previous one has not finished
+   */
+  async reconcileAll(): Promise<ReconciliationResult[]> {
+    if (this.running) {
+      this.logger.warn('Skipping call reconciliation, the previous run is still going');
+      return [];
+    }
+
+    this.running = true;
+    try {
+      const results: ReconciliationResult[] = [];
+      for (const tenant of this.twilioConfig.getTenants()) {
+        results.push(await this.reconcile(tenant.id));
+      }
+      return results;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Bring one tenant's stored calls in line with what the voice provider reports
+   */
+  async reconcile(tenantId: string): Promise<ReconciliationResult> {
+    const ranAt = new Date();
+    const result: ReconciliationResult = {
+      tenantId,
+      ranAt,
+      durationMs: 0,
+      added: [],
+      updated: [],
+      closed: [],
+      swept: [],
+    };
+
+    try {
+      const lists = await Promise.all(
+        REMOTE_ACTIVE_STATUSES.map((status) => this.voiceProvider.listCalls(tenantId, { status })),
+      );
+      // Child legs belong to the call that dialed them, so only parents are tracked as calls
+      const remoteCalls = lists.flat().filter((remote) => !remote.parentCallSid);
+      const remoteBySid = new Map(remoteCalls.map((remote) => [remote.sid, remote]));
+
+      for (const remote of remoteCalls) {
+        const stored = await this.callRepository.findBySid(remote.sid);
+        // Calls we have already closed are not reopened; Twilio can lag behind an end request
+        const open = stored?.tenantId === tenantId && !isTerminalStatus(stored.status);
+
+        if (!stored) {
+          await this.add(tenantId, remote);
+          result.added.push(remote.sid);
+        } else if (open && !this.matches(stored.status, remote.status)) {
+          await this.update(stored.sid, { status: remote.status });
+          result.updated.push(remote.sid);
+        }
+      }
+
+      for (const call of await this.callRepository.findActive(tenantId)) {
+        if (remoteBySid.has(call.sid)) {
+          continue;
+        }
+
+        const remote = await this.voiceProvider.fetchCall(tenantId, call.sid);
+        if (remote && isTerminalStatus(remote.status)) {
+          await this.update(call.sid, { status: remote.status, duration: remote.duration });
+          result.closed.push(call.sid);
+        } else if (!remote && !UNANSWERED_STATUSES.includes(call.status)) {
+          await this.update(call.sid, { status: 'completed' });
+          result.closed.push(call.sid);
+        } else if (this.isStale(call, remote)) {
+          await this.update(call.sid, { status: 'failed' });
+          result.swept.push(call.sid);
+        } else if (remote && !this.matches(call.status, remote.status)) {
+          await this.update(call.sid, { status: remote.status });
+          result.updated.push(call.sid);
+        }
+      }
+    } catch (error) {
+      result.error = (error as Error).message;
+      this.logger.error(`Call reconciliation failed for tenant ${tenantId}:`, error);
+    }
+
+    result.durationMs = Date.now() - ranAt.getTime();
+    this.lastResults.set(tenantId, result);
+
+    const changes = result.added.length + result.updated.length + result.closed.length + result.swept.length;
+    if (changes > 0) {
+      this.logger.log(
+        `Reconciled tenant ${tenantId}: ${result.added.length} added, ${result.updated.length} updated, ` +
+          `${result.closed.length} closed, ${result.swept.length} swept`,
+      );
+    }
+    return result;
+  }
+
+  private matches(storedStatus: string, remoteStatus: string): boolean {
+    return (LOCAL_STATUSES[storedStatus] || storedStatus) === remoteStatus;
+  }
+
+  // Calls that never got past ringing; Twilio gives up on these long before the timeout
+  private isStale(call: ActiveCall, remote: RemoteCall | null): boolean {
+    const since = (call.lastUpdated || call.createdAt).getTime();
+    const status = remote?.status || call.status;
+    return UNANSWERED_STATUSES.includes(status) && Date.now() - since > this.staleAfterMs;
+  }
+
+  private async add(tenantId: string, remote: RemoteCall): Promise<void> {
+    const clientAddress = [remote.from, remote.to].find((address) => address?.startsWith('client:'));
+    const call = await this.callRepository.create({
+      sid: remote.sid,
+      tenantId,
+      to: remote.to,
+      from: remote.from,
+      type: callTypeOf(remote),
+      identity: clientAddress?.slice('client:'.length),
+      status: remote.status,
+      createdAt: remote.startTime || new Date(),
+      statusHistory: [],
+    });
+    this.callEvents.emit('call.created', call.sid, { tenantId, call });
+  }
+
+  private async update(callSid: string, updates: Partial<ActiveCall>): Promise<void> {
+    const call = await this.callRepository.update(callSid, { ...updates, lastUpdated: new Date() });
+    if (call) {
+      this.callEvents.emit('call.updated', callSid, { tenantId: call.tenantId, call });
+    }
+  }
+}
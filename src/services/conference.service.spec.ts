@@ -0,0 +1,124 @@
+import { ForbiddenException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DEFAULT_TENANT_ID, TwilioConfigService } from '../config/twilio.config';
+import { InMemoryCallRepository } from '../repositories/in-memory-call.repository';
+import { FakeVoiceProvider } from '../voice/fake-voice.provider';
+import { CallEventsService } from './call-events.service';
+import { ConferenceService } from './conference.service';
+import { DialPolicyService } from './dial-policy.service';
+import { NumberPoolService } from './number-pool.service';
+
+const tenantId = DEFAULT_TENANT_ID;
+
+describe('ConferenceService', () => {
+  let voiceProvider: FakeVoiceProvider;
+  let callRepository: InMemoryCallRepository;
+  let service: ConferenceService;
+
+  beforeEach(() => {
+    const configService = new ConfigService({
+      twilio: {
+        accountSid: `AC${'0'.repeat(32)}`,
+        apiKey: `SK${'0'.repeat(32)}`,
+        apiSecret: 'test-api-secret',
+        twimlAppSid: `AP${'0'.repeat(32)}`,
+        phoneNumber: '+15005550006',
+        webhookBaseUrl: 'https://voice.example.com',
+        validateWebhookSignature: false,
+      },
+      dialPolicy: { dailyCallLimit: 1 },
+    });
+    const twilioConfig = new TwilioConfigService(configService);
+
+    voiceProvider = new FakeVoiceProvider(twilioConfig, { autoProgress: false });
+    callRepository = new InMemoryCallRepository();
+    service = new ConferenceService(
+      configService,
+      twilioConfig,
+      voiceProvider,
+      callRepository,
+      new NumberPoolService(configService, twilioConfig, voiceProvider),
+      new DialPolicyService(configService, twilioConfig),
+      new CallEventsService(),
+    );
+  });
+
+  it('dials a phone number into a room and stores the call', async () => {
+    service.createRoom(tenantId, 'standup', 'alice');
+
+    const participant = await service.addParticipant(tenantId, 'standup', { to: '+14155550123' }, 'alice');
+
+    expect(participant).toMatchObject({ status: 'connecting', muted: false, hold: false });
+    expect(await service.listParticipants(tenantId, 'standup')).toEqual([participant]);
+    expect(await callRepository.findBySid(participant.callSid)).toMatchObject({
+      to: '+14155550123',
+      from: '+15005550006',
+      type: 'browser-to-phone',
+      identity: 'alice',
+    });
+  });
+
+  it('counts each dialed participant towards the daily call limit', async () => {
+    service.createRoom(tenantId, 'standup', 'alice');
+    await service.addParticipant(tenantId, 'standup', { to: '+14155550123' }, 'alice');
+
+    await expect(
+      service.addParticipant(tenantId, 'standup', { to: '+14155550124' }, 'alice'),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+  });
+
+  it('does not check browser clients against the dial policy', async () => {
+    service.createRoom(tenantId, 'standup', 'alice');
+    await service.addParticipant(tenantId, 'standup', { to: 'client:bob' }, 'alice');
+
+    const participant = await service.addParticipant(tenantId, 'standup', { to: 'client:carol' }, 'alice');
+    expect(participant.callSid).toMatch(/^CA/);
+  });
+
+  it('mutes, holds and removes participants', async () => {
+    service.createRoom(tenantId, 'standup');
+    const { callSid } = await service.addParticipant(tenantId, 'standup', { to: 'client:bob' });
+
+    expect(await service.updateParticipant(tenantId, 'standup', callSid, { muted: true, hold: true })).toMatchObject(
+      { callSid, muted: true, hold: true },
+    );
+
+    await service.removeParticipant(tenantId, 'standup', callSid);
+    expect(await service.listParticipants(tenantId, 'standup')).toEqual([]);
+    expect((await voiceProvider.fetchCall(tenantId, callSid))?.status).toBe('canceled');
+  });
+
+  it('hangs up every participant when the room is closed', async () => {
+    service.createRoom(tenantId, 'standup');
+    const { callSid } = await service.addParticipant(tenantId, 'standup', { to: 'client:bob' });
+    voiceProvider.progress(callSid, 'in-progress');
+
+    await service.closeRoom(tenantId, 'standup');
+
+    expect((await voiceProvider.fetchCall(tenantId, callSid))?.status).toBe('completed');
+    expect(() => service.getRoom(tenantId, 'standup')).toThrow(NotFoundException);
+  });
+
+  it('reports a participant the conference does not have as not found', async () => {
+    service.createRoom(tenantId, 'standup');
+    await service.addParticipant(tenantId, 'standup', { to: 'client:bob' });
+
+    await expect(service.removeParticipant(tenantId, 'standup', 'CAunknown')).rejects.toBeInstanceOf(
+      NotFoundException,
+    );
+  });
+
+  it('gives the leg it moves into a conference an absolute status callback', async () => {
+    const from = '+15005550006';
+    const parent = await voiceProvider.createCall(tenantId, { to: '+14155550123', from, url: '/voice' });
+    const child = await voiceProvider.createCall(tenantId, { to: 'client:alice', from, url: '/voice' });
+    const legs = { parent, child, agent: child, customer: parent, customerNumber: parent.to };
+    const updateCall = jest.spyOn(voiceProvider, 'updateCall');
+
+    await service.moveToConference(tenantId, legs, `call-${parent.sid}`);
+
+    expect(updateCall).toHaveBeenCalledWith(tenantId, child.sid, {
+      twiml: expect.stringContaining('statusCallback="https://voice.example.com/api/v1/test-talk/conference-status"'),
+    });
+  });
+});
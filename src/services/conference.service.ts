@@ -0,0 +1,505 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  HttpException,
+  Inject,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { TwilioConfigService } from '../config/twilio.config';
+import { AddParticipantDto } from '../dto/add-participant.dto';
+import { CALL_REPOSITORY, CallRepository } from '../repositories/call.repository';
+import { TwiMLGenerator } from '../twiml/generator';
+import { ConferenceParticipant, ConferenceRoom, RemoteCall, UpdateParticipantParams } from '../types';
+import { PhoneValidator } from '../utils';
+import { VOICE_PROVIDER, VoiceProvider } from '../voice/voice-provider';
+import { CallEventsService } from './call-events.service';
+import { DialPolicyService } from './dial-policy.service';
+import { NumberPoolService } from './number-pool.service';
+
+export interface CallLegs {
+  parent: RemoteCall;
+  child: RemoteCall;
+  agent: RemoteCall;
+  customer: RemoteCall;
+  customerNumber: string;
+}
+
+type ParticipantUpdate = { muted?: boolean; hold?: boolean };
+
+const CONFERENCE_EVENTS = ['start', 'end', 'join', 'leave', 'mute', 'hold'];
+
+@Injectable()
+export class ConferenceService {
+  private readonly logger = new Logger(ConferenceService.name);
+  private readonly rooms = new Map<string, ConferenceRoom>();
+  // Parent legs waiting for their <Dial> action to move them into a conference
+  private readonly pendingJoins = new Map<string, { conferenceName: string; endConferenceOnExit: boolean }>();
+  // Changes for legs that are still on their way into a conference, applied once they join
+  private readonly pendingUpdates = new Map<string, ParticipantUpdate>();
+  private readonly holdMusicUrl?: string;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly twilioConfig: TwilioConfigService,
+    @Inject(VOICE_PROVIDER) private readonly voiceProvider: VoiceProvider,
+    @Inject(CALL_REPOSITORY) private readonly callRepository: CallRepository,
+    private readonly numberPool: NumberPoolService,
+    private readonly dialPolicy: DialPolicyService,
+    private readonly callEvents: CallEventsService,
+  ) {
+    this.holdMusicUrl = this.configService.get<string>('callControl.holdMusicUrl') || undefined;
+  }
+
+  createRoom(tenantId: string, name: string, identity?: string): ConferenceRoom {
+    if (this.rooms.has(this.roomKey(tenantId, name))) {
+      throw new ConflictException(`Conference ${name} already exists`);
+    }
+    return this.openRoom(tenantId, name, false, identity);
+  }
+
+  getRooms(tenantId: string): ConferenceRoom[] {
+    return Array.from(this.rooms.values()).filter((room) => room.tenantId === tenantId);
+  }
+
+  getRoom(tenantId: string, name: string): ConferenceRoom {
+    const room = this.rooms.get(this.roomKey(tenantId, name));
+    if (!room) {
+      throw new NotFoundException(`Conference ${name} not found`);
+    }
+    return room;
+  }
+
+  /**
+   * End the conference for everyone and forget the room
+   */
+  async closeRoom(tenantId: string, name: string): Promise<void> {
+    const room = this.getRoom(tenantId, name);
+
+    try {
+      const conferenceSid = await this.findConferenceSid(tenantId, name);
+      if (conferenceSid) {
+        await this.voiceProvider.endConference(tenantId, conferenceSid);
+      }
+    } catch (error) {
+      throw this.toHttpException(`close conference ${name}`, error);
+    }
+
+    this.rooms.delete(this.roomKey(tenantId, room.name));
+    this.logger.log(`Closed conference ${name} (tenant: ${tenantId})`);
+  }
+
+  /**
+   * Dial a browser client or phone number into a room
+   */
+  async addParticipant(
+    tenantId: string,
+    name: string,
+    participantDto: AddParticipantDto,
+    identity?: string,
+  ): Promise<ConferenceParticipant> {
+    this.getRoom(tenantId, name);
+    const { target, callerId } = this.resolveDialTarget(
+      tenantId,
+      participantDto.to,
+      this.twilioConfig.getConfig(tenantId).phoneNumber,
+      identity,
+      participantDto.from,
+    );
+
+    return this.dial(tenantId, name, target, callerId, { muted: participantDto.muted, identity });
+  }
+
+  async listParticipants(tenantId: string, name: string): Promise<ConferenceParticipant[]> {
+    this.getRoom(tenantId, name);
+
+    try {
+      const conferenceSid = await this.findConferenceSid(tenantId, name);
+      if (!conferenceSid) return [];
+
+      return await this.voiceProvider.listParticipants(tenantId, conferenceSid);
+    } catch (error) {
+      throw this.toHttpException(`list participants of ${name}`, error);
+    }
+  }
+
+  async updateParticipant(
+    tenantId: string,
+    name: string,
+    callSid: string,
+    updates: ParticipantUpdate,
+  ): Promise<ConferenceParticipant> {
+    const conferenceSid = await this.requireConferenceSid(tenantId, name);
+
+    try {
+      const participant = await this.voiceProvider.updateParticipant(
+        tenantId,
+        conferenceSid,
+        callSid,
+        this.withHoldMusic(updates),
+      );
+
+      this.logger.log(`Updated participant ${callSid} in ${name}: ${JSON.stringify(updates)}`);
+      return participant;
+    } catch (error) {
+      throw this.toHttpException(`update participant ${callSid}`, error);
+    }
+  }
+
+  async removeParticipant(tenantId: string, name: string, callSid: string): Promise<void> {
+    const conferenceSid = await this.requireConferenceSid(tenantId, name);
+
+    try {
+      await this.voiceProvider.removeParticipant(tenantId, conferenceSid, callSid);
+      this.logger.log(`Removed participant ${callSid} from ${name}`);
+    } catch (error) {
+      throw this.toHttpException(`remove participant ${callSid}`, error);
+    }
+  }
+
+  /**
+   * Turn a bridged call into a three-way call by moving both legs into a room and dialing the target in
+   */
+  async addThirdParty(
+    tenantId: string,
+    callSid: string,
+    participantDto: AddParticipantDto,
+    identity?: string,
+  ): Promise<ConferenceParticipant & { conferenceName: string }> {
+    const legs = await this.resolveLegs(tenantId, callSid);
+    const { target, callerId } = this.resolveDialTarget(
+      tenantId,
+      participantDto.to,
+      legs.customerNumber,
+      identity,
+      participantDto.from,
+    );
+    const { conferenceName } = await this.ensureConference(tenantId, legs, identity);
+    const participant = await this.dial(tenantId, conferenceName, target, callerId, {
+      muted: participantDto.muted,
+      identity,
+    });
+
+    return { ...participant, conferenceName };
+  }
+
+  /**
+   * Find both legs of a bridged call; the agent is the leg connected to a browser client
+   */
+  async resolveLegs(tenantId: string, callSid: string): Promise<CallLegs> {
+    try {
+      const call = await this.voiceProvider.fetchCall(tenantId, callSid);
+      if (!call) {
+        throw new NotFoundException('Call not found');
+      }
+
+      let parent: RemoteCall | null;
+      let child: RemoteCall;
+
+      if (call.parentCallSid) {
+        parent = await this.voiceProvider.fetchCall(tenantId, call.parentCallSid);
+        if (!parent) {
+          throw new NotFoundException('Call not found');
+        }
+        child = call;
+      } else {
+        const [bridged] = await this.voiceProvider.listCalls(tenantId, {
+          parentCallSid: callSid,
+          status: 'in-progress',
+        });
+        if (!bridged) {
+          throw new BadRequestException('Call is not connected to another party');
+        }
+        parent = call;
+        child = bridged;
+      }
+
+      const isClientLeg = (leg: RemoteCall) =>
+        [leg.from, leg.to].some((address) => address?.startsWith('client:'));
+      const parentIsClient = isClientLeg(parent);
+
+      // Between two browser clients the caller of this endpoint is treated as the agent
+      const agentIsParent = parentIsClient && isClientLeg(child) ? call.sid === parent.sid : parentIsClient;
+
+      return agentIsParent
+        ? { parent, child, agent: parent, customer: child, customerNumber: child.to }
+        : { parent, child, agent: child, customer: parent, customerNumber: parent.from };
+    } catch (error) {
+      throw this.toHttpException(`look up call ${callSid}`, error);
+    }
+  }
+
+  /**
+   * Reuse the conference a call was already moved into, otherwise move it into a new one
+   */
+  async ensureConference(
+    tenantId: string,
+    legs: CallLegs,
+    identity?: string,
+  ): Promise<{ conferenceName: string; moved: boolean }> {
+    const existing = [`call-${legs.customer.sid}`, `transfer-${legs.customer.sid}`].find((name) =>
+      this.rooms.has(this.roomKey(tenantId, name)),
+    );
+    if (existing) {
+      return { conferenceName: existing, moved: false };
+    }
+
+    const conferenceName = `call-${legs.customer.sid}`;
+    await this.moveToConference(tenantId, legs, conferenceName, identity);
+    return { conferenceName, moved: true };
+  }
+
+  /**
+   * Hold or mute a leg that has not joined its conference yet as soon as it does
+   */
+  queueParticipantUpdate(callSid: string, updates: ParticipantUpdate): void {
+    this.pendingUpdates.set(callSid, { ...this.pendingUpdates.get(callSid), ...updates });
+  }
+
+  /**
+   * Move both legs of a bridged call into a conference; the call ends when the customer hangs up
+   */
+  async moveToConference(tenantId: string, legs: CallLegs, conferenceName: string, identity?: string): Promise<void> {
+    this.openRoom(tenantId, conferenceName, true, identity);
+
+    // Redirecting the child leg ends the parent's <Dial>, whose action then joins the conference
+    this.pendingJoins.set(legs.parent.sid, {
+      conferenceName,
+      endConferenceOnExit: legs.parent.sid === legs.customer.sid,
+    });
+
+    const baseUrl = this.twilioConfig.getConfig(tenantId).webhookBaseUrl.replace(/\/+$/, '');
+
+    try {
+      await this.voiceProvider.updateCall(tenantId, legs.child.sid, {
+        twiml: TwiMLGenerator.generateConferenceJoin(conferenceName, {
+          endConferenceOnExit: legs.child.sid === legs.customer.sid,
+          ...(baseUrl && { statusCallback: `${baseUrl}/api/v1/test-talk/conference-status` }),
+        }),
+      });
+    } catch (error) {
+      this.pendingJoins.delete(legs.parent.sid);
+      this.rooms.delete(this.roomKey(tenantId, conferenceName));
+      throw this.toHttpException(`move call ${legs.customer.sid} into ${conferenceName}`, error);
+    }
+  }
+
+  /**
+   * Dial a resolved target into a conference, creating it on Twilio if nobody has joined yet
+   */
+  async dial(
+    tenantId: string,
+    conferenceName: string,
+    target: string,
+    callerId: string,
+    options: { muted?: boolean; identity?: string } = {},
+  ): Promise<ConferenceParticipant> {
+    const { webhookBaseUrl } = this.twilioConfig.getConfig(tenantId);
+    const baseUrl = webhookBaseUrl.replace(/\/+$/, '');
+
+    try {
+      const participant = await this.voiceProvider.addParticipant(tenantId, conferenceName, {
+        from: callerId,
+        to: target,
+        muted: options.muted,
+        // Twilio needs absolute URLs for calls it places itself
+        ...(baseUrl && {
+          statusCallback: `${baseUrl}/api/v1/test-talk/call-status`,
+          statusCallbackEvent: ['initiated', 'ringing', 'answered', 'completed'],
+          conferenceStatusCallback: `${baseUrl}/api/v1/test-talk/conference-status`,
+          conferenceStatusCallbackEvent: CONFERENCE_EVENTS,
+        }),
+      });
+      this.dialPolicy.recordAttempt(tenantId, target, options.identity);
+
+      await this.callRepository.create({
+        sid: participant.callSid,
+        tenantId,
+        to: target,
+        from: callerId,
+        type: 'browser-to-phone',
+        identity: options.identity,
+        status: 'initiated',
+        createdAt: new Date(),
+        statusHistory: [],
+      });
+
+      this.logger.log(`Dialing ${target} into ${conferenceName} (call ${participant.callSid})`);
+      return participant;
+    } catch (error) {
+      throw this.toHttpException(`dial ${target} into ${conferenceName}`, error);
+    }
+  }
+
+  /**
+   * Check a client or phone number target against the dial policy and pick the caller ID it will see
+   */
+  resolveDialTarget(
+    tenantId: string,
+    to: string,
+    clientCallerId: string,
+    identity?: string,
+    requestedCallerId?: string,
+  ): { target: string; callerId: string } {
+    // Clients see who is really calling; PSTN targets see one of our numbers
+    if (to.startsWith('client:')) {
+      return { target: to, callerId: clientCallerId };
+    }
+
+    const decision = this.dialPolicy.authorize(tenantId, to, identity);
+    if (!decision.allowed) {
+      throw new ForbiddenException(decision.message);
+    }
+
+    const { number, error } = PhoneValidator.parse(to, this.twilioConfig.getDefaultRegion(tenantId));
+    if (!number) {
+      throw new BadRequestException(`Invalid phone number ${to}: ${error}`);
+    }
+
+    return {
+      target: number.e164,
+      callerId: this.numberPool.selectCallerId(tenantId, number.e164, { requested: requestedCallerId })
+        .phoneNumber,
+    };
+  }
+
+  /**
+   * TwiML for a parent leg released into a conference, or null when the call is not being moved
+   */
+  takePendingJoin(callSid: string): string | null {
+    const pending = this.pendingJoins.get(callSid);
+    if (!pending) return null;
+
+    this.pendingJoins.delete(callSid);
+    return TwiMLGenerator.generateConferenceJoin(pending.conferenceName, {
+      endConferenceOnExit: pending.endConferenceOnExit,
+    });
+  }
+
+  /**
+   * Keep rooms and the call store in step with Twilio's conference status callbacks
+   */
+  async handleConferenceStatus(
+    payload: {
+      ConferenceSid: string;
+      FriendlyName: string;
+      StatusCallbackEvent: string;
+      CallSid?: string;
+      Muted?: string;
+      Hold?: string;
+    },
+    tenantId: string,
+  ): Promise<void> {
+    const { ConferenceSid, FriendlyName, StatusCallbackEvent, CallSid } = payload;
+    const key = this.roomKey(tenantId, FriendlyName);
+    const room = this.rooms.get(key);
+
+    this.logger.log(`Conference ${FriendlyName} (${ConferenceSid}): ${StatusCallbackEvent}`);
+
+    if (StatusCallbackEvent === 'conference-start' && room) {
+      room.sid = ConferenceSid;
+      room.status = 'in-progress';
+    }
+    if (StatusCallbackEvent === 'conference-end' && room) {
+      if (room.temporary) {
+        this.rooms.delete(key);
+      } else {
+        // Named rooms can be joined again; Twilio gives the next session a new SID
+        room.sid = undefined;
+        room.status = 'waiting';
+      }
+    }
+
+    if (!CallSid || !StatusCallbackEvent.startsWith('participant-')) {
+      return;
+    }
+
+    const pending = this.pendingUpdates.get(CallSid);
+    if (StatusCallbackEvent === 'participant-join' && pending) {
+      this.pendingUpdates.delete(CallSid);
+      await this.voiceProvider
+        .updateParticipant(tenantId, ConferenceSid, CallSid, this.withHoldMusic(pending))
+        .catch((error) => this.logger.error(`Failed to update participant ${CallSid} on join:`, error));
+    }
+
+    const call = await this.callRepository.findBySid(CallSid);
+    if (!call) {
+      this.logger.warn(`Conference event received for untracked call ${CallSid}`);
+      return;
+    }
+
+    const updated = await this.callRepository.update(CallSid, {
+      conference: {
+        name: FriendlyName,
+        sid: ConferenceSid,
+        status: StatusCallbackEvent === 'participant-leave' ? 'left' : 'joined',
+        muted: payload.Muted === 'true',
+        hold: payload.Hold === 'true',
+        updatedAt: new Date(),
+      },
+    });
+    if (updated) {
+      this.callEvents.emit('call.updated', CallSid, { tenantId, call: updated });
+    }
+  }
+
+  private openRoom(tenantId: string, name: string, temporary: boolean, identity?: string): ConferenceRoom {
+    const room: ConferenceRoom = {
+      name,
+      tenantId,
+      status: 'waiting',
+      temporary,
+      createdBy: identity,
+      createdAt: new Date(),
+    };
+    this.rooms.set(this.roomKey(tenantId, name), room);
+    this.logger.log(`Opened conference ${name} (tenant: ${tenantId})`);
+    return room;
+  }
+
+  private withHoldMusic(updates: ParticipantUpdate): UpdateParticipantParams {
+    return updates.hold && this.holdMusicUrl ? { ...updates, holdUrl: this.holdMusicUrl } : updates;
+  }
+
+  private async requireConferenceSid(tenantId: string, name: string): Promise<string> {
+    this.getRoom(tenantId, name);
+
+    let conferenceSid: string | undefined;
+    try {
+      conferenceSid = await this.findConferenceSid(tenantId, name);
+    } catch (error) {
+      throw this.toHttpException(`look up conference ${name}`, error);
+    }
+
+    if (!conferenceSid) {
+      throw new NotFoundException(`Conference ${name} is not in progress`);
+    }
+    return conferenceSid;
+  }
+
+  private async findConferenceSid(tenantId: string, name: string): Promise<string | undefined> {
+    const room = this.rooms.get(this.roomKey(tenantId, name));
+    if (room?.sid) return room.sid;
+
+    return (await this.voiceProvider.findConference(tenantId, name)) || undefined;
+  }
+
+  private roomKey(tenantId: string, name: string): string {
+    return `${tenantId}:${name}`;
+  }
+
+  private toHttpException(action: string, error: unknown): HttpException {
+    if (error instanceof HttpException) {
+      return error;
+    }
+    if ((error as { status?: number }).status === 404) {
+      return new NotFoundException('Call or conference not found');
+    }
+    this.logger.error(`Failed to ${action}:`, error);
+    return new InternalServerErrorException(`Failed to ${action}: ${(error as Error).message}`);
+  }
+}
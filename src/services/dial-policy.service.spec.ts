@@ -0,0 +1,173 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DEFAULT_TENANT_ID, TwilioConfigService } from '../config/twilio.config';
+import { DialPolicyConfig } from '../types';
+import { DialPolicyService } from './dial-policy.service';
+
+const tenantId = DEFAULT_TENANT_ID;
+
+function createService(dialPolicy: Partial<DialPolicyConfig> = {}) {
+  const configService = new ConfigService({
+    twilio: {
+      accountSid: `AC${'0'.repeat(32)}`,
+      apiKey: `SK${'0'.repeat(32)}`,
+      apiSecret: 'test-api-secret',
+      twimlAppSid: `AP${'0'.repeat(32)}`,
+      phoneNumber: '+15005550006',
+      validateWebhookSignature: false,
+    },
+    dialPolicy,
+  });
+  return new DialPolicyService(configService, new TwilioConfigService(configService));
+}
+
+describe('DialPolicyService', () => {
+  beforeEach(() => {
+    jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('destinations', () => {
+    it('allows ordinary numbers by default', () => {
+      expect(createService().authorize(tenantId, '+14155550123')).toEqual({ allowed: true });
+    });
+
+    it.each(['611', '22395', '(800) 12'])('blocks the short code %s', (destination) => {
+      expect(createService().authorize(tenantId, destination)).toMatchObject({
+        allowed: false,
+        reason: 'short-code',
+      });
+    });
+
+    it('lets short codes through when premium blocking is off', () => {
+      expect(createService({ blockPremium: false }).authorize(tenantId, '611').allowed).toBe(true);
+    });
+
+    it.each(['+19002345678', '+449098790000'])('blocks the premium rate number %s', (destination) => {
+      expect(createService().authorize(tenantId, destination)).toEqual({
+        allowed: false,
+        reason: 'premium',
+        message: 'Calls to premium rate numbers are not permitted.',
+      });
+    });
+
+    it('blocks numbers starting with a blocked prefix, in E.164 however they were written', () => {
+      const service = createService({ blockedPrefixes: ['+1415'] });
+
+      expect(service.authorize(tenantId, '(415) 555-0123').reason).toBe('prefix-blocked');
+      expect(service.authorize(tenantId, '+14165550123').allowed).toBe(true);
+    });
+
+    it('blocks denied countries', () => {
+      const service = createService({ deniedCountries: ['GB'] });
+
+      expect(service.authorize(tenantId, '+442079460000').reason).toBe('country-denied');
+      expect(service.authorize(tenantId, '+4930901820').allowed).toBe(true);
+    });
+
+    it('only allows listed countries when an allow list is set', () => {
+      const service = createService({ allowedCountries: ['US', 'DE'] });
+
+      expect(service.authorize(tenantId, '+14155550123').allowed).toBe(true);
+      expect(service.authorize(tenantId, '+4930901820').allowed).toBe(true);
+      expect(service.authorize(tenantId, '+442079460000').reason).toBe('country-not-allowed');
+    });
+
+    it('lets the deny list win over the allow list', () => {
+      const service = createService({ allowedCountries: ['GB'], deniedCountries: ['GB'] });
+
+      expect(service.authorize(tenantId, '+442079460000').reason).toBe('country-denied');
+    });
+
+    it('parses national numbers against the region given', () => {
+      const service = createService({ deniedCountries: ['GB'] });
+
+      expect(service.authorize(tenantId, '020 7946 0000', undefined, 'GB').reason).toBe('country-denied');
+    });
+
+    it('keeps the blocked attempts of each tenant apart', () => {
+      const service = createService({ deniedCountries: ['GB'] });
+
+      service.authorize(tenantId, '+442079460000', 'alice');
+
+      expect(service.getBlockedAttempts(tenantId)).toEqual([
+        expect.objectContaining({ identity: 'alice', destination: '+442079460000', reason: 'country-denied' }),
+      ]);
+      expect(service.getBlockedAttempts('other')).toEqual([]);
+    });
+  });
+
+  describe('daily caps', () => {
+    it('blocks an identity once it has placed its daily calls', () => {
+      const service = createService({ dailyCallLimit: 2 });
+
+      for (let i = 0; i < 2; i++) {
+        expect(service.authorize(tenantId, '+14155550123', 'alice').allowed).toBe(true);
+        service.recordAttempt(tenantId, '+14155550123', 'alice');
+      }
+
+      expect(service.authorize(tenantId, '+14155550123', 'alice').reason).toBe('daily-call-limit');
+      expect(service.authorize(tenantId, '+14155550123', 'bob').allowed).toBe(true);
+      expect(service.authorize(tenantId, '+14155550123').allowed).toBe(true);
+    });
+
+    it('only counts calls that were placed, and never client legs', () => {
+      const service = createService({ dailyCallLimit: 1 });
+
+      service.authorize(tenantId, '+14155550123', 'alice');
+      service.recordAttempt(tenantId, 'client:bob', 'alice');
+
+      expect(service.authorize(tenantId, '+14155550123', 'alice').allowed).toBe(true);
+    });
+
+    it('counts calls separately per tenant', () => {
+      const service = createService({ dailyCallLimit: 1 });
+
+      service.recordAttempt(tenantId, '+14155550123', 'alice');
+
+      expect(service.authorize('other', '+14155550123', 'alice', 'US').allowed).toBe(true);
+    });
+
+    it('limits each call to the minutes left today and blocks once they are used up', () => {
+      const service = createService({ dailyMinutesLimit: 10 });
+
+      expect(service.authorize(tenantId, '+14155550123', 'alice')).toEqual({ allowed: true, remainingSeconds: 600 });
+
+      service.recordUsage(tenantId, 'alice', 420);
+      expect(service.authorize(tenantId, '+14155550123', 'alice').remainingSeconds).toBe(180);
+
+      service.recordUsage(tenantId, 'alice', 180);
+      expect(service.authorize(tenantId, '+14155550123', 'alice')).toMatchObject({
+        allowed: false,
+        reason: 'daily-minutes-limit',
+      });
+    });
+
+    it('resets both caps at midnight UTC', () => {
+      jest.useFakeTimers({ now: new Date('2026-03-02T23:59:59Z') });
+      const service = createService({ dailyCallLimit: 1, dailyMinutesLimit: 1 });
+
+      service.recordAttempt(tenantId, '+14155550123', 'alice');
+      service.recordUsage(tenantId, 'alice', 60);
+      expect(service.authorize(tenantId, '+14155550123', 'alice').reason).toBe('daily-call-limit');
+
+      jest.setSystemTime(new Date('2026-03-03T00:00:00Z'));
+      expect(service.authorize(tenantId, '+14155550123', 'alice')).toEqual({ allowed: true, remainingSeconds: 60 });
+    });
+
+    it('keeps counting until midnight UTC whatever the local time', () => {
+      // 04:30 UTC is still the evening before in New York, but both calls fall on the same UTC day
+      jest.useFakeTimers({ now: new Date('2026-03-03T04:30:00Z') });
+      const service = createService({ dailyCallLimit: 1 });
+
+      service.recordAttempt(tenantId, '+14155550123', 'alice');
+      jest.setSystemTime(new Date('2026-03-03T23:59:00Z'));
+
+      expect(service.authorize(tenantId, '+14155550123', 'alice').reason).toBe('daily-call-limit');
+    });
+  });
+});
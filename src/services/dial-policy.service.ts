@@ -0,0 +1,160 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { TwilioConfigService } from '../config/twilio.config';
+import {
+  BlockedDialAttempt,
+  DialBlockReason,
+  DialPolicyConfig,
+  DialPolicyDecision,
+} from '../types';
+import { PhoneValidator } from '../utils';
+
+const MAX_BLOCKED_ATTEMPTS = 100;
+
+const BLOCK_MESSAGES: Record<DialBlockReason, string> = {
+  'country-not-allowed': 'Calls to this country are not permitted.',
+  'country-denied': 'Calls to this country are not permitted.',
+  'prefix-blocked': 'Calls to this number are not permitted.',
+  premium: 'Calls to premium rate numbers are not permitted.',
+  'short-code': 'Calls to short codes are not permitted.',
+  'daily-call-limit': 'You have reached your daily call limit.',
+  'daily-minutes-limit': 'You have used all of your calling minutes for today.',
+};
+
+@Injectable()
+export class DialPolicyService {
+  private readonly logger = new Logger(DialPolicyService.name);
+  private readonly config: DialPolicyConfig;
+  private readonly usage = new Map<string, { day: string; calls: number; seconds: number }>();
+  private readonly blockedAttempts: BlockedDialAttempt[] = [];
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly twilioConfig: TwilioConfigService,
+  ) {
+    this.config = {
+      allowedCountries: this.configService.get<string[]>('dialPolicy.allowedCountries') || [],
+      deniedCountries: this.configService.get<string[]>('dialPolicy.deniedCountries') || [],
+      blockedPrefixes: this.configService.get<string[]>('dialPolicy.blockedPrefixes') || [],
+      blockPremium: this.configService.get<boolean>('dialPolicy.blockPremium') ?? true,
+      dailyCallLimit: this.configService.get<number>('dialPolicy.dailyCallLimit') || 0,
+      dailyMinutesLimit: this.configService.get<number>('dialPolicy.dailyMinutesLimit') || 0,
+    };
+  }
+
+  getPolicy(): DialPolicyConfig {
+    return this.config;
+  }
+
+  getBlockedAttempts(tenantId: string): BlockedDialAttempt[] {
+    return this.blockedAttempts.filter((attempt) => attempt.tenantId === tenantId);
+  }
+
+  /**
+   * Decide whether a call may be placed; it only counts towards the daily cap once recordAttempt is called
+   */
+  authorize(tenantId: string, destination: string, identity?: string, region?: string): DialPolicyDecision {
+    const decision = this.evaluate(tenantId, destination, identity, region);
+
+    if (!decision.allowed) {
+      this.recordBlocked(tenantId, destination, decision.reason!, identity);
+    }
+    return decision;
+  }
+
+  /**
+   * Count an authorized call towards the identity's daily cap once it has actually been placed
+   */
+  recordAttempt(tenantId: string, destination: string, identity?: string): void {
+    // Client legs are never checked against the policy, so they do not count either
+    if (identity && !destination.startsWith('client:')) {
+      this.getUsage(tenantId, identity).calls++;
+    }
+  }
+
+  /**
+   * Count a finished call's talk time against the identity's daily minutes
+   */
+  recordUsage(tenantId: string, identity: string, durationSeconds: number): void {
+    this.getUsage(tenantId, identity).seconds += durationSeconds;
+  }
+
+  private evaluate(
+    tenantId: string,
+    destination: string,
+    identity?: string,
+    region?: string,
+  ): DialPolicyDecision {
+    // Short codes never parse as full numbers, so catch them before parsing
+    if (this.config.blockPremium && /^\d{3,6}$/.test(destination.replace(/[\s().-]/g, ''))) {
+      return this.block('short-code');
+    }
+
+    const { number } = PhoneValidator.parse(
+      destination,
+      region || this.twilioConfig.getDefaultRegion(tenantId),
+    );
+
+    // Unparseable numbers are rejected by the caller with the parse error instead
+    if (number) {
+      if (this.config.blockedPrefixes.some((prefix) => number.e164.startsWith(prefix))) {
+        return this.block('prefix-blocked');
+      }
+      if (number.country && this.config.deniedCountries.includes(number.country)) {
+        return this.block('country-denied');
+      }
+      if (
+        this.config.allowedCountries.length > 0 &&
+        (!number.country || !this.config.allowedCountries.includes(number.country))
+      ) {
+        return this.block('country-not-allowed');
+      }
+      if (this.config.blockPremium && number.kind === 'premium') {
+        return this.block('premium');
+      }
+    }
+
+    if (!identity) {
+      return { allowed: true };
+    }
+
+    const usage = this.getUsage(tenantId, identity);
+
+    if (this.config.dailyCallLimit > 0 && usage.calls >= this.config.dailyCallLimit) {
+      return this.block('daily-call-limit');
+    }
+
+    if (this.config.dailyMinutesLimit > 0) {
+      const remainingSeconds = this.config.dailyMinutesLimit * 60 - usage.seconds;
+      return remainingSeconds > 0 ? { allowed: true, remainingSeconds } : this.block('daily-minutes-limit');
+    }
+
+    return { allowed: true };
+  }
+
+  private block(reason: DialBlockReason): DialPolicyDecision {
+    return { allowed: false, reason, message: BLOCK_MESSAGES[reason] };
+  }
+
+  private recordBlocked(tenantId: string, destination: string, reason: DialBlockReason, identity?: string): void {
+    this.logger.warn(
+      `Blocked call to ${destination} by ${identity || 'unknown'} (tenant: ${tenantId}): ${reason}`,
+    );
+
+    this.blockedAttempts.unshift({ tenantId, identity, destination, reason, attemptedAt: new Date() });
+    this.blockedAttempts.splice(MAX_BLOCKED_ATTEMPTS);
+  }
+
+  // Counters reset at midnight UTC
+  private getUsage(tenantId: string, identity: string): { day: string; calls: number; seconds: number } {
+    const key = `${tenantId}:${identity}`;
+    const day = new Date().toISOString().slice(0, 10);
+    let usage = this.usage.get(key);
+
+    if (!usage || usage.day !== day) {
+      usage = { day, calls: 0, seconds: 0 };
+      this.usage.set(key, usage);
+    }
+    return usage;
+  }
+}
@@ -0,0 +1,118 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DEFAULT_TENANT_ID, TwilioConfigService } from '../config/twilio.config';
+import { IvrFlow } from '../types';
+import { BusinessHoursService } from './business-hours.service';
+import { IvrService } from './ivr.service';
+
+const tenantId = DEFAULT_TENANT_ID;
+
+describe('IvrService', () => {
+  let directory: string;
+
+  beforeAll(() => {
+    directory = mkdtempSync(join(tmpdir(), 'ivr-'));
+  });
+
+  afterAll(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    jest.spyOn(Logger.prototype, 'log').mockImplementation();
+    jest.spyOn(Logger.prototype, 'error').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  function createService(flow: IvrFlow) {
+    const flowPath = join(directory, 'flow.json');
+    writeFileSync(flowPath, JSON.stringify(flow));
+
+    const configService = new ConfigService({
+      twilio: {
+        accountSid: `AC${'0'.repeat(32)}`,
+        apiKey: `SK${'0'.repeat(32)}`,
+        apiSecret: 'test-api-secret',
+        twimlAppSid: `AP${'0'.repeat(32)}`,
+        phoneNumber: '+15005550006',
+        validateWebhookSignature: false,
+      },
+      ivr: { flowPath },
+    });
+    const twilioConfig = new TwilioConfigService(configService);
+    return new IvrService(configService, new BusinessHoursService(configService, twilioConfig), twilioConfig);
+  }
+
+  const menu: IvrFlow = {
+    start: 'welcome',
+    nodes: {
+      welcome: { type: 'say', message: 'Welcome.', next: 'menu' },
+      menu: {
+        type: 'menu',
+        prompt: 'Press 1 for sales.',
+        retries: 1,
+        options: [{ digit: '1', phrases: ['sales'], next: 'sales' }],
+      },
+      sales: { type: 'client', identity: 'alice' },
+    },
+  };
+
+  it('refuses to start with a flow that does not validate', () => {
+    expect(() => createService({ start: 'missing', nodes: {} })).toThrow('Invalid IVR flow');
+  });
+
+  describe('dryRun', () => {
+    it('walks the flow with the scripted inputs', () => {
+      const result = createService(menu).dryRun(tenantId, ['sales', '2']);
+
+      expect(result.steps.map(({ nodeId, input, next }) => ({ nodeId, input, next: next.type }))).toEqual([
+        { nodeId: 'welcome', input: undefined, next: 'node' },
+        { nodeId: 'menu', input: undefined, next: 'input' },
+        { nodeId: 'sales', input: 'sales', next: 'exit' },
+      ]);
+      expect(result.unusedInputs).toEqual(['2']);
+    });
+
+    it('hangs up once the menu retries are used up', () => {
+      const result = createService(menu).dryRun(tenantId, ['9', '9']);
+
+      expect(result.steps.map((step) => step.nodeId)).toEqual(['welcome', 'menu', 'menu', 'menu']);
+      expect(result.steps[3].next).toEqual({ type: 'exit', target: 'hangup' });
+    });
+
+    it('stops a flow that never ends after 50 steps', () => {
+      const service = createService({
+        start: 'tick',
+        nodes: {
+          tick: { type: 'say', message: 'Tick.', next: 'tock' },
+          tock: { type: 'say', message: 'Tock.', next: 'tick' },
+        },
+      });
+
+      const { steps } = service.dryRun(tenantId);
+
+      expect(steps).toHaveLength(50);
+      expect(steps[49]).toMatchObject({ nodeId: 'tock', next: { type: 'node', nodeId: 'tick' } });
+    });
+
+    it('counts scripted answers towards the 50 steps', () => {
+      const service = createService({
+        start: 'menu',
+        nodes: {
+          menu: { type: 'menu', prompt: 'Press 1.', options: [{ digit: '1', next: 'menu' }] },
+        },
+      });
+
+      const result = service.dryRun(tenantId, Array(60).fill('1'));
+
+      expect(result.steps).toHaveLength(50);
+      expect(result.unusedInputs).toHaveLength(11);
+    });
+  });
+});
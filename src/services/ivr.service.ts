@@ -0,0 +1,231 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { isWithinHours } from '../business-hours/business-hours';
+import { TwilioConfigService } from '../config/twilio.config';
+import { loadIvrFlow, validateIvrFlow } from '../ivr/ivr-flow';
+import { TwiMLGenerator } from '../twiml/generator';
+import { IvrDryRunResult, IvrFlow, IvrStep } from '../types';
+import { BusinessHoursService } from './business-hours.service';
+
+const IVR_BASE = '/api/v1/test-talk/ivr';
+const MAX_DRY_RUN_STEPS = 50;
+
+/**
+ * Walks a declarative call flow one webhook at a time. Rendering is side-effect free so dry runs
+ * can use it too; agents, queue and voicemail are reached through redirects to their own webhooks.
+ */
+@Injectable()
+export class IvrService {
+  private readonly logger = new Logger(IvrService.name);
+  private readonly flow: IvrFlow | null = null;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly businessHours: BusinessHoursService,
+    private readonly twilioConfig: TwilioConfigService,
+  ) {
+    const flowPath = this.configService.get<string>('ivr.flowPath');
+    if (!flowPath) {
+      return;
+    }
+
+    const flow = loadIvrFlow(flowPath);
+    const errors = validateIvrFlow(
+      flow,
+      this.businessHours.getSchedules().map((schedule) => schedule.id),
+      this.twilioConfig.getTenants().map((tenant) => tenant.id),
+    );
+
+    if (errors.length > 0) {
+      errors.forEach((error) => this.logger.error(`Invalid IVR flow ${flowPath}: ${error}`));
+      throw new Error('Invalid IVR flow');
+    }
+
+    this.flow = flow;
+    this.logger.log(`Loaded IVR flow with ${Object.keys(flow.nodes).length} nodes from ${flowPath}`);
+  }
+
+  /**
+   * Whether the tenant's inbound calls go through the flow
+   */
+  isEnabled(tenantId: string): boolean {
+    return this.flow !== null && (!this.flow.tenants || this.flow.tenants.includes(tenantId));
+  }
+
+  getFlow(tenantId: string): IvrFlow {
+    return this.requireFlow(tenantId);
+  }
+
+  start(tenantId: string, at: Date = new Date()): IvrStep {
+    return this.render(this.requireFlow(tenantId).start, at);
+  }
+
+  /**
+   * TwiML for a node, following hours branches until something is said to the caller
+   */
+  render(nodeId: string, at: Date = new Date(), attempt = 0, notice?: string): IvrStep {
+    const node = this.getNode(nodeId);
+
+    switch (node.type) {
+      case 'say':
+        return {
+          nodeId,
+          twiml: TwiMLGenerator.generateIvrSay(node.message, node.next && this.nodeUrl(node.next)),
+          next: node.next ? { type: 'node', nodeId: node.next } : { type: 'exit', target: 'hangup' },
+        };
+      case 'menu': {
+        const action = `${this.nodeUrl(nodeId)}/input?attempt=${attempt}`;
+        return {
+          nodeId,
+          twiml: TwiMLGenerator.generateIvrMenu({
+            prompt: node.prompt,
+            input: node.input || 'dtmf',
+            timeout: node.timeout || 5,
+            action,
+            notice,
+          }),
+          next: { type: 'input', nodeId, attempt },
+        };
+      }
+      case 'hours': {
+        const schedule =
+          typeof node.schedule === 'string' ? this.businessHours.getSchedule(node.schedule) : node.schedule;
+        return this.render(isWithinHours(schedule, at) ? node.open : node.closed, at);
+      }
+      case 'client':
+        return {
+          nodeId,
+          twiml: TwiMLGenerator.generateIncomingCall(node.identity),
+          next: { type: 'exit', target: 'client' },
+        };
+      case 'number':
+        return {
+          nodeId,
+          twiml: TwiMLGenerator.generateForward(node.number),
+          next: { type: 'exit', target: 'number' },
+        };
+      case 'agents':
+      case 'queue':
+      case 'voicemail':
+        return {
+          nodeId,
+          twiml: TwiMLGenerator.generateRedirect(`${IVR_BASE}/${node.type}`),
+          next: { type: 'exit', target: node.type },
+        };
+      case 'hangup':
+        return {
+          nodeId,
+          twiml: TwiMLGenerator.generateHangup(node.message),
+          next: { type: 'exit', target: 'hangup' },
+        };
+    }
+  }
+
+  /**
+   * Route the digits or speech Twilio posts back from a menu
+   */
+  handleInput(
+    nodeId: string,
+    input: { digits?: string; speech?: string },
+    attempt = 0,
+    at: Date = new Date(),
+  ): IvrStep {
+    const node = this.getNode(nodeId);
+    if (node.type !== 'menu') {
+      throw new NotFoundException(`IVR node ${nodeId} is not a menu`);
+    }
+
+    const speech = input.speech?.toLowerCase();
+    const option = node.options.find(
+      (candidate) =>
+        (!!input.digits && candidate.digit === input.digits) ||
+        (!!speech && !!candidate.phrases?.some((phrase) => speech.includes(phrase.toLowerCase()))),
+    );
+
+    if (option) {
+      return this.render(option.next, at);
+    }
+
+    const retries = node.retries ?? 2;
+    if (attempt < retries) {
+      // Silence just repeats the menu; a wrong choice says so first
+      const notice =
+        input.digits || input.speech ? node.invalidMessage || 'Sorry, that is not a valid choice.' : undefined;
+      return this.render(nodeId, at, attempt + 1, notice);
+    }
+
+    this.logger.log(`Caller exhausted ${retries} retries at IVR menu ${nodeId}`);
+    return node.fallback
+      ? this.render(node.fallback, at)
+      : {
+          nodeId,
+          twiml: TwiMLGenerator.generateHangup('Sorry, we did not get a valid choice. Goodbye.'),
+          next: { type: 'exit', target: 'hangup' },
+        };
+  }
+
+  /**
+   * TwiML for a webhook; errors become a spoken apology rather than Twilio's application error
+   */
+  respond(tenantId: string, build: () => IvrStep): string {
+    try {
+      this.requireFlow(tenantId);
+      return build().twiml;
+    } catch (error) {
+      this.logger.error('Error rendering IVR step:', error);
+      return TwiMLGenerator.generateErrorResponse();
+    }
+  }
+
+  /**
+   * Walk the flow with scripted inputs and return the TwiML each step would produce
+   */
+  dryRun(tenantId: string, inputs: string[] = [], at: Date = new Date()): IvrDryRunResult {
+    const remaining = [...inputs];
+    const steps: IvrDryRunResult['steps'] = [];
+    let step = this.start(tenantId, at);
+
+    steps.push(step);
+    while (steps.length < MAX_DRY_RUN_STEPS) {
+      const { next } = step;
+
+      if (next.type === 'node') {
+        step = this.render(next.nodeId, at);
+        steps.push(step);
+      } else if (next.type === 'input' && remaining.length > 0) {
+        const input = remaining.shift()!;
+        step = this.handleInput(
+          next.nodeId,
+          /^[0-9*#]+$/.test(input) ? { digits: input } : { speech: input },
+          next.attempt,
+          at,
+        );
+        steps.push({ ...step, input });
+      } else {
+        break;
+      }
+    }
+
+    return { steps, unusedInputs: remaining };
+  }
+
+  private getNode(nodeId: string) {
+    const node = this.requireFlow().nodes[nodeId];
+    if (!node) {
+      throw new NotFoundException(`Unknown IVR node ${nodeId}`);
+    }
+    return node;
+  }
+
+  // Nodes are only reached from a start the tenant was allowed, so only entry points pass a tenant
+  private requireFlow(tenantId?: string): IvrFlow {
+    if (!this.flow || (tenantId && !this.isEnabled(tenantId))) {
+      throw new NotFoundException('No IVR flow is configured');
+    }
+    return this.flow;
+  }
+
+  private nodeUrl(nodeId: string): string {
+    return `${IVR_BASE}/nodes/${encodeURIComponent(nodeId)}`;
+  }
+}
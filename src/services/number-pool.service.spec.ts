@@ -0,0 +1,82 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DEFAULT_TENANT_ID, TwilioConfigService } from '../config/twilio.config';
+import { FakeVoiceProvider } from '../voice/fake-voice.provider';
+import { NumberPoolService } from './number-pool.service';
+
+const tenantId = DEFAULT_TENANT_ID;
+
+describe('NumberPoolService', () => {
+  let voiceProvider: FakeVoiceProvider;
+  let service: NumberPoolService;
+
+  beforeEach(() => {
+    const configService = new ConfigService({
+      twilio: {
+        accountSid: `AC${'0'.repeat(32)}`,
+        apiKey: `SK${'0'.repeat(32)}`,
+        apiSecret: 'test-api-secret',
+        twimlAppSid: `AP${'0'.repeat(32)}`,
+        phoneNumber: '+15005550006',
+        validateWebhookSignature: false,
+      },
+      numberPool: { numbers: [{ phoneNumber: '+442071838750', tags: ['uk'] }] },
+    });
+    const twilioConfig = new TwilioConfigService(configService);
+
+    voiceProvider = new FakeVoiceProvider(twilioConfig, { autoProgress: false });
+    service = new NumberPoolService(configService, twilioConfig, voiceProvider);
+  });
+
+  it('starts with the configured number and the pool numbers', () => {
+    expect(service.list(tenantId).map((number) => number.phoneNumber)).toEqual(['+15005550006', '+442071838750']);
+    expect(service.list(tenantId, 'primary').map((number) => number.phoneNumber)).toEqual(['+15005550006']);
+  });
+
+  it('adds numbers the account owns', async () => {
+    const added = await service.add(tenantId, '(415) 555-0100', ['sales']);
+
+    expect(added).toMatchObject({ phoneNumber: '+14155550100', tenantId, tags: ['sales'] });
+    expect(service.has(tenantId, '+14155550100')).toBe(true);
+  });
+
+  it('explains why a number that does not parse was rejected', async () => {
+    await expect(service.add(tenantId, '555-01')).rejects.toThrow(
+      new BadRequestException('Invalid phone number 555-01: it is too short'),
+    );
+  });
+
+  it('rejects numbers the account does not own', async () => {
+    jest.spyOn(voiceProvider, 'ownsNumber').mockResolvedValue(false);
+
+    await expect(service.add(tenantId, '+14155550100')).rejects.toBeInstanceOf(BadRequestException);
+    expect(service.has(tenantId, '+14155550100')).toBe(false);
+  });
+
+  it('rejects numbers already in the pool', async () => {
+    await expect(service.add(tenantId, '+442071838750')).rejects.toBeInstanceOf(ConflictException);
+  });
+
+  it('picks a caller ID in the destination area code, then its country', async () => {
+    await service.add(tenantId, '+14155550100');
+
+    expect(service.selectCallerId(tenantId, '+14155550199')).toEqual({
+      phoneNumber: '+14155550100',
+      reason: 'area-code',
+    });
+    expect(service.selectCallerId(tenantId, '+442079460000')).toEqual({
+      phoneNumber: '+442071838750',
+      reason: 'country',
+    });
+  });
+
+  it('only honours requested caller IDs from the pool', () => {
+    expect(service.selectCallerId(tenantId, '+14155550199', { requested: '+442071838750' })).toEqual({
+      phoneNumber: '+442071838750',
+      reason: 'requested',
+    });
+    expect(() => service.selectCallerId(tenantId, '+14155550199', { requested: '+14155550100' })).toThrow(
+      BadRequestException,
+    );
+  });
+});
@@ -0,0 +1,190 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { parsePhoneNumberFromString } from 'libphonenumber-js/max';
+import { DEFAULT_TENANT_ID, TwilioConfigService } from '../config/twilio.config';
+import { CallerIdSelection, CallerIdStrategy, PoolNumber } from '../types';
+import { PhoneValidator } from '../utils';
+import { VOICE_PROVIDER, VoiceProvider } from '../voice/voice-provider';
+
+@Injectable()
+export class NumberPoolService {
+  private readonly logger = new Logger(NumberPoolService.name);
+  private readonly pools = new Map<string, PoolNumber[]>();
+  private readonly nextIndex = new Map<string, number>();
+  private readonly strategy: CallerIdStrategy;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly twilioConfig: TwilioConfigService,
+    @Inject(VOICE_PROVIDER) private readonly voiceProvider: VoiceProvider,
+  ) {
+    this.strategy =
+      this.configService.get<CallerIdStrategy>('numberPool.strategy') || 'local-presence';
+
+    // Every tenant's configured number is always part of its pool
+    this.twilioConfig.getTenants().forEach((tenant) =>
+      this.addToPool(tenant.id, tenant.twilio.phoneNumber, ['primary']),
+    );
+
+    const configured =
+      this.configService.get<Array<{ phoneNumber: string; tags?: string[]; tenantId?: string }>>(
+        'numberPool.numbers',
+      ) || [];
+    configured.forEach((entry) =>
+      this.addToPool(entry.tenantId || DEFAULT_TENANT_ID, entry.phoneNumber, entry.tags || []),
+    );
+
+    this.logger.log(`Caller ID strategy: ${this.strategy}`);
+  }
+
+  getStrategy(): CallerIdStrategy {
+    return this.strategy;
+  }
+
+  list(tenantId: string, tag?: string): PoolNumber[] {
+    return this.getPool(tenantId).filter((number) => !tag || number.tags.includes(tag));
+  }
+
+  has(tenantId: string, phoneNumber?: string): boolean {
+    return !!phoneNumber && this.getPool(tenantId).some((number) => number.phoneNumber === phoneNumber);
+  }
+
+  /**
+   * Add a number to the pool once Twilio confirms the tenant's account owns it
+   */
+  async add(tenantId: string, phoneNumber: string, tags: string[] = []): Promise<PoolNumber> {
+    const { number, error } = PhoneValidator.parse(phoneNumber, this.twilioConfig.getDefaultRegion(tenantId));
+
+    if (!number) {
+      throw new BadRequestException(`Invalid phone number ${phoneNumber}: ${error}`);
+    }
+    const sanitized = number.e164;
+    if (this.has(tenantId, sanitized)) {
+      throw new ConflictException('Number is already in the pool');
+    }
+
+    if (!(await this.voiceProvider.ownsNumber(tenantId, sanitized))) {
+      throw new BadRequestException('Number is not owned by this Twilio account');
+    }
+
+    return this.addToPool(tenantId, sanitized, tags);
+  }
+
+  remove(tenantId: string, phoneNumber: string): void {
+    const pool = this.getPool(tenantId);
+    const sanitized = PhoneValidator.sanitize(phoneNumber, this.twilioConfig.getDefaultRegion(tenantId));
+    const index = pool.findIndex((number) => number.phoneNumber === sanitized);
+
+    if (index === -1) {
+      throw new NotFoundException('Number is not in the pool');
+    }
+    if (pool.length === 1) {
+      throw new BadRequestException('The pool must keep at least one number');
+    }
+
+    pool.splice(index, 1);
+    this.logger.log(`Removed ${sanitized} from the pool of tenant ${tenantId}`);
+  }
+
+  /**
+   * Choose the caller ID for an outbound call to the given destination
+   */
+  selectCallerId(
+    tenantId: string,
+    destination: string,
+    options: { requested?: string; tag?: string } = {},
+  ): CallerIdSelection {
+    if (options.requested) {
+      const requested = PhoneValidator.sanitize(
+        options.requested,
+        this.twilioConfig.getDefaultRegion(tenantId),
+      );
+      if (!this.has(tenantId, requested)) {
+        throw new BadRequestException('Requested caller ID is not in the number pool');
+      }
+      return { phoneNumber: requested, reason: 'requested' };
+    }
+
+    const candidates = this.list(tenantId, options.tag);
+    if (candidates.length === 0) {
+      throw new BadRequestException(
+        options.tag ? `No pool numbers are tagged ${options.tag}` : 'The number pool is empty',
+      );
+    }
+
+    if (this.strategy === 'local-presence') {
+      const local = this.findLocalNumber(tenantId, candidates, destination);
+      if (local) return local;
+    }
+
+    return { phoneNumber: this.nextRoundRobin(tenantId, candidates).phoneNumber, reason: 'round-robin' };
+  }
+
+  /**
+   * Prefer a number in the destination's area code, then one sharing its country calling code, spreading load within each
+   */
+  private findLocalNumber(
+    tenantId: string,
+    candidates: PoolNumber[],
+    destination: string,
+  ): CallerIdSelection | null {
+    const target = parsePhoneNumberFromString(destination);
+    if (!target) return null;
+
+    const areaCode = this.getAreaCode(destination);
+    const sameCountry = candidates.filter(
+      (number) =>
+        parsePhoneNumberFromString(number.phoneNumber)?.countryCallingCode === target.countryCallingCode,
+    );
+
+    const sameArea = areaCode
+      ? sameCountry.filter((number) => this.getAreaCode(number.phoneNumber) === areaCode)
+      : [];
+
+    if (sameArea.length > 0) {
+      return { phoneNumber: this.nextRoundRobin(tenantId, sameArea).phoneNumber, reason: 'area-code' };
+    }
+
+    return sameCountry.length > 0
+      ? { phoneNumber: this.nextRoundRobin(tenantId, sameCountry).phoneNumber, reason: 'country' }
+      : null;
+  }
+
+  // Only the North American numbering plan has fixed-length area codes worth matching on
+  private getAreaCode(phoneNumber: string): string | null {
+    const parsed = parsePhoneNumberFromString(phoneNumber);
+    return parsed?.countryCallingCode === '1' ? parsed.nationalNumber.slice(0, 3) : null;
+  }
+
+  private nextRoundRobin(tenantId: string, candidates: PoolNumber[]): PoolNumber {
+    const index = this.nextIndex.get(tenantId) || 0;
+    this.nextIndex.set(tenantId, index + 1);
+    return candidates[index % candidates.length];
+  }
+
+  private addToPool(tenantId: string, phoneNumber: string, tags: string[]): PoolNumber {
+    const pool = this.getPool(tenantId);
+    const existing = pool.find((number) => number.phoneNumber === phoneNumber);
+
+    if (existing) {
+      existing.tags = Array.from(new Set([...existing.tags, ...tags]));
+      return existing;
+    }
+
+    const number: PoolNumber = { phoneNumber, tenantId, tags, addedAt: new Date() };
+    pool.push(number);
+    this.pools.set(tenantId, pool);
+    return number;
+  }
+
+  private getPool(tenantId: string): PoolNumber[] {
+    return this.pools.get(tenantId) || [];
+  }
+}
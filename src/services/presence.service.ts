@@ -0,0 +1,126 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DEFAULT_TENANT_ID } from '../config/twilio.config';
+import { ClientPresence, PresenceState, RoutingStrategyName } from '../types';
+import { createRoutingStrategy, RoutingStrategy } from '../routing/routing-strategies';
+
+@Injectable()
+export class PresenceService {
+  private readonly logger = new Logger(PresenceService.name);
+  private readonly clients = new Map<string, ClientPresence>();
+  // Each tenant rotates and remembers callers separately
+  private readonly strategies = new Map<string, RoutingStrategy>();
+  private readonly strategyName: RoutingStrategyName;
+  private readonly heartbeatTimeoutMs: number;
+
+  constructor(private readonly configService: ConfigService) {
+    this.strategyName =
+      this.configService.get<RoutingStrategyName>('routing.strategy') || 'longest-idle';
+    this.heartbeatTimeoutMs =
+      this.configService.get<number>('routing.heartbeatTimeoutMs') || 60000;
+
+    this.logger.log(`Inbound routing strategy: ${this.strategyName}`);
+  }
+
+  /**
+   * Register a browser client as available, e.g. when it fetches a token
+   */
+  register(identity: string, tenantId: string = DEFAULT_TENANT_ID): ClientPresence {
+    const now = new Date();
+    const existing = this.clients.get(this.key(tenantId, identity));
+
+    const client: ClientPresence = {
+      identity,
+      tenantId,
+      state: existing?.state === 'busy' ? 'busy' : 'available',
+      registeredAt: existing?.registeredAt || now,
+      lastHeartbeat: now,
+      idleSince: existing?.state === 'available' ? existing.idleSince : now,
+    };
+
+    this.clients.set(this.key(tenantId, identity), client);
+    this.logger.log(`Client registered: ${identity} (tenant: ${tenantId})`);
+    return client;
+  }
+
+  /**
+   * Refresh a client's liveness and optionally report a state change
+   */
+  heartbeat(identity: string, state?: PresenceState, tenantId: string = DEFAULT_TENANT_ID): ClientPresence {
+    const client = this.clients.get(this.key(tenantId, identity)) || this.register(identity, tenantId);
+    client.lastHeartbeat = new Date();
+
+    if (state && state !== client.state) {
+      this.setState(identity, state, tenantId);
+    }
+
+    return client;
+  }
+
+  setState(identity: string, state: PresenceState, tenantId: string = DEFAULT_TENANT_ID): void {
+    const client = this.clients.get(this.key(tenantId, identity));
+    if (!client) return;
+
+    // Idle time restarts whenever a client becomes free again
+    if (state === 'available' && client.state !== 'available') {
+      client.idleSince = new Date();
+    }
+
+    client.state = state;
+    this.logger.log(`Client ${identity} is now ${state}`);
+  }
+
+  /**
+   * Pick an available client for an inbound call and mark it busy
+   */
+  selectAgent(caller?: string, tenantId: string = DEFAULT_TENANT_ID): string | null {
+    const candidates = this.getClients(tenantId).filter((client) => client.state === 'available');
+    const strategy = this.getStrategy(tenantId);
+    const selected = strategy.select(candidates, caller);
+
+    if (!selected) {
+      this.logger.warn(`No available client for caller ${caller || 'unknown'}`);
+      return null;
+    }
+
+    strategy.recordAssignment?.(selected.identity, caller);
+    this.setState(selected.identity, 'busy', tenantId);
+    return selected.identity;
+  }
+
+  getClients(tenantId?: string): ClientPresence[] {
+    this.expireStaleClients();
+    return Array.from(this.clients.values()).filter(
+      (client) => !tenantId || client.tenantId === tenantId,
+    );
+  }
+
+  getStrategyName(): RoutingStrategyName {
+    return this.strategyName;
+  }
+
+  private getStrategy(tenantId: string): RoutingStrategy {
+    let strategy = this.strategies.get(tenantId);
+    if (!strategy) {
+      strategy = createRoutingStrategy(this.strategyName);
+      this.strategies.set(tenantId, strategy);
+    }
+    return strategy;
+  }
+
+  // Identities are only unique within a tenant
+  private key(tenantId: string, identity: string): string {
+    return `${tenantId}:${identity}`;
+  }
+
+  private expireStaleClients(): void {
+    const cutoff = Date.now() - this.heartbeatTimeoutMs;
+
+    for (const client of this.clients.values()) {
+      if (client.state !== 'offline' && client.lastHeartbeat.getTime() < cutoff) {
+        client.state = 'offline';
+        this.logger.log(`Client ${client.identity} timed out and is now offline`);
+      }
+    }
+  }
+}
@@ -0,0 +1,51 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { QueueService } from './queue.service';
+import { VoicemailService } from './voicemail.service';
+
+describe('QueueService', () => {
+  let voicemailService: VoicemailService;
+  let service: QueueService;
+
+  beforeEach(() => {
+    jest.spyOn(Logger.prototype, 'log').mockImplementation();
+
+    const configService = new ConfigService({ queue: { enabled: true, name: 'support' } });
+    voicemailService = { startVoicemail: jest.fn(() => '<Response/>') } as unknown as VoicemailService;
+    service = new QueueService(configService, voicemailService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('keeps queue depth and average wait per tenant', () => {
+    service.enqueue('CA1', '+14155550123', 'acme');
+    service.enqueue('CA2', '+14155550124', 'acme');
+    service.enqueue('CA3', '+14155550125', 'globex');
+
+    service.handleQueueExit('CA1', 'hangup', '+15005550006', 'acme', 30);
+    service.handleQueueExit('CA2', 'hangup', '+15005550006', 'acme', 90);
+
+    expect(service.getStatistics('acme')).toEqual({ queueDepth: 0, averageQueueWaitTime: 60 });
+    expect(service.getStatistics('globex')).toEqual({ queueDepth: 1, averageQueueWaitTime: 0 });
+  });
+
+  it('ignores queue exits reported for another tenant', () => {
+    service.enqueue('CA1', '+14155550123', 'acme');
+
+    service.handleQueueExit('CA1', 'hangup', '+15005550006', 'globex', 30);
+    service.markDequeued('CA1', 'globex');
+
+    expect(service.getStatistics('acme')).toEqual({ queueDepth: 1, averageQueueWaitTime: 0 });
+    expect(service.getStatistics('globex')).toEqual({ queueDepth: 0, averageQueueWaitTime: 0 });
+  });
+
+  it('sends callers who overflow to voicemail for their own tenant', () => {
+    service.enqueue('CA1', '+14155550123', 'acme');
+
+    service.handleQueueExit('CA1', 'leave', '+15005550006', 'acme', 300);
+
+    expect(voicemailService.startVoicemail).toHaveBeenCalledWith('CA1', '+14155550123', '+15005550006', 'acme');
+  });
+});
@@ -0,0 +1,151 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { TwiMLGenerator } from '../twiml/generator';
+import { VoicemailService } from './voicemail.service';
+import { CallbackRequest, QueueConfig, QueueStatistics } from '../types';
+
+@Injectable()
+export class QueueService {
+  private readonly logger = new Logger(QueueService.name);
+  private readonly config: QueueConfig;
+  private readonly waitingCalls = new Map<string, { from: string; tenantId: string; enqueuedAt: Date; lastAnnouncedAt?: Date }>();
+  private readonly callbackRequests: Array<CallbackRequest & { tenantId: string }> = [];
+  private readonly completedWaits = new Map<string, { totalSeconds: number; count: number }>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly voicemailService: VoicemailService,
+  ) {
+    this.config = {
+      enabled: this.configService.get<boolean>('queue.enabled') ?? false,
+      name: this.configService.get<string>('queue.name') || 'support',
+      waitMusicUrl: this.configService.get<string>('queue.waitMusicUrl') || '',
+      announceIntervalSeconds: this.configService.get<number>('queue.announceIntervalSeconds') || 30,
+      maxWaitSeconds: this.configService.get<number>('queue.maxWaitSeconds') || 300,
+      overflowAction: this.configService.get<QueueConfig['overflowAction']>('queue.overflowAction') || 'voicemail',
+    };
+  }
+
+  isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  getQueueName(): string {
+    return this.config.name;
+  }
+
+  /**
+   * Place an inbound caller in the queue
+   */
+  enqueue(callSid: string, from: string, tenantId: string): string {
+    this.waitingCalls.set(callSid, { from, tenantId, enqueuedAt: new Date() });
+    this.logger.log(`Call ${callSid} from ${from} queued in ${this.config.name}`);
+    return TwiMLGenerator.generateEnqueue(this.config.name);
+  }
+
+  /**
+   * TwiML for the Enqueue waitUrl, which Twilio requests repeatedly while the caller waits
+   */
+  generateWaitTwiML(callSid: string, queuePosition?: number, queueTimeSeconds?: number): string {
+    const entry = this.waitingCalls.get(callSid);
+    const now = new Date();
+
+    if (queueTimeSeconds !== undefined && queueTimeSeconds >= this.config.maxWaitSeconds) {
+      this.logger.log(`Call ${callSid} exceeded max queue wait of ${this.config.maxWaitSeconds}s`);
+      return TwiMLGenerator.generateQueueWait({ pauseSeconds: 0, leave: true });
+    }
+
+    const announceDue =
+      !entry?.lastAnnouncedAt ||
+      now.getTime() - entry.lastAnnouncedAt.getTime() >= this.config.announceIntervalSeconds * 1000;
+
+    if (entry && announceDue) {
+      entry.lastAnnouncedAt = now;
+    }
+
+    return TwiMLGenerator.generateQueueWait({
+      position: announceDue ? queuePosition : undefined,
+      waitMusicUrl: this.config.waitMusicUrl,
+      pauseSeconds: this.config.announceIntervalSeconds,
+    });
+  }
+
+  /**
+   * Handle the Enqueue action once the caller leaves the queue for any reason
+   */
+  handleQueueExit(
+    callSid: string,
+    queueResult: string,
+    to: string,
+    tenantId: string,
+    queueTimeSeconds?: number,
+  ): string {
+    const entry = this.findWaitingCall(callSid, tenantId);
+    const from = entry?.from || 'unknown';
+    this.recordExit(callSid, tenantId, queueTimeSeconds);
+    this.logger.log(`Call ${callSid} left queue: ${queueResult}`);
+
+    if (queueResult !== 'leave') {
+      return TwiMLGenerator.generateErrorResponse('Thank you for calling. Goodbye.');
+    }
+
+    return this.config.overflowAction === 'callback'
+      ? TwiMLGenerator.generateCallbackOffer()
+      : this.voicemailService.startVoicemail(callSid, from, to, tenantId);
+  }
+
+  /**
+   * Record the caller's answer to the callback offer
+   */
+  handleCallbackResponse(callSid: string, from: string, tenantId: string, digits?: string): string {
+    if (digits !== '1') {
+      return TwiMLGenerator.generateErrorResponse('Thank you for calling. Goodbye.');
+    }
+
+    this.callbackRequests.push({ callSid, from, tenantId, requestedAt: new Date() });
+    this.logger.log(`Callback requested by ${from} (${callSid}, tenant: ${tenantId})`);
+    return TwiMLGenerator.generateErrorResponse('Thank you. We will call you back shortly. Goodbye.');
+  }
+
+  getCallbackRequests(tenantId: string): CallbackRequest[] {
+    return this.callbackRequests
+      .filter((request) => request.tenantId === tenantId)
+      .map(({ callSid, from, requestedAt }) => ({ callSid, from, requestedAt }));
+  }
+
+  /**
+   * Mark the caller at the front of the queue as handed to an agent
+   */
+  markDequeued(callSid: string, tenantId: string): void {
+    this.recordExit(callSid, tenantId);
+    this.logger.log(`Call ${callSid} dequeued`);
+  }
+
+  getStatistics(tenantId: string): QueueStatistics {
+    const waiting = Array.from(this.waitingCalls.values()).filter((entry) => entry.tenantId === tenantId);
+    const waits = this.completedWaits.get(tenantId);
+
+    return {
+      queueDepth: waiting.length,
+      averageQueueWaitTime: waits ? waits.totalSeconds / waits.count : 0,
+    };
+  }
+
+  // Queue callbacks carry only the CallSid, so a caller queued by another tenant is treated as unknown
+  private findWaitingCall(callSid: string, tenantId: string) {
+    const entry = this.waitingCalls.get(callSid);
+    return entry?.tenantId === tenantId ? entry : undefined;
+  }
+
+  private recordExit(callSid: string, tenantId: string, queueTimeSeconds?: number): void {
+    const entry = this.findWaitingCall(callSid, tenantId);
+    if (!entry) return;
+
+    const waited =
+      queueTimeSeconds ?? Math.round((Date.now() - entry.enqueuedAt.getTime()) / 1000);
+    const waits = this.completedWaits.get(tenantId) || { totalSeconds: 0, count: 0 };
+
+    this.completedWaits.set(tenantId, { totalSeconds: waits.totalSeconds + waited, count: waits.count + 1 });
+    this.waitingCalls.delete(callSid);
+  }
+}
@@ -0,0 +1,91 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CALL_REPOSITORY, CallRepository } from '../repositories/call.repository';
+import { TwiMLGenerator } from '../twiml/generator';
+import { CallRecording, RecordingConfig } from '../types';
+
+@Injectable()
+export class RecordingService {
+  private readonly logger = new Logger(RecordingService.name);
+  private readonly config: RecordingConfig;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @Inject(CALL_REPOSITORY) private readonly callRepository: CallRepository,
+  ) {
+    this.config = {
+      enabled: this.configService.get<boolean>('recording.enabled') ?? false,
+      consentAnnouncement: this.configService.get<string>('recording.consentAnnouncement') || '',
+    };
+  }
+
+  isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  /**
+   * Recording is only honoured when compliance has switched it on
+   */
+  shouldRecord(requested?: boolean): boolean {
+    if (requested && !this.config.enabled) {
+      this.logger.warn('Call recording requested but disabled by configuration');
+    }
+    return !!requested && this.config.enabled;
+  }
+
+  getConsentAnnouncement(): string | undefined {
+    return this.config.consentAnnouncement || undefined;
+  }
+
+  /**
+   * TwiML for the called party's leg of a recorded call, fetched by Twilio when they answer
+   */
+  generateConsentNotice(): string {
+    return TwiMLGenerator.generateConsentNotice(this.getConsentAnnouncement());
+  }
+
+  /**
+   * Store recording progress reported by Twilio against the call record
+   */
+  async handleRecordingStatus(payload: {
+    CallSid: string;
+    RecordingSid: string;
+    RecordingStatus: string;
+    RecordingUrl?: string;
+    RecordingDuration?: string;
+    RecordingChannels?: string;
+    RecordingStartTime?: string;
+  }): Promise<void> {
+    const { CallSid, RecordingSid, RecordingStatus } = payload;
+    const call = await this.callRepository.findBySid(CallSid);
+
+    if (!call) {
+      this.logger.warn(`Recording ${RecordingSid} received for untracked call ${CallSid}`);
+      return;
+    }
+
+    const recordings = [...(call.recordings || [])];
+    const index = recordings.findIndex((recording) => recording.sid === RecordingSid);
+    const existing = index >= 0 ? recordings[index] : undefined;
+
+    const recording: CallRecording = {
+      ...existing,
+      sid: RecordingSid,
+      status: RecordingStatus,
+      channels: payload.RecordingChannels ? parseInt(payload.RecordingChannels) : existing?.channels,
+      duration: payload.RecordingDuration ? parseInt(payload.RecordingDuration) : existing?.duration,
+      url: payload.RecordingUrl || existing?.url,
+      startedAt: payload.RecordingStartTime ? new Date(payload.RecordingStartTime) : existing?.startedAt,
+      updatedAt: new Date(),
+    };
+
+    if (existing) {
+      recordings[index] = recording;
+    } else {
+      recordings.push(recording);
+    }
+
+    await this.callRepository.update(CallSid, { recordings });
+    this.logger.log(`Recording ${RecordingSid} for call ${CallSid}: ${RecordingStatus}`);
+  }
+}
@@ -3,72 +3,92 @@ import {
   Logger,
   InternalServerErrorException,
   BadRequestException,
-  OnModuleDestroy,
+  ForbiddenException,
+  Inject,
 } from '@nestjs/common';
-import * as twilio from 'twilio';
-import { TwilioConfigService } from '../config/twilio.config';
+import { ConfigService } from '@nestjs/config';
+import { DEFAULT_TENANT_ID, TwilioConfigService } from '../config/twilio.config';
+import { VOICE_PROVIDER, VoiceProvider } from '../voice/voice-provider';
 import { TwiMLGenerator } from '../twiml/generator';
-import { PhoneValidator, RateLimiter } from '../utils';
+import { PhoneValidator } from '../utils';
+import {
+  CALL_REPOSITORY,
+  CallRepository,
+  callTypeOf,
+  decodeHistoryCursor,
+  encodeHistoryCursor,
+  isTerminalStatus,
+} from '../repositories/call.repository';
+import { CallHistoryQueryDto } from '../dto/call-history-query.dto';
+import { MakeCallDto } from '../dto/make-call.dto';
+import { PresenceService } from './presence.service';
+import { NumberPoolService } from './number-pool.service';
+import { DialPolicyService } from './dial-policy.service';
+import { ConferenceService } from './conference.service';
+import { IvrService } from './ivr.service';
+import { BusinessHoursService } from './business-hours.service';
+import { CallReconciliationService } from './call-reconciliation.service';
+import { QueueService } from './queue.service';
+import { VoicemailService } from './voicemail.service';
+import { RecordingService } from './recording.service';
+import { CallEventsService } from './call-events.service';
+import { WebhookDispatcherService } from './webhook-dispatcher.service';
 import {
   ActiveCall,
+  CallHistoryPage,
   CallStatus,
   CallStatistics,
+  AuthPrincipal,
   HealthCheckResult,
+  LifecycleEventType,
+  PhoneNumberInfo,
+  TokenPolicy,
 } from '../types';
 
 @Injectable()
-export class TestTalkService implements OnModuleDestroy {
+export class TestTalkService {
   private readonly logger = new Logger(TestTalkService.name);
-  private readonly twilioClient: twilio.Twilio;
-  private readonly activeCalls = new Map<string, ActiveCall>();
-  private readonly rateLimiter = new RateLimiter(5, 60000); // 5 calls per minute
-  private cleanupInterval: NodeJS.Timeout;
-
-  constructor(private readonly twilioConfig: TwilioConfigService) {
-    try {
-      this.twilioClient = this.twilioConfig.createClient();
-      this.logger.log('Twilio client initialized successfully');
-      
-      // Setup periodic cleanup
-      this.cleanupInterval = setInterval(() => {
-        this.rateLimiter.cleanup();
-      }, 300000); // Every 5 minutes
-      
-    } catch (error) {
-      this.logger.error('Twilio initialization error:', error);
-      throw new InternalServerErrorException('Unable to connect to Twilio');
-    }
-  }
 
-  onModuleDestroy() {
-    this.cleanup();
+  constructor(
+    private readonly twilioConfig: TwilioConfigService,
+    @Inject(VOICE_PROVIDER) private readonly voiceProvider: VoiceProvider,
+    @Inject(CALL_REPOSITORY) private readonly callRepository: CallRepository,
+    private readonly presenceService: PresenceService,
+    private readonly numberPool: NumberPoolService,
+    private readonly dialPolicy: DialPolicyService,
+    private readonly conferenceService: ConferenceService,
+    private readonly ivrService: IvrService,
+    private readonly businessHours: BusinessHoursService,
+    private readonly reconciliation: CallReconciliationService,
+    private readonly queueService: QueueService,
+    private readonly voicemailService: VoicemailService,
+    private readonly recordingService: RecordingService,
+    private readonly callEvents: CallEventsService,
+    private readonly webhookDispatcher: WebhookDispatcherService,
+    private readonly configService: ConfigService,
+  ) {
+    this.logger.log(`Serving ${this.twilioConfig.getTenants().length} tenant(s)`);
   }
 
   /**
-   * Generate JWT access token for browser client
+   * Generate JWT access token for an authenticated browser client
    */
-  generateAccessToken(identity = 'user'): { token: string; identity: string } {
+  generateAccessToken(
+    principal: AuthPrincipal,
+    tenantId: string,
+  ): { token: string; identity: string; ttl: number } {
     try {
-      const { accountSid, apiKey, apiSecret } = this.twilioConfig.getCredentialsForToken();
-      const { twimlAppSid } = this.twilioConfig.getConfig();
+      const { identity, role } = principal;
+      const policy = this.getTokenPolicy(role);
+      const token = this.voiceProvider.createAccessToken(tenantId, identity, policy);
 
-      const AccessToken = twilio.jwt.AccessToken;
-      const VoiceGrant = AccessToken.VoiceGrant;
-
-      const token = new AccessToken(accountSid, apiKey, apiSecret, {
-        identity,
-        ttl: 3600, // 1 hour
-      });
-
-      const voiceGrant = new VoiceGrant({
-        outgoingApplicationSid: twimlAppSid,
-        incomingAllow: true,
-      });
-
-      token.addGrant(voiceGrant);
+      // Only clients that can receive calls are candidates for inbound routing
+      if (policy.incomingAllow) {
+        this.presenceService.register(identity, tenantId);
+      }
 
-      this.logger.log(`Access token generated for identity: ${identity}`);
-      return { token: token.toJwt(), identity };
+      this.logger.log(`Access token generated for identity: ${identity} (role: ${role})`);
+      return { token, identity, ttl: policy.ttl };
     } catch (error) {
       this.logger.error('Error generating access token:', error);
       throw new InternalServerErrorException('Failed to generate access token');
@@ -78,23 +98,72 @@ export class TestTalkService implements OnModuleDestroy {
   /**
    * Generate TwiML response for different call scenarios
    */
-  generateTwiMLResponse(
+  async generateTwiMLResponse(
     to?: string,
     from?: string,
     callType: 'outbound' | 'inbound' = 'outbound',
-  ): string {
+    record = false,
+    tenantId: string = DEFAULT_TENANT_ID,
+    requestedCallerId?: string,
+    callSid?: string,
+    placedByApi = false,
+  ): Promise<string> {
     try {
-      const { phoneNumber } = this.twilioConfig.getConfig();
-      
+      // The customer has answered a call placed with POST call, which was checked and stored when it was placed
+      if (callType === 'outbound' && placedByApi) {
+        return await this.connectApiCall(callSid, tenantId, record);
+      }
+
       if (callType === 'outbound' && to) {
-        return TwiMLGenerator.generateOutboundCall(to, phoneNumber);
+        const identity = from?.startsWith('client:') ? from.slice('client:'.length) : undefined;
+        let timeLimit: number | undefined;
+
+        if (!to.startsWith('client:')) {
+          const decision = this.dialPolicy.authorize(tenantId, to, identity);
+
+          if (!decision.allowed) {
+            return TwiMLGenerator.generateErrorResponse(decision.message);
+          }
+          timeLimit = decision.remainingSeconds;
+        }
+
+        const destination = to.startsWith('client:') ? to : this.parsePhoneNumber(to, tenantId).e164;
+        const { phoneNumber } = this.numberPool.selectCallerId(tenantId, destination, {
+          requested: requestedCallerId,
+        });
+
+        const twiml = TwiMLGenerator.generateOutboundCall(destination, phoneNumber, {
+          record: this.recordingService.shouldRecord(record),
+          announceConsent: !!this.recordingService.getConsentAnnouncement(),
+          timeLimit,
+        });
+        this.dialPolicy.recordAttempt(tenantId, to, identity);
+        // Calls placed with device.connect are only known here; REST API legs were stored when they were created
+        if (callSid && !destination.startsWith('client:')) {
+          await this.trackActiveCall({
+            sid: callSid,
+            tenantId,
+            to: destination,
+            from: phoneNumber,
+            type: 'browser-to-phone',
+            identity,
+            status: 'initiated',
+            createdAt: new Date(),
+            statusHistory: [],
+          });
+        }
+        return twiml;
       } else if (callType === 'inbound') {
-        const clientIdentity = this.getAvailableClient(from);
+        const clientIdentity = this.getAvailableClient(tenantId, from);
         return TwiMLGenerator.generateIncomingCall(clientIdentity);
       }
 
       return TwiMLGenerator.generateErrorResponse();
     } catch (error) {
+      if (error instanceof BadRequestException) {
+        this.logger.warn(`Rejected outbound call to ${to}: ${error.message}`);
+        return TwiMLGenerator.generateErrorResponse(`Sorry, this call cannot be placed. ${error.message}.`);
+      }
       this.logger.error('Error generating TwiML response:', error);
       throw new InternalServerErrorException('Failed to generate TwiML response');
     }
@@ -104,84 +173,304 @@ export class TestTalkService implements OnModuleDestroy {
    * Make a browser-to-phone call
    */
   async makeBrowserToPhoneCall(
-    to: string,
-    from: string,
+    makeCallDto: MakeCallDto,
     baseUrl: string,
-  ): Promise<{ success: boolean; call: any }> {
-    try {
-      this.validateCallParameters(to, from);
+    tenantId: string = DEFAULT_TENANT_ID,
+    identity?: string,
+  ): Promise<{ success: boolean; call: ActiveCall }> {
+    const { to, from, record = false, callerIdTag, region } = makeCallDto;
 
-      const sanitizedTo = PhoneValidator.sanitize(to);
-      const sanitizedFrom = PhoneValidator.sanitize(from);
+    try {
+      this.validateCallParameters(to);
 
-      if (!PhoneValidator.isValid(sanitizedTo)) {
-        throw new BadRequestException('Invalid destination phone number format');
+      if (record && !this.recordingService.isEnabled()) {
+        throw new BadRequestException('Call recording is disabled');
       }
 
-      if (!this.rateLimiter.check(sanitizedFrom)) {
-        throw new BadRequestException('Too many call attempts. Please try again later.');
+      const decision = this.dialPolicy.authorize(tenantId, to, identity, region);
+      if (!decision.allowed) {
+        throw new ForbiddenException(decision.message);
       }
 
-      const { phoneNumber } = this.twilioConfig.getConfig();
+      const sanitizedTo = this.parsePhoneNumber(to, tenantId, region).e164;
+
+      // Older clients send the placeholder "browser" rather than a caller ID
+      const callerId = this.numberPool.selectCallerId(tenantId, sanitizedTo, {
+        requested: from && from !== 'browser' ? from : undefined,
+        tag: callerIdTag,
+      });
+      const sanitizedFrom = callerId.phoneNumber;
       const webhookBaseUrl = baseUrl || 'http://localhost:3000';
 
-      const call = await this.twilioClient.calls.create({
-        url: `${webhookBaseUrl}/api/v1/test-talk/voice`,
+      if (makeCallDto.mode === 'click-to-call') {
+        return await this.placeClickToCall(
+          makeCallDto,
+          { customer: sanitizedTo, callerId: sanitizedFrom, timeLimit: decision.remainingSeconds },
+          webhookBaseUrl,
+          tenantId,
+          identity,
+        );
+      }
+
+      // Once the customer answers, the voice webhook plays them the consent announcement and rings the agent
+      const call = await this.voiceProvider.createCall(tenantId, {
+        url: `${webhookBaseUrl}/api/v1/test-talk/voice?PlacedBy=api${record ? '&Record=true' : ''}`,
         to: sanitizedTo,
-        from: phoneNumber,
+        from: sanitizedFrom,
         statusCallback: `${webhookBaseUrl}/api/v1/test-talk/call-status`,
         statusCallbackEvent: ['initiated', 'ringing', 'answered', 'completed'],
         method: 'POST',
+        ...(decision.remainingSeconds && { timeLimit: decision.remainingSeconds }),
       });
+      this.dialPolicy.recordAttempt(tenantId, sanitizedTo, identity);
 
-      this.trackActiveCall(call.sid, {
+      const tracked = await this.trackActiveCall({
         sid: call.sid,
+        tenantId,
         to: sanitizedTo,
         from: sanitizedFrom,
         type: 'browser-to-phone',
+        identity,
         status: 'initiated',
         createdAt: new Date(),
+        statusHistory: [],
+      });
+
+      this.webhookDispatcher.dispatch('call.started', tenantId, {
+        callSid: call.sid,
+        to: sanitizedTo,
+        from: sanitizedFrom,
+        type: 'browser-to-phone',
       });
 
-      this.logger.log(`Call initiated: ${call.sid} from ${sanitizedFrom} to ${sanitizedTo}`);
-      return { success: true, call };
+      this.logger.log(
+        `Call initiated: ${call.sid} from ${sanitizedFrom} to ${sanitizedTo} (caller ID: ${callerId.reason})`,
+      );
+      return { success: true, call: tracked };
     } catch (error) {
-      this.logger.error(`Call failed from ${from} to ${to}:`, (error as Error).message);
-      if (error instanceof BadRequestException) {
+      this.logger.error(`Call to ${to} failed:`, (error as Error).message);
+      if (error instanceof BadRequestException || error instanceof ForbiddenException) {
         throw error;
       }
+      this.webhookDispatcher.dispatch('call.failed', tenantId, {
+        to,
+        from,
+        type: 'browser-to-phone',
+        error: (error as Error).message,
+      });
       throw new InternalServerErrorException(`Failed to make call: ${(error as Error).message}`);
     }
   }
 
+  /**
+   * TwiML for the agent's leg of a click-to-call once they answer: the whisper, then the customer
+   */
+  async connectClickToCall(callSid: string, tenantId: string = DEFAULT_TENANT_ID): Promise<string> {
+    try {
+      const call = await this.callRepository.findBySid(callSid);
+      if (!call?.bridge || call.tenantId !== tenantId) {
+        this.logger.warn(`No click-to-call bridge for call ${callSid}`);
+        return TwiMLGenerator.generateErrorResponse('Sorry, this call could not be connected.');
+      }
+
+      this.logger.log(`Agent answered click-to-call ${callSid}, dialing ${call.bridge.customer}`);
+      return TwiMLGenerator.generateOutboundCall(call.bridge.customer, call.from, {
+        whisper: call.bridge.whisper,
+        record: this.recordingService.shouldRecord(call.bridge.record),
+        announceConsent: !!this.recordingService.getConsentAnnouncement(),
+        timeLimit: call.bridge.timeLimit,
+        statusCallback: '/api/v1/test-talk/click-to-call/customer-status',
+      });
+    } catch (error) {
+      this.logger.error('Error connecting click-to-call:', error);
+      return TwiMLGenerator.generateErrorResponse();
+    }
+  }
+
+  /**
+   * Status of the customer leg of a click-to-call, kept on the agent's call so both read as one
+   */
+  async handleClickToCallCustomerStatus(
+    payload: { CallSid: string; ParentCallSid?: string; CallStatus: string },
+    tenantId: string = DEFAULT_TENANT_ID,
+  ): Promise<void> {
+    const { CallSid, ParentCallSid, CallStatus } = payload;
+    const parent = ParentCallSid ? await this.callRepository.findBySid(ParentCallSid) : null;
+
+    if (!parent?.bridge || parent.tenantId !== tenantId) {
+      this.logger.warn(`Customer leg ${CallSid} does not belong to a known click-to-call`);
+      return;
+    }
+
+    this.logger.log(`Click-to-call ${parent.sid}: customer leg ${CallSid} ${CallStatus}`);
+    await this.updateActiveCall(parent.sid, {
+      bridge: { ...parent.bridge, customerCallSid: CallSid, customerStatus: CallStatus },
+      lastUpdated: new Date(),
+    });
+  }
+
   /**
    * Generate TwiML for incoming calls
    */
-  generateIncomingCallTwiML(from: string, to: string): string {
+  async generateIncomingCallTwiML(
+    from: string,
+    to: string,
+    callSid?: string,
+    tenantId: string = DEFAULT_TENANT_ID,
+  ): Promise<string> {
     try {
       if (!from || !to) {
         this.logger.error('Missing from or to parameters for incoming call');
         return TwiMLGenerator.generateErrorResponse('Unable to process call. Missing required information.');
       }
 
-      const sanitizedFrom = PhoneValidator.sanitize(from);
-      this.logger.log(`Incoming call from ${sanitizedFrom} to ${to}`);
+      this.logger.log(`Incoming call from ${from} to ${to}`);
 
-      const clientIdentity = this.getAvailableClient(sanitizedFrom);
-      return TwiMLGenerator.generateIncomingCall(clientIdentity);
+      if (callSid) {
+        await this.trackActiveCall({
+          sid: callSid,
+          tenantId,
+          to,
+          from: PhoneValidator.sanitize(from, this.twilioConfig.getDefaultRegion(tenantId)),
+          type: 'phone-to-browser',
+          status: 'ringing',
+          createdAt: new Date(),
+          statusHistory: [],
+        });
+      }
+
+      const hours = this.businessHours.check(tenantId, to);
+      if (!hours.open) {
+        this.logger.log(`Call from ${from} to ${to} arrived outside business hours (${hours.schedule!.id})`);
+        return this.voicemailService.isEnabled() && callSid
+          ? this.voicemailService.startVoicemail(
+              callSid,
+              from,
+              to,
+              tenantId,
+              `${hours.closedMessage} Please leave a message after the tone.`,
+            )
+          : TwiMLGenerator.generateHangup(hours.closedMessage);
+      }
+
+      if (this.ivrService.isEnabled(tenantId)) {
+        return this.ivrService.start(tenantId).twiml;
+      }
+
+      return await this.routeIncomingCall(from, to, callSid, tenantId);
     } catch (error) {
       this.logger.error('Error generating incoming call TwiML:', error);
       return TwiMLGenerator.generateErrorResponse();
     }
   }
 
+  /**
+   * Ring an available agent, or queue the caller when nobody is free
+   */
+  async routeIncomingCall(
+    from: string,
+    to: string,
+    callSid?: string,
+    tenantId: string = DEFAULT_TENANT_ID,
+  ): Promise<string> {
+    try {
+      const sanitizedFrom = PhoneValidator.sanitize(from, this.twilioConfig.getDefaultRegion(tenantId));
+      const clientIdentity = this.getAvailableClient(tenantId, sanitizedFrom);
+
+      if (clientIdentity && callSid) {
+        await this.updateActiveCall(callSid, { identity: clientIdentity });
+        this.callEvents.emit('call.routed', callSid, {
+          tenantId,
+          identity: clientIdentity,
+          data: { from: sanitizedFrom, to },
+        });
+      }
+
+      if (!clientIdentity && callSid && this.queueService.isEnabled()) {
+        return this.queueService.enqueue(callSid, sanitizedFrom, tenantId);
+      }
+
+      return TwiMLGenerator.generateIncomingCall(clientIdentity);
+    } catch (error) {
+      this.logger.error('Error routing incoming call:', error);
+      return TwiMLGenerator.generateErrorResponse();
+    }
+  }
+
+  /**
+   * Redirect the caller at the front of the queue to an agent's browser client
+   */
+  async dequeueNextCaller(
+    identity: string,
+    baseUrl: string,
+    tenantId: string = DEFAULT_TENANT_ID,
+  ): Promise<{ success: boolean; callSid: string; identity: string }> {
+    try {
+      const webhookBaseUrl =
+        baseUrl || this.twilioConfig.getConfig(tenantId).webhookBaseUrl || 'http://localhost:3000';
+      const callSid = await this.voiceProvider.dequeueCaller(tenantId, this.queueService.getQueueName(), {
+        url: `${webhookBaseUrl}/api/v1/test-talk/queue/connect?identity=${encodeURIComponent(identity)}`,
+        method: 'POST',
+      });
+
+      if (!callSid) {
+        throw new BadRequestException('No callers are waiting in the queue');
+      }
+
+      this.queueService.markDequeued(callSid, tenantId);
+      this.presenceService.setState(identity, 'busy', tenantId);
+      await this.updateActiveCall(callSid, { identity });
+
+      this.logger.log(`Call ${callSid} dequeued to ${identity}`);
+      return { success: true, callSid, identity };
+    } catch (error) {
+      this.logger.error(`Error dequeuing caller for ${identity}:`, (error as Error).message);
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
+      throw new InternalServerErrorException(`Failed to dequeue caller: ${(error as Error).message}`);
+    }
+  }
+
   /**
    * Handle dial status callbacks
    */
-  handleDialStatus(dialStatus: { DialCallStatus: string; CallSid: string }): string {
+  handleDialStatus(dialStatus: {
+    DialCallStatus: string;
+    CallSid: string;
+    From?: string;
+    To?: string;
+    Direction?: string;
+  }, tenantId: string = DEFAULT_TENANT_ID): string {
     try {
-      const { DialCallStatus, CallSid } = dialStatus;
+      const { DialCallStatus, CallSid, From, To, Direction } = dialStatus;
       this.logger.log(`Dial status for call ${CallSid}: ${DialCallStatus}`);
+
+      // The other leg was moved into a conference (warm transfer or three-way call); follow it in
+      const conferenceJoin = this.conferenceService.takePendingJoin(CallSid);
+      if (conferenceJoin) {
+        return conferenceJoin;
+      }
+
+      this.callEvents.emit('call.dial-status', CallSid, {
+        tenantId,
+        data: { dialCallStatus: DialCallStatus },
+      });
+
+      // Unanswered inbound calls go to voicemail instead of being dropped
+      if (
+        ['no-answer', 'busy', 'failed'].includes(DialCallStatus) &&
+        Direction === 'inbound' &&
+        this.voicemailService.isEnabled()
+      ) {
+        return this.voicemailService.startVoicemail(
+          CallSid,
+          From ? PhoneValidator.sanitize(From, this.twilioConfig.getDefaultRegion(tenantId)) : 'unknown',
+          To || 'unknown',
+          tenantId,
+        );
+      }
+
       return TwiMLGenerator.generateDialStatus(DialCallStatus);
     } catch (error) {
       this.logger.error('Error handling dial status:', error);
@@ -192,31 +481,55 @@ export class TestTalkService implements OnModuleDestroy {
   /**
    * Handle call status updates from Twilio
    */
-  handleCallStatusUpdate(callStatus: CallStatus): void {
+  async handleCallStatusUpdate(callStatus: CallStatus, tenantId: string = DEFAULT_TENANT_ID): Promise<void> {
     try {
       if (!callStatus?.CallSid) {
         this.logger.error('Invalid call status payload received');
         return;
       }
 
-      const { CallSid, CallStatus: status, Duration, From, To, Direction } = callStatus;
+      const { CallSid, CallStatus: status, CallDuration, From, To, Direction } = callStatus;
+      const duration = CallDuration ? parseInt(CallDuration) : undefined;
 
-      this.updateActiveCall(CallSid, {
+      const call = await this.updateActiveCall(CallSid, {
         status,
-        duration: Duration ? parseInt(Duration) : undefined,
+        duration,
         lastUpdated: new Date(),
       });
 
+      // Browser-originated calls count towards the caller's daily minutes; an inbound call's identity is its agent
+      const caller = From?.startsWith('client:') ? From.slice('client:'.length) : undefined;
+      const identity = call ? (call.type === 'browser-to-phone' ? call.identity : undefined) : caller;
+      if (status === 'completed' && duration && identity) {
+        this.dialPolicy.recordUsage(tenantId, identity, duration);
+      }
+
+      this.callEvents.emit('call.status', CallSid, {
+        tenantId,
+        identity: call?.identity,
+        data: { status, duration, direction: Direction },
+      });
+
       this.logger.log(
         `Call ${CallSid}: ${status} - Direction: ${Direction}, From: ${From}, To: ${To}${
-          Duration ? `, Duration: ${Duration}s` : ''
+          duration !== undefined ? `, Duration: ${duration}s` : ''
         }`,
       );
 
-      // Clean up completed calls
-      if (['completed', 'busy', 'failed', 'no-answer', 'canceled'].includes(status)) {
-        this.activeCalls.delete(CallSid);
-        this.logger.log(`Call ${CallSid} removed from active calls`);
+      const lifecycleEvent = this.toLifecycleEvent(status);
+      if (lifecycleEvent) {
+        this.webhookDispatcher.dispatch(lifecycleEvent, tenantId, {
+          callSid: CallSid,
+          status,
+          duration,
+          from: From,
+          to: To,
+          direction: Direction,
+        });
+      }
+
+      if (isTerminalStatus(status)) {
+        this.logger.log(`Call ${CallSid} moved to call history`);
       }
     } catch (error) {
       this.logger.error('Error handling call status update:', error);
@@ -226,15 +539,22 @@ export class TestTalkService implements OnModuleDestroy {
   /**
    * End a specific call
    */
-  async endCall(callSid: string): Promise<boolean> {
+  async endCall(callSid: string, tenantId: string = DEFAULT_TENANT_ID): Promise<boolean> {
     try {
       if (!callSid) {
         this.logger.error('Invalid callSid provided for endCall');
         return false;
       }
 
-      await this.twilioClient.calls(callSid).update({ status: 'completed' });
-      this.activeCalls.delete(callSid);
+      const storedCall = await this.callRepository.findBySid(callSid);
+      if (storedCall && storedCall.tenantId !== tenantId) {
+        this.logger.warn(`Tenant ${tenantId} attempted to end call ${callSid} it does not own`);
+        return false;
+      }
+
+      await this.voiceProvider.updateCall(tenantId, callSid, { status: 'completed' });
+      const call = await this.updateActiveCall(callSid, { status: 'completed', lastUpdated: new Date() });
+      this.callEvents.emit('call.ended', callSid, { tenantId, identity: call?.identity });
       this.logger.log(`Call ${callSid} ended successfully`);
       return true;
     } catch (error) {
@@ -243,26 +563,62 @@ export class TestTalkService implements OnModuleDestroy {
     }
   }
 
+  /**
+   * Pause, resume or stop the recording currently running on a call
+   */
+  async controlRecording(
+    callSid: string,
+    action: 'pause' | 'resume' | 'stop',
+    tenantId: string = DEFAULT_TENANT_ID,
+  ): Promise<{ success: boolean; callSid: string; recordingSid?: string; status?: string }> {
+    const status = ({ pause: 'paused', resume: 'in-progress', stop: 'stopped' } as const)[action];
+
+    try {
+      if (!this.recordingService.isEnabled()) {
+        throw new BadRequestException('Call recording is disabled');
+      }
+
+      const recording = await this.voiceProvider.updateRecording(tenantId, callSid, status);
+
+      this.logger.log(`Recording ${recording.sid} on call ${callSid} is now ${recording.status}`);
+      return { success: true, callSid, recordingSid: recording.sid, status: recording.status };
+    } catch (error) {
+      this.logger.error(`Error trying to ${action} recording on ${callSid}:`, (error as Error).message);
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
+      return { success: false, callSid };
+    }
+  }
+
   /**
    * Get call details by SID
    */
-  async getCallDetails(callSid: string): Promise<ActiveCall | null> {
+  async getCallDetails(callSid: string, tenantId: string = DEFAULT_TENANT_ID): Promise<ActiveCall | null> {
     try {
       if (!callSid) return null;
 
-      const activeCall = this.activeCalls.get(callSid);
-      if (activeCall) return activeCall;
+      const storedCall = await this.callRepository.findBySid(callSid);
+      if (storedCall) {
+        return storedCall.tenantId === tenantId ? storedCall : null;
+      }
+
+      // Fetch from Twilio if the call was never tracked here; the subaccount scopes the lookup
+      const call = await this.voiceProvider.fetchCall(tenantId, callSid);
+      if (!call) return null;
 
-      // Fetch from Twilio if not in active calls
-      const call = await this.twilioClient.calls(callSid).fetch();
       return {
         sid: call.sid,
+        tenantId,
         to: call.to,
         from: call.from,
         status: call.status,
-        duration: call.duration ? parseInt(call.duration.toString()) : undefined,
-        type: call.direction === 'outbound-api' ? 'browser-to-phone' : 'phone-to-browser',
-        createdAt: call.dateCreated,
+        duration: call.duration,
+        type: callTypeOf(call),
+        createdAt: call.createdAt || new Date(),
+        endedAt: call.endTime,
+        statusHistory: [],
+        recordings: await this.voiceProvider.listRecordings(tenantId, callSid),
       };
     } catch (error) {
       this.logger.error(`Error fetching call details for ${callSid}:`, error);
@@ -273,18 +629,23 @@ export class TestTalkService implements OnModuleDestroy {
   /**
    * Get call statistics
    */
-  getCallStatistics(): CallStatistics {
-    const activeCalls = Array.from(this.activeCalls.values());
+  async getCallStatistics(tenantId: string = DEFAULT_TENANT_ID): Promise<CallStatistics> {
+    const calls = await this.callRepository.findAll(tenantId);
 
     const callsByStatus: Record<string, number> = {};
     const callsByType: Record<string, number> = {};
     let totalDuration = 0;
     let completedCalls = 0;
+    let activeCalls = 0;
 
-    activeCalls.forEach((call) => {
+    calls.forEach((call) => {
       callsByStatus[call.status] = (callsByStatus[call.status] || 0) + 1;
       callsByType[call.type] = (callsByType[call.type] || 0) + 1;
 
+      if (!isTerminalStatus(call.status)) {
+        activeCalls++;
+      }
+
       if (call.status === 'completed' && call.duration) {
         totalDuration += call.duration;
         completedCalls++;
@@ -292,29 +653,36 @@ export class TestTalkService implements OnModuleDestroy {
     });
 
     return {
-      totalActiveCalls: activeCalls.length,
+      tenantId,
+      totalActiveCalls: activeCalls,
+      totalFinishedCalls: calls.length - activeCalls,
       callsByStatus,
       callsByType,
       averageCallDuration: completedCalls > 0 ? totalDuration / completedCalls : 0,
+      ...this.queueService.getStatistics(tenantId),
     };
   }
 
   /**
    * Health check
    */
-  async healthCheck(): Promise<HealthCheckResult> {
+  async healthCheck(tenantId: string = DEFAULT_TENANT_ID): Promise<HealthCheckResult> {
+    const { accountSid, phoneNumber } = this.twilioConfig.getConfig(tenantId);
+
     try {
-      const { accountSid } = this.twilioConfig.getConfig();
-      const account = await this.twilioClient.api.accounts(accountSid).fetch();
+      const account = await this.voiceProvider.fetchAccount(tenantId);
+      const activeCalls = await this.callRepository.findActive(tenantId);
 
       return {
         status: 'healthy',
         details: {
+          tenantId,
           accountSid,
           accountName: account.friendlyName,
-          activeCalls: this.activeCalls.size,
+          activeCalls: activeCalls.length,
           twilioStatus: account.status,
-          phoneNumber: this.twilioConfig.getConfig().phoneNumber,
+          phoneNumber,
+          reconciliation: this.reconciliation.getLastResult(tenantId),
         },
       };
     } catch (error) {
@@ -323,8 +691,9 @@ export class TestTalkService implements OnModuleDestroy {
         status: 'unhealthy',
         details: {
           error: (error as Error).message,
-          accountSid: this.twilioConfig.getConfig().accountSid,
-          activeCalls: this.activeCalls.size,
+          tenantId,
+          accountSid,
+          reconciliation: this.reconciliation.getLastResult(tenantId),
         },
       };
     }
@@ -396,6 +765,15 @@ export class TestTalkService implements OnModuleDestroy {
             justify-content: center;
         }
         
+        .number-details {
+            text-align: center;
+            font-size: 0.85rem;
+            color: #6c757d;
+            min-height: 1.25rem;
+            margin-top: -0.75rem;
+            margin-bottom: 0.75rem;
+        }
+        
         .keypad {
             display: grid;
             grid-template-columns: repeat(3, 1fr);
@@ -471,6 +849,37 @@ export class TestTalkService implements OnModuleDestroy {
             overflow-y: auto;
         }
         
+        .voicemail-badge {
+            position: relative;
+            background: transparent;
+            border: none;
+            color: white;
+            font-size: 1.1rem;
+        }
+        
+        .voicemail-badge .badge {
+            position: absolute;
+            top: -6px;
+            right: -10px;
+            font-size: 0.65rem;
+        }
+        
+        .voicemail-item {
+            border-bottom: 1px solid #e9ecef;
+            padding: 0.5rem 0;
+            font-size: 0.85rem;
+        }
+        
+        .voicemail-item.unheard {
+            font-weight: 600;
+        }
+        
+        .voicemail-item audio {
+            width: 100%;
+            height: 32px;
+            margin-top: 0.25rem;
+        }
+        
         .incoming-call-modal {
             animation: shake 0.5s ease-in-out infinite;
         }
@@ -490,11 +899,16 @@ export class TestTalkService implements OnModuleDestroy {
                 <div id="deviceStatus">
                     <span class="status-indicator status-connecting"></span>
                     <small id="statusText">Connecting...</small>
+                    <button class="voicemail-badge ms-3" onclick="toggleVoicemails()" title="Voicemail">
+                        <i class="fas fa-voicemail"></i>
+                        <span id="voicemailCount" class="badge rounded-pill bg-danger" style="display: none;">0</span>
+                    </button>
                 </div>
             </div>
             
             <div class="phone-body">
                 <div class="number-display" id="numberDisplay">Enter number</div>
+                <div class="number-details" id="numberDetails"></div>
                 
                 <div class="keypad">
                     <button onclick="addDigit('1')">1</button>
@@ -518,6 +932,12 @@ export class TestTalkService implements OnModuleDestroy {
                     <button id="hangupBtn" class="call-btn btn-hangup" onclick="hangupCall()" style="display: none;">
                         <i class="fas fa-phone-slash"></i>
                     </button>
+                    <button id="holdBtn" class="call-btn" style="background: var(--warning-color); color: white; display: none;" onclick="toggleHold()">
+                        <i class="fas fa-pause"></i>
+                    </button>
+                    <button id="transferBtn" class="call-btn" style="background: var(--primary-color); color: white; display: none;" onclick="toggleTransfer()">
+                        <i class="fas fa-exchange-alt"></i>
+                    </button>
                     <button class="call-btn" style="background: #6c757d; color: white;" onclick="clearLastDigit()">
                         <i class="fas fa-backspace"></i>
                     </button>
@@ -526,6 +946,28 @@ export class TestTalkService implements OnModuleDestroy {
                 <div id="callInfo" class="call-info" style="display: none;">
                     <div><strong>Calling:</strong> <span id="callingNumber"></span></div>
                     <div><strong>Duration:</strong> <span id="callDuration">00:00</span></div>
+                    <div id="holdStatus" class="text-warning" style="display: none;"><strong>On hold</strong></div>
+                    <div id="muteStatus" class="text-danger" style="display: none;"><strong>Muted by supervisor</strong></div>
+                </div>
+                
+                <div id="transferPanel" class="mb-3" style="display: none;">
+                    <div><strong>Transfer or add a party</strong></div>
+                    <select id="transferIdentity" class="form-select form-select-sm mb-2"></select>
+                    <input id="transferNumber" class="form-control form-control-sm mb-2" placeholder="Or a phone number">
+                    <div id="transferActions" class="btn-group btn-group-sm w-100">
+                        <button class="btn btn-outline-primary" onclick="transferCall('cold')">Cold</button>
+                        <button class="btn btn-outline-primary" onclick="transferCall('warm')">Warm</button>
+                        <button class="btn btn-outline-success" onclick="addToCall()">Add to call</button>
+                    </div>
+                    <div id="warmTransferActions" class="btn-group btn-group-sm w-100" style="display: none;">
+                        <button class="btn btn-success" onclick="completeTransfer()">Complete</button>
+                        <button class="btn btn-outline-danger" onclick="cancelTransfer()">Cancel</button>
+                    </div>
+                </div>
+                
+                <div id="voicemailPanel" class="mb-3" style="display: none;">
+                    <div><strong>Voicemail</strong></div>
+                    <div id="voicemailList"><small class="text-muted">No messages</small></div>
                 </div>
                 
                 <div class="log-container">
@@ -570,8 +1012,15 @@ export class TestTalkService implements OnModuleDestroy {
                 this.currentConnection = null;
                 this.callTimer = null;
                 this.callStartTime = null;
+                this.onHold = false;
                 this.phoneNumber = '';
+                this.parsedNumber = null;
+                this.lookupTimer = null;
                 this.incomingCallModal = null;
+                this.identity = null;
+                this.heartbeatTimer = null;
+                this.eventSource = null;
+                this.voicemailEvents = null;
                 
                 this.init();
             }
@@ -579,14 +1028,23 @@ export class TestTalkService implements OnModuleDestroy {
             async init() {
                 this.incomingCallModal = new bootstrap.Modal(document.getElementById('incomingCallModal'));
                 await this.initializeTwilioDevice();
+                this.loadVoicemails();
+                this.subscribeToEvents();
             }
             
             async initializeTwilioDevice() {
                 try {
                     this.log('Requesting access token...');
                     
-                    const response = await fetch('./token');
+                    const response = await fetch('./token', {
+                        headers: this.getAuthHeaders(),
+                        credentials: 'same-origin',
+                    });
+                    if (!response.ok) {
+                        throw new Error('Token request failed with HTTP ' + response.status);
+                    }
                     const data = await response.json();
+                    this.identity = data.identity;
                     
                     this.log('Initializing device...');
                     
@@ -604,11 +1062,75 @@ export class TestTalkService implements OnModuleDestroy {
                 }
             }
             
+            getAuthHeaders() {
+                // The token endpoint accepts whichever credential the server is configured for
+                const headers = {};
+                const apiKey = localStorage.getItem('testTalkApiKey');
+                const bearer = localStorage.getItem('testTalkAuthToken');
+                
+                if (apiKey) headers['X-API-Key'] = apiKey;
+                if (bearer) headers['Authorization'] = 'Bearer ' + bearer;
+                return headers;
+            }
+            
+            authFetch(url, options) {
+                options = options || {};
+                return fetch(url, Object.assign({ credentials: 'same-origin' }, options, {
+                    headers: Object.assign({}, this.getAuthHeaders(), options.headers),
+                }));
+            }
+            
+            // EventSource cannot send auth headers, so the stream is read through fetch instead
+            openEventStream(url) {
+                const listeners = {};
+                const controller = new AbortController();
+                const stream = {
+                    addEventListener: (type, listener) => (listeners[type] = listeners[type] || []).push(listener),
+                    close: () => controller.abort(),
+                };
+                
+                const connect = async () => {
+                    try {
+                        const response = await this.authFetch(url, { signal: controller.signal });
+                        if (!response.ok) throw new Error('HTTP ' + response.status);
+                        
+                        const reader = response.body.getReader();
+                        const decoder = new TextDecoder();
+                        let buffer = '';
+                        for (;;) {
+                            const { value, done } = await reader.read();
+                            if (done) break;
+                            buffer += decoder.decode(value, { stream: true });
+                            
+                            const messages = buffer.split('\n\n');
+                            buffer = messages.pop();
+                            messages.forEach((message) => {
+                                let type = 'message';
+                                const data = [];
+                                message.split('\n').forEach((line) => {
+                                    if (line.startsWith('event:')) type = line.slice(6).trim();
+                                    if (line.startsWith('data:')) data.push(line.slice(5).trim());
+                                });
+                                (listeners[type] || []).forEach((listener) => listener({ data: data.join('\n') }));
+                            });
+                        }
+                    } catch (error) {
+                        if (controller.signal.aborted) return;
+                        this.log('Event stream interrupted: ' + error.message);
+                    }
+                    // Reconnect like EventSource does
+                    if (!controller.signal.aborted) setTimeout(connect, 5000);
+                };
+                connect();
+                return stream;
+            }
+            
             setupDeviceEventListeners() {
                 this.device.on('ready', () => {
                     this.log('Device ready!');
                     this.updateStatus('ready', 'Ready');
                     document.getElementById('callBtn').disabled = false;
+                    this.startHeartbeat();
                 });
                 
                 this.device.on('error', (error) => {
@@ -621,6 +1143,7 @@ export class TestTalkService implements OnModuleDestroy {
                     this.currentConnection = conn;
                     this.showCallControls(true);
                     this.startCallTimer();
+                    this.sendHeartbeat('busy');
                 });
                 
                 this.device.on('disconnect', () => {
@@ -629,6 +1152,7 @@ export class TestTalkService implements OnModuleDestroy {
                     this.showCallControls(false);
                     this.stopCallTimer();
                     this.incomingCallModal.hide();
+                    this.sendHeartbeat('available');
                 });
                 
                 this.device.on('incoming', (conn) => {
@@ -638,6 +1162,254 @@ export class TestTalkService implements OnModuleDestroy {
                 });
             }
             
+            startHeartbeat() {
+                this.sendHeartbeat('available');
+                this.heartbeatTimer = setInterval(() => {
+                    this.sendHeartbeat(this.currentConnection ? 'busy' : 'available');
+                }, 20000);
+            }
+            
+            sendHeartbeat(state) {
+                if (!this.identity) return;
+                
+                this.authFetch('./presence/heartbeat', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ state }),
+                    // Lets the offline heartbeat finish while the page unloads
+                    keepalive: true,
+                }).catch((error) => this.log('Heartbeat failed: ' + error.message));
+            }
+            
+            goOffline() {
+                if (this.heartbeatTimer) {
+                    clearInterval(this.heartbeatTimer);
+                }
+                this.sendHeartbeat('offline');
+            }
+            
+            subscribeToEvents() {
+                const query = this.identity ? '?identity=' + encodeURIComponent(this.identity) : '';
+                this.eventSource = this.openEventStream('./events' + query);
+                
+                this.eventSource.addEventListener('call.routed', (event) => {
+                    const data = JSON.parse(event.data);
+                    this.log('Routing call ' + data.callSid + ' to you');
+                });
+                
+                // Hold and mute can also be changed by a supervisor through the API
+                this.eventSource.addEventListener('call.held', () => this.setHeld(true));
+                this.eventSource.addEventListener('call.resumed', () => this.setHeld(false));
+                this.eventSource.addEventListener('call.muted', (event) => {
+                    const data = JSON.parse(event.data).data;
+                    if (this.currentConnection && data.mutedCallSid === this.currentConnection.parameters.CallSid) {
+                        document.getElementById('muteStatus').style.display = data.muted ? 'block' : 'none';
+                        this.log(data.muted ? 'You have been muted' : 'You have been unmuted');
+                    }
+                });
+                
+                // Voicemail is not tied to an identity, so it has its own unfiltered stream
+                this.voicemailEvents = this.openEventStream('./events');
+                this.voicemailEvents.addEventListener('voicemail.created', () => {
+                    this.log('New voicemail received');
+                    this.loadVoicemails();
+                });
+            }
+            
+            async loadVoicemails() {
+                try {
+                    const response = await this.authFetch('./voicemails');
+                    const data = await response.json();
+                    this.renderVoicemails(data.voicemails, data.unheard);
+                } catch (error) {
+                    this.log('Error loading voicemail: ' + error.message);
+                }
+            }
+            
+            renderVoicemails(voicemails, unheard) {
+                const count = document.getElementById('voicemailCount');
+                count.textContent = unheard;
+                count.style.display = unheard > 0 ? 'inline-block' : 'none';
+                
+                const list = document.getElementById('voicemailList');
+                if (voicemails.length === 0) {
+                    list.innerHTML = '<small class="text-muted">No messages</small>';
+                    return;
+                }
+                
+                list.innerHTML = '';
+                voicemails.forEach((voicemail) => {
+                    const item = document.createElement('div');
+                    item.className = 'voicemail-item' + (voicemail.heard ? '' : ' unheard');
+                    
+                    const header = document.createElement('div');
+                    header.textContent = voicemail.from + ' - ' + new Date(voicemail.createdAt).toLocaleString() +
+                        ' (' + voicemail.duration + 's)';
+                    item.appendChild(header);
+                    
+                    if (voicemail.transcription) {
+                        const transcript = document.createElement('div');
+                        transcript.className = 'text-muted fst-italic';
+                        transcript.textContent = voicemail.transcription;
+                        item.appendChild(transcript);
+                    }
+                    
+                    // Audio needs the auth headers, so it is fetched rather than linked
+                    const audio = document.createElement('audio');
+                    const play = document.createElement('button');
+                    play.className = 'btn btn-sm btn-outline-primary';
+                    play.textContent = 'Play';
+                    play.addEventListener('click', async () => {
+                        const response = await this.authFetch('./voicemails/' + encodeURIComponent(voicemail.sid) + '/audio');
+                        audio.src = URL.createObjectURL(await response.blob());
+                        audio.controls = true;
+                        play.remove();
+                        audio.play();
+                        this.markVoicemailHeard(voicemail);
+                    });
+                    item.appendChild(play);
+                    item.appendChild(audio);
+                    
+                    list.appendChild(item);
+                });
+            }
+            
+            async markVoicemailHeard(voicemail) {
+                if (voicemail.heard) return;
+                
+                voicemail.heard = true;
+                await this.authFetch('./voicemails/' + encodeURIComponent(voicemail.sid) + '/heard', { method: 'POST' });
+                this.loadVoicemails();
+            }
+            
+            toggleVoicemails() {
+                const panel = document.getElementById('voicemailPanel');
+                panel.style.display = panel.style.display === 'none' ? 'block' : 'none';
+            }
+            
+            async toggleTransfer() {
+                const panel = document.getElementById('transferPanel');
+                const opening = panel.style.display === 'none';
+                panel.style.display = opening ? 'block' : 'none';
+                if (opening) await this.loadTransferTargets();
+            }
+            
+            async loadTransferTargets() {
+                const select = document.getElementById('transferIdentity');
+                select.innerHTML = '<option value="">Choose an agent</option>';
+                
+                try {
+                    const response = await this.authFetch('./presence');
+                    const data = await response.json();
+                    
+                    data.clients
+                        .filter(client => client.state === 'available' && client.identity !== this.identity)
+                        .forEach(client => {
+                            const option = document.createElement('option');
+                            option.value = 'client:' + client.identity;
+                            option.textContent = client.identity;
+                            select.appendChild(option);
+                        });
+                } catch (error) {
+                    this.log('Failed to load agents: ' + error.message);
+                }
+            }
+            
+            async toggleHold() {
+                const action = this.onHold ? 'resume' : 'hold';
+                if (await this.callAction(action)) {
+                    this.setHeld(action === 'hold');
+                }
+            }
+            
+            setHeld(held) {
+                if (this.onHold === held) return;
+                
+                this.onHold = held;
+                document.getElementById('holdStatus').style.display = held ? 'block' : 'none';
+                document.getElementById('holdBtn').innerHTML = '<i class="fas fa-' + (held ? 'play' : 'pause') + '"></i>';
+                this.log(held ? 'Caller placed on hold' : 'Caller resumed');
+            }
+            
+            getTransferTarget() {
+                const to = document.getElementById('transferNumber').value.trim() ||
+                    document.getElementById('transferIdentity').value;
+                if (!to) alert('Choose an agent or enter a phone number');
+                return to;
+            }
+            
+            async transferCall(type) {
+                const to = this.getTransferTarget();
+                if (!to) return;
+                
+                const result = await this.callAction('transfer', { type, to });
+                if (!result) return;
+                
+                if (type === 'warm') {
+                    this.log('Consulting ' + result.target + ' before transferring');
+                    document.getElementById('transferActions').style.display = 'none';
+                    document.getElementById('warmTransferActions').style.display = 'flex';
+                } else {
+                    this.log('Call transferred to ' + result.target);
+                    this.resetTransfer();
+                }
+            }
+            
+            async addToCall() {
+                const to = this.getTransferTarget();
+                if (!to) return;
+                
+                const result = await this.callAction('conference', { to });
+                if (result) {
+                    this.log('Added ' + to + ' to the call');
+                    this.resetTransfer();
+                }
+            }
+            
+            async completeTransfer() {
+                if (await this.callAction('transfer/complete')) {
+                    this.log('Transfer completed');
+                    this.resetTransfer();
+                }
+            }
+            
+            async cancelTransfer() {
+                if (await this.callAction('transfer/cancel')) {
+                    this.log('Transfer cancelled');
+                    this.resetTransfer();
+                }
+            }
+            
+            resetTransfer() {
+                document.getElementById('transferPanel').style.display = 'none';
+                document.getElementById('transferActions').style.display = 'flex';
+                document.getElementById('warmTransferActions').style.display = 'none';
+                document.getElementById('transferNumber').value = '';
+            }
+            
+            async callAction(action, body) {
+                if (!this.currentConnection) return null;
+                
+                const callSid = this.currentConnection.parameters.CallSid;
+                try {
+                    const response = await fetch('./calls/' + encodeURIComponent(callSid) + '/' + action, {
+                        method: 'POST',
+                        headers: Object.assign({ 'Content-Type': 'application/json' }, this.getAuthHeaders()),
+                        body: JSON.stringify(body || {})
+                    });
+                    const result = await response.json();
+                    
+                    if (!response.ok) {
+                        this.log('Call ' + action + ' failed: ' + result.message);
+                        return null;
+                    }
+                    return result;
+                } catch (error) {
+                    this.log('Call ' + action + ' failed: ' + error.message);
+                    return null;
+                }
+            }
+            
             addDigit(digit) {
                 this.phoneNumber += digit;
                 this.updateDisplay();
@@ -651,6 +1423,34 @@ export class TestTalkService implements OnModuleDestroy {
             updateDisplay() {
                 const display = document.getElementById('numberDisplay');
                 display.textContent = this.phoneNumber || 'Enter number';
+                document.getElementById('numberDetails').textContent = '';
+                this.parsedNumber = null;
+
+                clearTimeout(this.lookupTimer);
+                if (this.phoneNumber.length >= 4) {
+                    this.lookupTimer = setTimeout(() => this.lookupNumber(this.phoneNumber), 300);
+                }
+            }
+
+            // The server parses numbers the same way the dialer will, using the tenant's default region
+            async lookupNumber(number) {
+                try {
+                    const response = await fetch('./phone-numbers/lookup?number=' + encodeURIComponent(number));
+                    const result = await response.json();
+                    if (number !== this.phoneNumber) return;
+
+                    const details = document.getElementById('numberDetails');
+                    if (!response.ok) {
+                        details.textContent = result.message;
+                        return;
+                    }
+
+                    this.parsedNumber = result;
+                    document.getElementById('numberDisplay').textContent = result.internationalFormat;
+                    details.textContent = result.kind + (result.country ? ' · ' + result.country : '');
+                } catch (error) {
+                    console.error('Number lookup failed:', error);
+                }
             }
             
             makeCall() {
@@ -665,10 +1465,13 @@ export class TestTalkService implements OnModuleDestroy {
                 }
                 
                 try {
-                    this.log('Calling ' + this.phoneNumber + '...');
-                    document.getElementById('callingNumber').textContent = this.phoneNumber;
+                    const display = this.parsedNumber ? this.parsedNumber.internationalFormat : this.phoneNumber;
+                    this.log('Calling ' + display + '...');
+                    document.getElementById('callingNumber').textContent = display;
                     
-                    this.currentConnection = this.device.connect({ To: this.phoneNumber });
+                    this.currentConnection = this.device.connect({
+                        To: this.parsedNumber ? this.parsedNumber.e164 : this.phoneNumber,
+                    });
                     
                 } catch (error) {
                     this.log('Error making call: ' + error.message);
@@ -706,16 +1509,25 @@ export class TestTalkService implements OnModuleDestroy {
             showCallControls(inCall) {
                 const callBtn = document.getElementById('callBtn');
                 const hangupBtn = document.getElementById('hangupBtn');
+                const holdBtn = document.getElementById('holdBtn');
+                const transferBtn = document.getElementById('transferBtn');
                 const callInfo = document.getElementById('callInfo');
                 
                 if (inCall) {
                     callBtn.style.display = 'none';
                     hangupBtn.style.display = 'inline-block';
+                    holdBtn.style.display = 'inline-block';
+                    transferBtn.style.display = 'inline-block';
                     callInfo.style.display = 'block';
                 } else {
                     callBtn.style.display = 'inline-block';
                     hangupBtn.style.display = 'none';
+                    holdBtn.style.display = 'none';
+                    transferBtn.style.display = 'none';
                     callInfo.style.display = 'none';
+                    document.getElementById('muteStatus').style.display = 'none';
+                    this.setHeld(false);
+                    this.resetTransfer();
                 }
             }
             
@@ -769,12 +1581,24 @@ export class TestTalkService implements OnModuleDestroy {
         function hangupCall() { phone.hangupCall(); }
         function acceptCall() { phone.acceptCall(); }
         function rejectCall() { phone.rejectCall(); }
+        function toggleVoicemails() { phone.toggleVoicemails(); }
+        function toggleHold() { phone.toggleHold(); }
+        function toggleTransfer() { phone.toggleTransfer(); }
+        function transferCall(type) { phone.transferCall(type); }
+        function completeTransfer() { phone.completeTransfer(); }
+        function cancelTransfer() { phone.cancelTransfer(); }
+        function addToCall() { phone.addToCall(); }
         
         // Cleanup on page unload
         window.addEventListener('beforeunload', () => {
             if (phone && phone.device) {
                 phone.device.disconnectAll();
             }
+            if (phone) {
+                phone.goOffline();
+                if (phone.eventSource) phone.eventSource.close();
+                if (phone.voicemailEvents) phone.voicemailEvents.close();
+            }
         });
     </script>
 </body>
@@ -782,16 +1606,72 @@ export class TestTalkService implements OnModuleDestroy {
   }
 
   // Public getters
-  getActiveCalls(): ActiveCall[] {
-    return Array.from(this.activeCalls.values());
+  getActiveCalls(tenantId?: string): Promise<ActiveCall[]> {
+    return this.callRepository.findActive(tenantId);
+  }
+
+  /**
+   * Page through finished calls, newest first
+   */
+  async getCallHistory(query: CallHistoryQueryDto, tenantId: string = DEFAULT_TENANT_ID): Promise<CallHistoryPage> {
+    const limit = query.limit ?? 25;
+    const cursor = query.cursor ? decodeHistoryCursor(query.cursor) : undefined;
+
+    if (cursor === null) {
+      throw new BadRequestException('Invalid history cursor');
+    }
+
+    const startDate = query.startDate ? new Date(query.startDate) : undefined;
+    const endDate = query.endDate ? new Date(query.endDate) : undefined;
+
+    if (startDate && endDate && startDate > endDate) {
+      throw new BadRequestException('startDate must be before endDate');
+    }
+
+    if (
+      query.minDuration !== undefined &&
+      query.maxDuration !== undefined &&
+      query.minDuration > query.maxDuration
+    ) {
+      throw new BadRequestException('minDuration must not exceed maxDuration');
+    }
+
+    // Fetch one extra row to learn whether another page exists
+    const calls = await this.callRepository.findHistory({
+      tenantId,
+      cursor,
+      limit: limit + 1,
+      startDate,
+      endDate,
+      direction: query.direction,
+      status: query.status,
+      phoneNumber: query.phoneNumber
+        ? PhoneValidator.sanitize(query.phoneNumber, this.twilioConfig.getDefaultRegion(tenantId))
+        : undefined,
+      minDuration: query.minDuration,
+      maxDuration: query.maxDuration,
+    });
+
+    const hasMore = calls.length > limit;
+    const page = calls.slice(0, limit);
+
+    return {
+      calls: page,
+      pagination: {
+        limit,
+        hasMore,
+        nextCursor: hasMore ? encodeHistoryCursor(page[page.length - 1]) : null,
+      },
+    };
   }
 
-  getCallsByStatus(status: string): ActiveCall[] {
-    return this.getActiveCalls().filter(call => call.status === status);
+  async getCallsByStatus(status: string, tenantId?: string): Promise<ActiveCall[]> {
+    const calls = await this.callRepository.findAll(tenantId);
+    return calls.filter(call => call.status === status);
   }
 
-  getOldestActiveCall(): ActiveCall | null {
-    const calls = this.getActiveCalls();
+  async getOldestActiveCall(tenantId?: string): Promise<ActiveCall | null> {
+    const calls = await this.getActiveCalls(tenantId);
     if (calls.length === 0) return null;
 
     return calls.reduce((oldest, current) =>
@@ -799,47 +1679,146 @@ export class TestTalkService implements OnModuleDestroy {
     );
   }
 
-  getPhoneNumber(): string {
-    return this.twilioConfig.getConfig().phoneNumber;
+  getPhoneNumber(tenantId?: string): string {
+    return this.twilioConfig.getConfig(tenantId).phoneNumber;
+  }
+
+  /**
+   * Parse a number the way the dialer would, for display and validation in the browser
+   */
+  lookupPhoneNumber(phoneNumber: string, tenantId: string = DEFAULT_TENANT_ID, region?: string): PhoneNumberInfo {
+    return this.parsePhoneNumber(phoneNumber, tenantId, region);
   }
 
   // Private helper methods
-  private validateCallParameters(to: string, from: string): void {
-    if (!to || !from) {
-      throw new BadRequestException('Both to and from parameters are required');
+  private parsePhoneNumber(phoneNumber: string, tenantId: string, region?: string): PhoneNumberInfo {
+    if (region && !PhoneValidator.isRegion(region)) {
+      throw new BadRequestException(`Unknown region: ${region}`);
     }
-  }
 
-  private trackActiveCall(callSid: string, callData: ActiveCall): void {
-    this.activeCalls.set(callSid, callData);
+    const { number, error } = PhoneValidator.parse(
+      phoneNumber,
+      region || this.twilioConfig.getDefaultRegion(tenantId),
+    );
+
+    if (!number) {
+      throw new BadRequestException(`Invalid phone number ${phoneNumber}: ${error}`);
+    }
+    return number;
   }
 
-  private updateActiveCall(callSid: string, updates: Partial<ActiveCall>): void {
-    const existingCall = this.activeCalls.get(callSid);
-    if (existingCall) {
-      this.activeCalls.set(callSid, { ...existingCall, ...updates });
+  private validateCallParameters(to: string): void {
+    if (!to) {
+      throw new BadRequestException('Destination phone number is required');
     }
   }
 
-  private getAvailableClient(from?: string): string | null {
-    // Simple implementation - in production, implement proper routing logic
-    return 'user';
+  // A call placed with POST call has been answered by the customer, so the agent's browser client rings next
+  private async connectApiCall(callSid: string | undefined, tenantId: string, record: boolean): Promise<string> {
+    const call = callSid ? await this.callRepository.findBySid(callSid) : null;
+    if (!call || call.tenantId !== tenantId || !call.identity) {
+      this.logger.warn(`No agent to connect call ${callSid} to`);
+      return TwiMLGenerator.generateErrorResponse('Sorry, this call could not be connected.');
+    }
+
+    this.logger.log(`Customer answered call ${call.sid}, ringing ${call.identity}`);
+    return TwiMLGenerator.generateAgentConnect(call.identity, {
+      record: this.recordingService.shouldRecord(record),
+      consentMessage: this.recordingService.getConsentAnnouncement(),
+    });
   }
 
-  private cleanup(): void {
-    try {
-      this.logger.log('Cleaning up TestTalkService...');
-      
-      if (this.cleanupInterval) {
-        clearInterval(this.cleanupInterval);
+  // The agent's leg is created first; the connect webhook dials the customer once it is answered
+  private async placeClickToCall(
+    makeCallDto: MakeCallDto,
+    bridge: { customer: string; callerId: string; timeLimit?: number },
+    webhookBaseUrl: string,
+    tenantId: string,
+    identity?: string,
+  ): Promise<{ success: boolean; call: ActiveCall }> {
+    const { agentNumber, whisper, record = false, region } = makeCallDto;
+    if (!agentNumber && !identity) {
+      throw new BadRequestException('agentNumber is required when the caller has no client identity');
+    }
+
+    const agent = agentNumber ? this.parsePhoneNumber(agentNumber, tenantId, region).e164 : `client:${identity}`;
+    // A phone agent leg is a second PSTN call, so it must pass the same destination rules as the customer
+    if (agentNumber) {
+      const decision = this.dialPolicy.authorize(tenantId, agent, identity, region);
+      if (!decision.allowed) {
+        throw new ForbiddenException(decision.message);
       }
-      
-      this.activeCalls.clear();
-      this.rateLimiter.clear();
-      
-      this.logger.log('TestTalkService cleanup completed');
-    } catch (error) {
-      this.logger.error('Error during cleanup:', error);
     }
+    const call = await this.voiceProvider.createCall(tenantId, {
+      url: `${webhookBaseUrl}/api/v1/test-talk/click-to-call/connect`,
+      to: agent,
+      from: bridge.callerId,
+      statusCallback: `${webhookBaseUrl}/api/v1/test-talk/call-status`,
+      statusCallbackEvent: ['initiated', 'ringing', 'answered', 'completed'],
+      method: 'POST',
+    });
+    // The customer leg is authorized now and dialed later, but counts once the agent leg is placed
+    this.dialPolicy.recordAttempt(tenantId, bridge.customer, identity);
+
+    const tracked = await this.trackActiveCall({
+      sid: call.sid,
+      tenantId,
+      to: bridge.customer,
+      from: bridge.callerId,
+      type: 'browser-to-phone',
+      identity,
+      status: 'initiated',
+      createdAt: new Date(),
+      statusHistory: [],
+      bridge: {
+        agent,
+        customer: bridge.customer,
+        whisper: whisper || 'Connecting your call.',
+        record,
+        timeLimit: bridge.timeLimit,
+      },
+    });
+
+    this.webhookDispatcher.dispatch('call.started', tenantId, {
+      callSid: call.sid,
+      to: bridge.customer,
+      from: bridge.callerId,
+      type: 'browser-to-phone',
+      mode: 'click-to-call',
+      agent,
+    });
+
+    this.logger.log(`Click-to-call ${call.sid}: ringing ${agent} before dialing ${bridge.customer}`);
+    return { success: true, call: tracked };
+  }
+
+  private async trackActiveCall(callData: ActiveCall): Promise<ActiveCall> {
+    const call = await this.callRepository.create(callData);
+    this.callEvents.emit('call.created', call.sid, { tenantId: call.tenantId, call });
+    return call;
+  }
+
+  private async updateActiveCall(callSid: string, updates: Partial<ActiveCall>): Promise<ActiveCall | null> {
+    const call = await this.callRepository.update(callSid, updates);
+    if (call) {
+      this.callEvents.emit('call.updated', callSid, { tenantId: call.tenantId, call });
+    }
+    return call;
+  }
+
+  private getTokenPolicy(role: string): TokenPolicy {
+    const policies = this.configService.get<Record<string, TokenPolicy>>('auth.tokenPolicies') || {};
+    return policies[role] || policies.default || { ttl: 3600, incomingAllow: true, outgoingAllow: true };
+  }
+
+  private toLifecycleEvent(status: string): LifecycleEventType | null {
+    if (status === 'in-progress') return 'call.answered';
+    if (status === 'completed') return 'call.ended';
+    if (isTerminalStatus(status)) return 'call.failed';
+    return null;
+  }
+
+  private getAvailableClient(tenantId: string = DEFAULT_TENANT_ID, from?: string): string | null {
+    return this.presenceService.selectAgent(from, tenantId);
   }
 }
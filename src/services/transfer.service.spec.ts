@@ -0,0 +1,101 @@
+import { ConfigService } from '@nestjs/config';
+import { DEFAULT_TENANT_ID, TwilioConfigService } from '../config/twilio.config';
+import { InMemoryCallRepository } from '../repositories/in-memory-call.repository';
+import { RemoteCall } from '../types';
+import { FakeVoiceProvider } from '../voice/fake-voice.provider';
+import { CallControlService } from './call-control.service';
+import { CallEventsService } from './call-events.service';
+import { ConferenceService } from './conference.service';
+import { DialPolicyService } from './dial-policy.service';
+import { NumberPoolService } from './number-pool.service';
+import { TransferService } from './transfer.service';
+
+const tenantId = DEFAULT_TENANT_ID;
+
+describe('TransferService', () => {
+  let voiceProvider: FakeVoiceProvider;
+  let conferenceService: ConferenceService;
+  let callControl: CallControlService;
+  let service: TransferService;
+  // The fake never dials child legs itself, so the legs each <Dial> would have bridged are listed here
+  let bridged: Map<string, RemoteCall>;
+
+  beforeEach(() => {
+    const configService = new ConfigService({
+      twilio: {
+        accountSid: `AC${'0'.repeat(32)}`,
+        apiKey: `SK${'0'.repeat(32)}`,
+        apiSecret: 'test-api-secret',
+        twimlAppSid: `AP${'0'.repeat(32)}`,
+        phoneNumber: '+15005550006',
+        webhookBaseUrl: 'https://voice.example.com',
+        validateWebhookSignature: false,
+      },
+    });
+    const twilioConfig = new TwilioConfigService(configService);
+    const callRepository = new InMemoryCallRepository();
+    const callEvents = new CallEventsService();
+    const dialPolicy = new DialPolicyService(configService, twilioConfig);
+
+    voiceProvider = new FakeVoiceProvider(twilioConfig, { autoProgress: false });
+    conferenceService = new ConferenceService(
+      configService,
+      twilioConfig,
+      voiceProvider,
+      callRepository,
+      new NumberPoolService(configService, twilioConfig, voiceProvider),
+      dialPolicy,
+      callEvents,
+    );
+    callControl = new CallControlService(callRepository, conferenceService, callEvents);
+    service = new TransferService(voiceProvider, conferenceService, callEvents, dialPolicy, twilioConfig);
+
+    bridged = new Map();
+    jest.spyOn(voiceProvider, 'listCalls').mockImplementation(async (_, filter) => {
+      const child = filter.parentCallSid && bridged.get(filter.parentCallSid);
+      return child ? [child] : [];
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  // An inbound caller on the parent leg bridged to the given child leg
+  async function connect(customer: RemoteCall, to: string): Promise<RemoteCall> {
+    const child = await voiceProvider.createCall(tenantId, { to, from: customer.from, url: '/voice' });
+    voiceProvider.progress(child.sid, 'in-progress');
+    bridged.set(customer.sid, { ...child, status: 'in-progress', parentCallSid: customer.sid });
+    return child;
+  }
+
+  it('gives the cold transfer dial an absolute dial action', async () => {
+    const customer = await voiceProvider.createCall(tenantId, { to: '+15005550006', from: '+14155550123', url: '/' });
+    await connect(customer, 'client:alice');
+    const updateCall = jest.spyOn(voiceProvider, 'updateCall');
+
+    await service.transfer(customer.sid, { type: 'cold', to: '+14155550199' }, tenantId, 'alice');
+
+    expect(updateCall).toHaveBeenCalledWith(tenantId, customer.sid, {
+      twiml: expect.stringContaining('action="https://voice.example.com/api/v1/test-talk/dial-status"'),
+    });
+  });
+
+  it('lets a cold transferred call be put on hold', async () => {
+    const customer = await voiceProvider.createCall(tenantId, { to: '+15005550006', from: '+14155550123', url: '/' });
+    await connect(customer, 'client:alice');
+    await service.transfer(customer.sid, { type: 'cold', to: '+14155550199' }, tenantId, 'alice');
+    const target = await connect(customer, '+14155550199');
+    const updateCall = jest.spyOn(voiceProvider, 'updateCall');
+
+    const result = await callControl.hold(tenantId, customer.sid);
+
+    // Redirecting the target ends the customer's <Dial>, whose action then joins the customer to the conference
+    const conferenceName = `call-${customer.sid}`;
+    expect(result).toEqual({ callSid: customer.sid, status: 'on-hold' });
+    expect(updateCall).toHaveBeenCalledWith(tenantId, target.sid, {
+      twiml: expect.stringContaining(`>${conferenceName}</Conference>`),
+    });
+    expect(conferenceService.takePendingJoin(customer.sid)).toContain(`>${conferenceName}</Conference>`);
+  });
+});
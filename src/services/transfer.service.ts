@@ -0,0 +1,173 @@
+import {
+  BadRequestException,
+  HttpException,
+  Inject,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { TwilioConfigService } from '../config/twilio.config';
+import { TransferCallDto } from '../dto/transfer-call.dto';
+import { TwiMLGenerator } from '../twiml/generator';
+import { TransferResult, WarmTransfer } from '../types';
+import { VOICE_PROVIDER, VoiceProvider } from '../voice/voice-provider';
+import { CallEventsService } from './call-events.service';
+import { ConferenceService } from './conference.service';
+import { DialPolicyService } from './dial-policy.service';
+
+@Injectable()
+export class TransferService {
+  private readonly logger = new Logger(TransferService.name);
+  // Indexed by both the agent and the customer leg
+  private readonly warmTransfers = new Map<string, WarmTransfer>();
+
+  constructor(
+    @Inject(VOICE_PROVIDER) private readonly voiceProvider: VoiceProvider,
+    private readonly conferenceService: ConferenceService,
+    private readonly callEvents: CallEventsService,
+    private readonly dialPolicy: DialPolicyService,
+    private readonly twilioConfig: TwilioConfigService,
+  ) {}
+
+  /**
+   * Cold transfers hand the customer straight to the target; warm transfers bridge everyone in a conference first
+   */
+  async transfer(
+    callSid: string,
+    transferDto: TransferCallDto,
+    tenantId: string,
+    identity?: string,
+  ): Promise<TransferResult> {
+    const legs = await this.conferenceService.resolveLegs(tenantId, callSid);
+    const { target, callerId } = this.conferenceService.resolveDialTarget(
+      tenantId,
+      transferDto.to,
+      legs.customerNumber,
+      identity,
+    );
+
+    if (transferDto.type === 'cold') {
+      // The dial action lets a later hold or conference move the customer once the target answers
+      const baseUrl = this.twilioConfig.getConfig(tenantId).webhookBaseUrl.replace(/\/+$/, '');
+
+      try {
+        await this.voiceProvider.updateCall(tenantId, legs.customer.sid, {
+          twiml: TwiMLGenerator.generateTransfer(target, callerId, {
+            ...(baseUrl && { action: `${baseUrl}/api/v1/test-talk/dial-status` }),
+          }),
+        });
+      } catch (error) {
+        throw this.toHttpException('transfer', callSid, error);
+      }
+      this.dialPolicy.recordAttempt(tenantId, target, identity);
+
+      this.logger.log(`Cold transferred call ${legs.customer.sid} to ${target}`);
+      this.callEvents.emit('call.transferred', legs.customer.sid, {
+        tenantId,
+        identity,
+        data: { type: 'cold', target },
+      });
+      return { type: 'cold', callSid: legs.customer.sid, target };
+    }
+
+    if (this.warmTransfers.has(legs.customer.sid)) {
+      throw new BadRequestException('A transfer is already in progress for this call');
+    }
+
+    const conferenceName = `transfer-${legs.customer.sid}`;
+    await this.conferenceService.moveToConference(tenantId, legs, conferenceName, identity);
+    const participant = await this.conferenceService.dial(tenantId, conferenceName, target, callerId, { identity });
+
+    const warmTransfer: WarmTransfer = {
+      conferenceName,
+      tenantId,
+      agentCallSid: legs.agent.sid,
+      customerCallSid: legs.customer.sid,
+      targetCallSid: participant.callSid,
+      target,
+      startedAt: new Date(),
+    };
+    this.warmTransfers.set(legs.agent.sid, warmTransfer);
+    this.warmTransfers.set(legs.customer.sid, warmTransfer);
+
+    this.logger.log(`Started warm transfer of call ${legs.customer.sid} to ${target} in ${conferenceName}`);
+    return {
+      type: 'warm',
+      callSid: legs.customer.sid,
+      target,
+      conferenceName,
+      targetCallSid: participant.callSid,
+    };
+  }
+
+  /**
+   * Drop the original agent, leaving the customer with the transfer target
+   */
+  async completeWarmTransfer(callSid: string, tenantId: string): Promise<TransferResult> {
+    const warmTransfer = this.getWarmTransfer(callSid, tenantId);
+
+    await this.conferenceService.removeParticipant(tenantId, warmTransfer.conferenceName, warmTransfer.agentCallSid);
+
+    this.forget(warmTransfer);
+    this.logger.log(`Completed warm transfer of call ${warmTransfer.customerCallSid} to ${warmTransfer.target}`);
+    this.callEvents.emit('call.transferred', warmTransfer.customerCallSid, {
+      tenantId,
+      data: { type: 'warm', target: warmTransfer.target },
+    });
+
+    return {
+      type: 'warm',
+      callSid: warmTransfer.customerCallSid,
+      target: warmTransfer.target,
+      conferenceName: warmTransfer.conferenceName,
+      targetCallSid: warmTransfer.targetCallSid,
+    };
+  }
+
+  /**
+   * Hang up on the transfer target, leaving the agent and customer talking
+   */
+  async cancelWarmTransfer(callSid: string, tenantId: string): Promise<void> {
+    const warmTransfer = this.getWarmTransfer(callSid, tenantId);
+
+    try {
+      await this.voiceProvider.updateCall(tenantId, warmTransfer.targetCallSid, { status: 'completed' });
+    } catch (error) {
+      throw this.toHttpException('cancel transfer of', callSid, error);
+    }
+
+    this.forget(warmTransfer);
+    this.logger.log(`Cancelled warm transfer of call ${warmTransfer.customerCallSid}`);
+  }
+
+  getWarmTransfers(tenantId: string): WarmTransfer[] {
+    return Array.from(new Set(this.warmTransfers.values())).filter(
+      (warmTransfer) => warmTransfer.tenantId === tenantId,
+    );
+  }
+
+  private getWarmTransfer(callSid: string, tenantId: string): WarmTransfer {
+    const warmTransfer = this.warmTransfers.get(callSid);
+    if (!warmTransfer || warmTransfer.tenantId !== tenantId) {
+      throw new NotFoundException('No warm transfer in progress for this call');
+    }
+    return warmTransfer;
+  }
+
+  private forget(warmTransfer: WarmTransfer): void {
+    this.warmTransfers.delete(warmTransfer.agentCallSid);
+    this.warmTransfers.delete(warmTransfer.customerCallSid);
+  }
+
+  private toHttpException(action: string, callSid: string, error: unknown): HttpException {
+    if (error instanceof HttpException) {
+      return error;
+    }
+    if ((error as { status?: number }).status === 404) {
+      return new NotFoundException('Call not found');
+    }
+    this.logger.error(`Failed to ${action} call ${callSid}:`, error);
+    return new InternalServerErrorException(`Failed to ${action} call: ${(error as Error).message}`);
+  }
+}
@@ -0,0 +1,194 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DEFAULT_TENANT_ID, TwilioConfigService } from '../config/twilio.config';
+import { TwiMLGenerator } from '../twiml/generator';
+import { Voicemail, VoicemailConfig } from '../types';
+import { CallEventsService } from './call-events.service';
+
+// Only Twilio's own API is trusted with the tenant's credentials when fetching recordings
+const RECORDING_HOST = 'api.twilio.com';
+// How long after the greeting a recording may still be reported before the caller is forgotten
+const PENDING_GRACE_MS = 10 * 60 * 1000;
+
+@Injectable()
+export class VoicemailService {
+  private readonly logger = new Logger(VoicemailService.name);
+  private readonly config: VoicemailConfig;
+  private readonly voicemails = new Map<string, Voicemail>();
+  private readonly pendingCallers = new Map<string, { from: string; to: string; tenantId: string; startedAt: Date }>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly twilioConfig: TwilioConfigService,
+    private readonly callEvents: CallEventsService,
+  ) {
+    this.config = {
+      enabled: this.configService.get<boolean>('voicemail.enabled') ?? true,
+      greeting:
+        this.configService.get<string>('voicemail.greeting') ||
+        'Sorry, no one is available to take your call. Please leave a message after the tone.',
+      maxLength: this.configService.get<number>('voicemail.maxLength') || 120,
+      transcribe: this.configService.get<boolean>('voicemail.transcribe') ?? false,
+    };
+  }
+
+  isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  /**
+   * TwiML that plays the greeting, or one given for the occasion, and records a message for this call
+   */
+  startVoicemail(
+    callSid: string,
+    from: string,
+    to: string,
+    tenantId: string = DEFAULT_TENANT_ID,
+    greeting?: string,
+  ): string {
+    this.prunePendingCallers();
+    this.pendingCallers.set(callSid, { from, to, tenantId, startedAt: new Date() });
+    this.logger.log(`Recording voicemail for call ${callSid} from ${from}`);
+    return TwiMLGenerator.generateVoicemailPrompt({ ...this.config, greeting: greeting || this.config.greeting });
+  }
+
+  completeVoicemail(): string {
+    return TwiMLGenerator.generateVoicemailComplete();
+  }
+
+  /**
+   * Store the recording once Twilio reports it is available
+   */
+  handleRecordingStatus(payload: {
+    CallSid: string;
+    RecordingSid: string;
+    RecordingUrl: string;
+    RecordingStatus: string;
+    RecordingDuration?: string;
+  }): void {
+    const { CallSid, RecordingSid, RecordingUrl, RecordingStatus, RecordingDuration } = payload;
+
+    if (RecordingStatus !== 'completed') {
+      this.logger.warn(`Voicemail recording ${RecordingSid} for ${CallSid}: ${RecordingStatus}`);
+      // Absent and failed recordings are final, so no completed one will follow
+      if (RecordingStatus !== 'in-progress') {
+        this.pendingCallers.delete(CallSid);
+      }
+      return;
+    }
+
+    const caller = this.pendingCallers.get(CallSid);
+    this.pendingCallers.delete(CallSid);
+
+    this.voicemails.set(RecordingSid, {
+      sid: RecordingSid,
+      callSid: CallSid,
+      tenantId: caller?.tenantId || DEFAULT_TENANT_ID,
+      from: caller?.from || 'unknown',
+      to: caller?.to || 'unknown',
+      recordingUrl: RecordingUrl,
+      duration: RecordingDuration ? parseInt(RecordingDuration) : 0,
+      transcriptionStatus: this.config.transcribe ? 'in-progress' : undefined,
+      heard: false,
+      createdAt: new Date(),
+    });
+
+    this.callEvents.emit('voicemail.created', CallSid, {
+      tenantId: caller?.tenantId || DEFAULT_TENANT_ID,
+      data: { voicemailSid: RecordingSid, from: caller?.from },
+    });
+    this.logger.log(`Voicemail ${RecordingSid} stored for call ${CallSid}`);
+  }
+
+  handleTranscription(payload: {
+    RecordingSid: string;
+    TranscriptionText?: string;
+    TranscriptionStatus: string;
+  }): void {
+    const voicemail = this.voicemails.get(payload.RecordingSid);
+    if (!voicemail) {
+      this.logger.warn(`Transcription received for unknown voicemail ${payload.RecordingSid}`);
+      return;
+    }
+
+    voicemail.transcription = payload.TranscriptionText;
+    voicemail.transcriptionStatus = payload.TranscriptionStatus;
+  }
+
+  getVoicemails(tenantId?: string, heard?: boolean): Voicemail[] {
+    return Array.from(this.voicemails.values())
+      .filter((voicemail) => !tenantId || voicemail.tenantId === tenantId)
+      .filter((voicemail) => heard === undefined || voicemail.heard === heard)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  getVoicemail(sid: string, tenantId?: string): Voicemail {
+    const voicemail = this.voicemails.get(sid);
+    if (!voicemail || (tenantId && voicemail.tenantId !== tenantId)) {
+      throw new NotFoundException('Voicemail not found');
+    }
+    return voicemail;
+  }
+
+  markHeard(sid: string, tenantId?: string): Voicemail {
+    const voicemail = this.getVoicemail(sid, tenantId);
+    if (!voicemail.heard) {
+      voicemail.heard = true;
+      voicemail.heardAt = new Date();
+    }
+    return voicemail;
+  }
+
+  getUnheardCount(tenantId?: string): number {
+    return this.getVoicemails(tenantId, false).length;
+  }
+
+  /**
+   * Download the recording audio, which Twilio only serves to authenticated requests
+   */
+  async fetchAudio(sid: string, tenantId?: string): Promise<{ body: Buffer; contentType: string }> {
+    const voicemail = this.getVoicemail(sid, tenantId);
+    const { apiKey, apiSecret } = this.twilioConfig.getCredentialsForToken(voicemail.tenantId);
+
+    // The URL came in a webhook body, so never send credentials anywhere but Twilio
+    if (!this.isTwilioRecordingUrl(voicemail.recordingUrl)) {
+      this.logger.error(`Refusing to fetch voicemail audio ${sid} from ${voicemail.recordingUrl}`);
+      throw new NotFoundException('Voicemail audio unavailable');
+    }
+
+    const response = await fetch(`${voicemail.recordingUrl}.mp3`, {
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${apiKey}:${apiSecret}`).toString('base64')}`,
+      },
+    });
+
+    if (!response.ok) {
+      this.logger.error(`Failed to fetch voicemail audio ${sid}: ${response.status}`);
+      throw new NotFoundException('Voicemail audio unavailable');
+    }
+
+    return {
+      body: Buffer.from(await response.arrayBuffer()),
+      contentType: response.headers.get('content-type') || 'audio/mpeg',
+    };
+  }
+
+  private isTwilioRecordingUrl(recordingUrl: string): boolean {
+    try {
+      const url = new URL(recordingUrl);
+      return url.protocol === 'https:' && url.host === RECORDING_HOST && !url.username && !url.password;
+    } catch {
+      return false;
+    }
+  }
+
+  // Callers who hung up before recording anything never get a recording status callback
+  private prunePendingCallers(): void {
+    const cutoff = Date.now() - this.config.maxLength * 1000 - PENDING_GRACE_MS;
+    this.pendingCallers.forEach((caller, callSid) => {
+      if (caller.startedAt.getTime() < cutoff) {
+        this.pendingCallers.delete(callSid);
+      }
+    });
+  }
+}
@@ -0,0 +1,145 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac } from 'crypto';
+import { DEFAULT_TENANT_ID } from '../config/twilio.config';
+import { WebhookDispatcherService } from './webhook-dispatcher.service';
+
+const tenantId = DEFAULT_TENANT_ID;
+const secret = 'subscriber-secret';
+
+describe('WebhookDispatcherService', () => {
+  let fetchMock: jest.SpyInstance;
+  let service: WebhookDispatcherService;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-03-02T12:00:00Z') });
+    jest.spyOn(Logger.prototype, 'log').mockImplementation();
+    jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+    jest.spyOn(Logger.prototype, 'error').mockImplementation();
+    fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(new Response(null, { status: 200 }));
+
+    service = new WebhookDispatcherService(
+      new ConfigService({
+        webhooks: {
+          subscribers: [
+            { url: 'https://hooks.example.com/calls', secret },
+            { url: 'https://hooks.example.com/ended', events: ['call.ended'], secret },
+            { url: 'https://globex.example.com/calls', tenantId: 'globex', secret },
+          ],
+          maxAttempts: 4,
+          baseDelayMs: 1000,
+        },
+      }),
+    );
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  function sentTo(url: string) {
+    return fetchMock.mock.calls.filter(([target]) => target === url);
+  }
+
+  it('signs each delivery with an HMAC of the timestamp and body', async () => {
+    service.dispatch('call.started', tenantId, { callSid: 'CA123' });
+    await jest.advanceTimersByTimeAsync(0);
+
+    const [[url, request]] = sentTo('https://hooks.example.com/calls');
+    const { headers, body } = request as { headers: Record<string, string>; body: string };
+    const timestamp = String(Math.floor(Date.parse('2026-03-02T12:00:00Z') / 1000));
+
+    expect(url).toBe('https://hooks.example.com/calls');
+    expect(headers).toMatchObject({
+      'Content-Type': 'application/json',
+      'X-TestTalk-Event': 'call.started',
+      'X-TestTalk-Delivery': expect.any(String),
+      'X-TestTalk-Timestamp': timestamp,
+      'X-TestTalk-Signature': `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`,
+    });
+    expect(JSON.parse(body)).toEqual({
+      type: 'call.started',
+      occurredAt: '2026-03-02T12:00:00.000Z',
+      data: { tenantId, callSid: 'CA123' },
+    });
+  });
+
+  it('only sends events to subscribers of that tenant that asked for them', async () => {
+    service.dispatch('call.started', tenantId, { callSid: 'CA123' });
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual(['https://hooks.example.com/calls']);
+  });
+
+  it('retries failed deliveries with exponential backoff', async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 503 }));
+
+    service.dispatch('call.started', tenantId, { callSid: 'CA123' });
+    await jest.advanceTimersByTimeAsync(0);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    // 1s, then 2s, then 4s after each failure
+    await jest.advanceTimersByTimeAsync(999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+
+    await jest.advanceTimersByTimeAsync(4000);
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it('keeps the same delivery ID across retries', async () => {
+    fetchMock.mockRejectedValueOnce(new Error('connect ECONNREFUSED'));
+
+    service.dispatch('call.started', tenantId, { callSid: 'CA123' });
+    await jest.advanceTimersByTimeAsync(1000);
+
+    const ids = fetchMock.mock.calls.map(([, request]) => request.headers['X-TestTalk-Delivery']);
+    expect(ids).toHaveLength(2);
+    expect(ids[1]).toBe(ids[0]);
+    expect(service.getDeadLetters(tenantId)).toEqual([]);
+  });
+
+  it('moves a delivery to the dead letters after its last attempt', async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 500 }));
+
+    service.dispatch('call.started', tenantId, { callSid: 'CA123' });
+    await jest.advanceTimersByTimeAsync(1000 + 2000 + 4000);
+
+    expect(service.getDeadLetters(tenantId)).toEqual([
+      expect.objectContaining({
+        tenantId,
+        subscriberUrl: 'https://hooks.example.com/calls',
+        type: 'call.started',
+        attempts: 4,
+        lastError: 'Subscriber responded with HTTP 500',
+      }),
+    ]);
+    expect(service.getDeadLetters('globex')).toEqual([]);
+
+    // Nothing is scheduled once the delivery is dead-lettered
+    await jest.advanceTimersByTimeAsync(60000);
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it('replays a dead letter with a fresh retry budget', async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 500 }));
+    service.dispatch('call.started', tenantId, { callSid: 'CA123' });
+    await jest.advanceTimersByTimeAsync(7000);
+    const [deadLetter] = service.getDeadLetters(tenantId);
+
+    fetchMock.mockResolvedValue(new Response(null, { status: 200 }));
+    const replayed = await service.replay(tenantId, deadLetter.id);
+
+    expect(replayed).toMatchObject({ id: deadLetter.id, attempts: 1, lastError: undefined });
+    expect(service.getDeadLetters(tenantId)).toEqual([]);
+    await expect(service.replay('globex', deadLetter.id)).rejects.toThrow('Dead-lettered delivery not found');
+  });
+});
@@ -0,0 +1,154 @@
+import { Injectable, Logger, NotFoundException, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac, randomUUID } from 'crypto';
+import { DEFAULT_TENANT_ID } from '../config/twilio.config';
+import {
+  LifecycleEventType,
+  WebhookDelivery,
+  WebhookSubscriber,
+} from '../types';
+
+@Injectable()
+export class WebhookDispatcherService implements OnModuleDestroy {
+  private readonly logger = new Logger(WebhookDispatcherService.name);
+  private readonly subscribers: WebhookSubscriber[];
+  private readonly maxAttempts: number;
+  private readonly baseDelayMs: number;
+  private readonly timeoutMs: number;
+  private readonly deadLetters = new Map<string, WebhookDelivery>();
+  private readonly retryTimers = new Set<NodeJS.Timeout>();
+
+  constructor(private readonly configService: ConfigService) {
+    const configured =
+      this.configService.get<Array<Omit<WebhookSubscriber, 'tenantId'> & { tenantId?: string }>>(
+        'webhooks.subscribers',
+      ) || [];
+    // Subscribers only hear about their own tenant's calls, the default tenant's unless they name one
+    this.subscribers = configured.map((subscriber) => ({
+      ...subscriber,
+      tenantId: subscriber.tenantId || DEFAULT_TENANT_ID,
+    }));
+    this.maxAttempts = this.configService.get<number>('webhooks.maxAttempts') || 5;
+    this.baseDelayMs = this.configService.get<number>('webhooks.baseDelayMs') || 1000;
+    this.timeoutMs = this.configService.get<number>('webhooks.timeoutMs') || 5000;
+
+    this.subscribers
+      .filter((subscriber) => !subscriber.secret)
+      .forEach((subscriber) => this.logger.warn(`Webhook subscriber ${subscriber.url} has no signing secret`));
+    this.logger.log(`Loaded ${this.subscribers.length} webhook subscribers`);
+  }
+
+  onModuleDestroy() {
+    this.retryTimers.forEach((timer) => clearTimeout(timer));
+    this.retryTimers.clear();
+  }
+
+  /**
+   * Fan a lifecycle event out to every subscriber of the tenant interested in it
+   */
+  dispatch(type: LifecycleEventType, tenantId: string, payload: Record<string, unknown>): void {
+    const occurredAt = new Date().toISOString();
+
+    this.subscribers
+      .filter((subscriber) => subscriber.tenantId === tenantId)
+      .filter((subscriber) => !subscriber.events?.length || subscriber.events.includes(type))
+      .forEach((subscriber) => {
+        const delivery: WebhookDelivery = {
+          id: randomUUID(),
+          tenantId,
+          subscriberUrl: subscriber.url,
+          type,
+          body: JSON.stringify({ type, occurredAt, data: { tenantId, ...payload } }),
+          attempts: 0,
+          createdAt: new Date(),
+        };
+
+        void this.attempt(delivery, subscriber);
+      });
+  }
+
+  getSubscribers(tenantId: string): Array<Omit<WebhookSubscriber, 'secret'>> {
+    return this.subscribers
+      .filter((subscriber) => subscriber.tenantId === tenantId)
+      .map(({ url, tenantId, events }) => ({ url, tenantId, events }));
+  }
+
+  getDeadLetters(tenantId: string): WebhookDelivery[] {
+    return Array.from(this.deadLetters.values()).filter((delivery) => delivery.tenantId === tenantId);
+  }
+
+  /**
+   * Re-send one of the tenant's dead-lettered deliveries with a fresh retry budget
+   */
+  async replay(tenantId: string, deliveryId: string): Promise<WebhookDelivery> {
+    const delivery = this.deadLetters.get(deliveryId);
+    if (!delivery || delivery.tenantId !== tenantId) {
+      throw new NotFoundException('Dead-lettered delivery not found');
+    }
+
+    const subscriber = this.subscribers.find(
+      (s) => s.url === delivery.subscriberUrl && s.tenantId === delivery.tenantId,
+    );
+    if (!subscriber) {
+      throw new NotFoundException('Subscriber is no longer configured');
+    }
+
+    this.deadLetters.delete(deliveryId);
+    const replayed = { ...delivery, attempts: 0, lastError: undefined };
+    await this.attempt(replayed, subscriber);
+    return replayed;
+  }
+
+  private async attempt(delivery: WebhookDelivery, subscriber: WebhookSubscriber): Promise<void> {
+    delivery.attempts++;
+    delivery.lastAttemptAt = new Date();
+
+    try {
+      await this.send(delivery, subscriber);
+      this.logger.log(`Delivered ${delivery.type} to ${subscriber.url} (attempt ${delivery.attempts})`);
+    } catch (error) {
+      delivery.lastError = (error as Error).message;
+
+      if (delivery.attempts >= this.maxAttempts) {
+        this.deadLetters.set(delivery.id, delivery);
+        this.logger.error(`Dead-lettered ${delivery.type} for ${subscriber.url}: ${delivery.lastError}`);
+        return;
+      }
+
+      const delay = this.baseDelayMs * 2 ** (delivery.attempts - 1);
+      this.logger.warn(
+        `Delivery of ${delivery.type} to ${subscriber.url} failed, retrying in ${delay}ms: ${delivery.lastError}`,
+      );
+
+      const timer = setTimeout(() => {
+        this.retryTimers.delete(timer);
+        void this.attempt(delivery, subscriber);
+      }, delay);
+      this.retryTimers.add(timer);
+    }
+  }
+
+  private async send(delivery: WebhookDelivery, subscriber: WebhookSubscriber): Promise<void> {
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const signature = createHmac('sha256', subscriber.secret)
+      .update(`${timestamp}.${delivery.body}`)
+      .digest('hex');
+
+    const response = await fetch(subscriber.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-TestTalk-Event': delivery.type,
+        'X-TestTalk-Delivery': delivery.id,
+        'X-TestTalk-Timestamp': timestamp,
+        'X-TestTalk-Signature': `sha256=${signature}`,
+      },
+      body: delivery.body,
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Subscriber responded with HTTP ${response.status}`);
+    }
+  }
+}
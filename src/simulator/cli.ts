@@ -0,0 +1,126 @@
+import { readdirSync, statSync } from 'fs';
+import { extname, join } from 'path';
+import { SimulatorResult, SimulatorScenario } from '../types';
+import { loadScenario, validateScenario } from './scenario';
+import { CallSimulator, CallSimulatorOptions } from './simulator';
+
+const SCENARIO_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+const USAGE = `Usage: npm run simulate -- [options] <scenario file or directory>...
+
+Options:
+  --base-url <url>      Where the service is listening (default: http://localhost:3000)
+  --public-url <url>    Base URL the service verifies signatures against (default: TWILIO_WEBHOOK_BASE_URL)
+  --account-sid <sid>   Account the webhooks come from (default: TWILIO_ACCOUNT_SID)
+  --auth-token <token>  Auth token that signs the webhooks (default: TWILIO_AUTH_TOKEN)
+  --api-key <key>       X-API-Key for API calls (default: SIMULATOR_API_KEY)
+  --tenant <id>         X-Tenant-Id for every request
+  --phone-number <e164> Number inbound calls are placed to (default: TWILIO_PHONE_NUMBER)
+  --verbose             Print the TwiML returned at each step`;
+
+function parseArgs(argv: string[]): { options: CallSimulatorOptions; paths: string[]; verbose: boolean } {
+  const flags: Record<string, string> = {};
+  const paths: string[] = [];
+  let verbose = false;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--help' || arg === '-h') {
+      console.log(USAGE);
+      process.exit(0);
+    } else if (arg === '--verbose') {
+      verbose = true;
+    } else if (arg.startsWith('--')) {
+      const [name, inline] = arg.slice(2).split(/=(.*)/s);
+      const value = inline ?? argv[++i];
+      if (value === undefined) {
+        throw new Error(`--${name} needs a value`);
+      }
+      flags[name] = value;
+    } else {
+      paths.push(arg);
+    }
+  }
+
+  const known = ['base-url', 'public-url', 'account-sid', 'auth-token', 'api-key', 'tenant', 'phone-number'];
+  const unknown = Object.keys(flags).filter((name) => !known.includes(name));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown option --${unknown[0]}`);
+  }
+
+  const options: CallSimulatorOptions = {
+    baseUrl: flags['base-url'] || process.env.SIMULATOR_BASE_URL || 'http://localhost:3000',
+    publicUrl: flags['public-url'] || process.env.TWILIO_WEBHOOK_BASE_URL || undefined,
+    accountSid: flags['account-sid'] || process.env.TWILIO_ACCOUNT_SID || `AC${'0'.repeat(32)}`,
+    // With TWILIO_VALIDATE_WEBHOOKS=false any token will do
+    authToken: flags['auth-token'] || process.env.TWILIO_AUTH_TOKEN || 'simulator',
+    apiKey: flags['api-key'] || process.env.SIMULATOR_API_KEY,
+    tenantId: flags.tenant,
+    phoneNumber: flags['phone-number'] || process.env.TWILIO_PHONE_NUMBER,
+  };
+  return { options, paths, verbose };
+}
+
+/**
+ * Scenario files named directly, plus every scenario file in the directories named
+ */
+function collectScenarioFiles(paths: string[]): string[] {
+  return paths.flatMap((path) =>
+    statSync(path).isDirectory()
+      ? readdirSync(path)
+          .filter((name) => SCENARIO_EXTENSIONS.includes(extname(name).toLowerCase()))
+          .sort()
+          .map((name) => join(path, name))
+      : [path],
+  );
+}
+
+function report(result: SimulatorResult, verbose: boolean) {
+  console.log(`${result.passed ? 'PASS' : 'FAIL'} ${result.scenario} (${result.callSid}, ${result.durationMs}ms)`);
+
+  for (const step of result.steps) {
+    console.log(`  ${step.passed ? '✓' : '✗'} ${step.step}. ${step.description}`);
+    step.failures.forEach((failure) => console.log(`      ${failure}`));
+    if (verbose && step.twiml) {
+      console.log(`      ${step.twiml}`);
+    }
+  }
+}
+
+async function main() {
+  let parsed: ReturnType<typeof parseArgs>;
+  let scenarios: Array<{ file: string; scenario: SimulatorScenario }>;
+
+  try {
+    parsed = parseArgs(process.argv.slice(2));
+    if (parsed.paths.length === 0) {
+      throw new Error('No scenarios given');
+    }
+
+    scenarios = collectScenarioFiles(parsed.paths).map((file) => ({ file, scenario: loadScenario(file) }));
+    const invalid = scenarios.flatMap(({ file, scenario }) =>
+      validateScenario(scenario).map((error) => `${file}: ${error}`),
+    );
+    if (invalid.length > 0) {
+      throw new Error(`Invalid scenarios:\n  ${invalid.join('\n  ')}`);
+    }
+  } catch (error) {
+    console.error((error as Error).message);
+    console.error(`\n${USAGE}`);
+    process.exit(2);
+  }
+
+  const simulator = new CallSimulator(parsed.options);
+  let failed = 0;
+
+  for (const { scenario } of scenarios) {
+    const result = await simulator.run(scenario);
+    report(result, parsed.verbose);
+    if (!result.passed) failed++;
+  }
+
+  console.log(`\n${scenarios.length - failed} passed, ${failed} failed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
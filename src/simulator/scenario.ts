@@ -0,0 +1,73 @@
+import { loadDataFile } from '../business-hours/business-hours';
+import { SimulatorScenario, SimulatorStep } from '../types';
+
+const STEP_KINDS = ['webhook', 'follow', 'status', 'api', 'calls', 'wait'] as const;
+
+export type SimulatorStepKind = (typeof STEP_KINDS)[number];
+
+/**
+ * Read a scenario from a .json, .yaml or .yml file
+ */
+export function loadScenario(path: string): SimulatorScenario {
+  return loadDataFile<SimulatorScenario>(path);
+}
+
+/**
+ * Which kind of step this is, from the one action key it carries
+ */
+export function stepKind(step: SimulatorStep): SimulatorStepKind {
+  return STEP_KINDS.find((kind) => kind in step)!;
+}
+
+/**
+ * Every problem with the scenario, so a bad file can be fixed in one pass
+ */
+export function validateScenario(scenario: SimulatorScenario): string[] {
+  if (!scenario || typeof scenario !== 'object' || !Array.isArray(scenario.steps)) {
+    return ['scenario must have a steps list'];
+  }
+
+  const errors: string[] = [];
+  if (!scenario.name) {
+    errors.push('scenario needs a name');
+  }
+
+  scenario.steps.forEach((step, index) => {
+    const label = `step ${index + 1}`;
+    const kinds = STEP_KINDS.filter((kind) => step && kind in step);
+
+    if (kinds.length !== 1) {
+      errors.push(`${label}: must have exactly one of ${STEP_KINDS.join(', ')}`);
+      return;
+    }
+
+    switch (kinds[0]) {
+      case 'webhook':
+      case 'follow':
+      case 'status':
+        if (!(step as Record<string, unknown>)[kinds[0]]) errors.push(`${label}: ${kinds[0]} cannot be empty`);
+        break;
+      case 'api': {
+        const { api } = step as Extract<SimulatorStep, { api: unknown }>;
+        if (!api?.path) errors.push(`${label}: api needs a path`);
+        break;
+      }
+      case 'calls': {
+        const { calls } = step as Extract<SimulatorStep, { calls: unknown }>;
+        if (typeof calls?.active !== 'boolean') errors.push(`${label}: calls needs active: true or false`);
+        break;
+      }
+      case 'wait': {
+        const { wait } = step as Extract<SimulatorStep, { wait: unknown }>;
+        if (typeof wait !== 'number' || wait < 0) errors.push(`${label}: wait must be a number of milliseconds`);
+        break;
+      }
+    }
+
+    const { expect } = step;
+    if (expect?.twiml && !Array.isArray(expect.twiml)) errors.push(`${label}: expect.twiml must be a list`);
+    if (expect?.notTwiml && !Array.isArray(expect.notTwiml)) errors.push(`${label}: expect.notTwiml must be a list`);
+  });
+
+  return errors;
+}
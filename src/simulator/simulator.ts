@@ -0,0 +1,356 @@
+import { randomBytes } from 'crypto';
+import * as twilio from 'twilio';
+import {
+  SimulatorExpectation,
+  SimulatorResult,
+  SimulatorScenario,
+  SimulatorStep,
+  SimulatorStepResult,
+  TwimlNode,
+} from '../types';
+import { stepKind } from './scenario';
+import { findAllTwiml, findTwiml, parseTwiml } from '../twiml/parser';
+
+const API_PREFIX = '/api/v1/test-talk';
+
+export interface CallSimulatorOptions {
+  // Where the service is listening
+  baseUrl: string;
+  // The base URL the service verifies signatures against (TWILIO_WEBHOOK_BASE_URL), when it differs
+  publicUrl?: string;
+  accountSid: string;
+  authToken: string;
+  // Sent as X-API-Key on api and calls steps
+  apiKey?: string;
+  tenantId?: string;
+  // Number inbound scenarios call unless they name one
+  phoneNumber?: string;
+}
+
+interface HttpResult {
+  url: string;
+  status: number;
+  body: unknown;
+  text: string;
+  twiml?: TwimlNode;
+}
+
+interface RunState {
+  vars: Record<string, string>;
+  // The TwiML the last webhook returned, and the URL it came from for resolving relative actions
+  twiml?: TwimlNode;
+  twimlUrl?: string;
+}
+
+/**
+ * Plays Twilio's side of a call against a running service: posts signed webhooks, reads the TwiML
+ * that comes back, follows its action URLs and checks the resulting call state through the API.
+ */
+export class CallSimulator {
+  constructor(private readonly options: CallSimulatorOptions) {}
+
+  async run(scenario: SimulatorScenario): Promise<SimulatorResult> {
+    const startedAt = Date.now();
+    const state: RunState = {
+      vars: {
+        callSid: scenario.call?.callSid || randomSid('CA'),
+        // For the other leg of a <Dial> and for recordings
+        dialCallSid: randomSid('CA'),
+        recordingSid: randomSid('RE'),
+        accountSid: this.options.accountSid,
+        phoneNumber: this.options.phoneNumber || '',
+        from: scenario.call?.from || '+14155550100',
+        to: scenario.call?.to || this.options.phoneNumber || '',
+        direction: scenario.call?.direction || 'inbound',
+        callStatus: 'ringing',
+      },
+    };
+    // Call details may refer to the variables above, e.g. to: "{{phoneNumber}}"
+    state.vars.from = this.render(state.vars.from, state.vars) as string;
+    state.vars.to = this.render(state.vars.to, state.vars) as string;
+
+    const steps: SimulatorStepResult[] = [];
+    for (const [index, step] of scenario.steps.entries()) {
+      const result = await this.runStep(index + 1, step, state);
+      steps.push(result);
+      // Later steps depend on earlier ones, so the first failure ends the scenario
+      if (!result.passed) {
+        break;
+      }
+    }
+
+    return {
+      scenario: scenario.name,
+      callSid: state.vars.callSid,
+      passed: steps.length === scenario.steps.length && steps.every((step) => step.passed),
+      durationMs: Date.now() - startedAt,
+      steps,
+    };
+  }
+
+  private async runStep(number: number, step: SimulatorStep, state: RunState): Promise<SimulatorStepResult> {
+    const result: SimulatorStepResult = { step: number, description: stepKind(step), passed: false, failures: [] };
+
+    try {
+      const response = await this.perform(step, state, result);
+      if (response) {
+        const expect = step.expect && (this.render(step.expect, state.vars) as SimulatorExpectation);
+        result.failures.push(...this.check(response, expect));
+        if (response.twiml) {
+          result.twiml = response.text;
+        }
+      }
+    } catch (error) {
+      result.failures.push((error as Error).message);
+    }
+
+    result.passed = result.failures.length === 0;
+    return result;
+  }
+
+  private async perform(step: SimulatorStep, state: RunState, result: SimulatorStepResult): Promise<HttpResult | void> {
+    const params = (step.params && this.render(step.params, state.vars)) as Record<string, string> | undefined;
+
+    if ('webhook' in step) {
+      const path = this.render(step.webhook, state.vars) as string;
+      result.description = `webhook ${path}`;
+      return this.webhook(`${API_PREFIX}/${path.replace(/^\/+/, '')}`, 'POST', params, state);
+    }
+
+    if ('follow' in step) {
+      const { url, method } = this.resolveFollow(step.follow, state);
+      result.description = `follow ${step.follow} -> ${method} ${url.pathname}`;
+      return this.webhook(url.pathname + url.search, method, params, state);
+    }
+
+    if ('status' in step) {
+      state.vars.callStatus = step.status;
+      result.description = `status ${step.status}`;
+      return this.webhook(`${API_PREFIX}/call-status`, 'POST', params, state);
+    }
+
+    if ('api' in step) {
+      const method = step.api.method || 'GET';
+      const path = this.render(step.api.path, state.vars) as string;
+      result.description = `api ${method} ${path}`;
+
+      const response = await this.api(method, path, step.api.body && this.render(step.api.body, state.vars));
+      for (const [name, source] of Object.entries(step.save || {})) {
+        const value = readPath(response.body, source);
+        if (value === undefined) {
+          throw new Error(`Response has no ${source} to save as ${name}`);
+        }
+        state.vars[name] = String(value);
+      }
+      return response;
+    }
+
+    if ('calls' in step) {
+      result.description = `calls ${step.calls.active ? 'active' : 'not active'}`;
+      result.failures.push(...(await this.checkCalls(step.calls, state.vars.callSid)));
+      return;
+    }
+
+    result.description = `wait ${step.wait}ms`;
+    await new Promise((resolve) => setTimeout(resolve, step.wait));
+  }
+
+  /**
+   * The URL and method Twilio would request next for a verb, e.g. "Dial" for its action or
+   * "Record@recordingStatusCallback" for another callback attribute
+   */
+  private resolveFollow(target: string, state: RunState): { url: URL; method: string } {
+    if (!state.twiml || !state.twimlUrl) {
+      throw new Error(`Nothing to follow: no TwiML has been returned yet`);
+    }
+
+    const [verb, attribute = verb === 'Redirect' ? '#text' : 'action'] = target.split('@');
+    const node = findAllTwiml(state.twiml, verb)[0];
+    if (!node) {
+      throw new Error(`The last TwiML has no <${verb}> to follow`);
+    }
+
+    const href = attribute === '#text' ? node.text : node.attributes[attribute];
+    if (!href) {
+      throw new Error(`<${verb}> has no ${attribute === '#text' ? 'URL' : attribute} to follow`);
+    }
+
+    const methodAttribute = attribute === 'action' || attribute === '#text' ? 'method' : `${attribute}Method`;
+    return {
+      url: new URL(href, state.twimlUrl),
+      method: (node.attributes[methodAttribute] || 'POST').toUpperCase(),
+    };
+  }
+
+  private async webhook(
+    path: string,
+    method: string,
+    extra: Record<string, string> | undefined,
+    state: RunState,
+  ): Promise<HttpResult> {
+    const { vars } = state;
+    const params: Record<string, string> = {
+      AccountSid: vars.accountSid,
+      ApiVersion: '2010-04-01',
+      CallSid: vars.callSid,
+      CallStatus: vars.callStatus,
+      Direction: vars.direction,
+      From: vars.from,
+      Caller: vars.from,
+      To: vars.to,
+      Called: vars.to,
+      ...extra,
+    };
+
+    // Twilio signs GET requests over the full URL and POST requests over the URL plus the form fields
+    const query = method === 'GET' ? `${path.includes('?') ? '&' : '?'}${new URLSearchParams(params)}` : '';
+    const publicUrl = `${(this.options.publicUrl || this.options.baseUrl).replace(/\/+$/, '')}${path}${query}`;
+    const signature = twilio.getExpectedTwilioSignature(
+      this.options.authToken,
+      publicUrl,
+      method === 'GET' ? {} : params,
+    );
+
+    const response = await this.request(`${path}${query}`, {
+      method,
+      headers: {
+        'X-Twilio-Signature': signature,
+        ...(method !== 'GET' && { 'Content-Type': 'application/x-www-form-urlencoded' }),
+      },
+      ...(method !== 'GET' && { body: new URLSearchParams(params) }),
+    });
+
+    if (response.twiml) {
+      state.twiml = response.twiml;
+      state.twimlUrl = response.url;
+    }
+    return response;
+  }
+
+  private api(method: string, path: string, body?: unknown): Promise<HttpResult> {
+    return this.request(`${API_PREFIX}/${path.replace(/^\/+/, '')}`, {
+      method,
+      headers: {
+        ...(this.options.apiKey && { 'X-API-Key': this.options.apiKey }),
+        ...(body !== undefined && { 'Content-Type': 'application/json' }),
+      },
+      ...(body !== undefined && { body: JSON.stringify(body) }),
+    });
+  }
+
+  private async request(path: string, init: RequestInit): Promise<HttpResult> {
+    const url = `${this.options.baseUrl.replace(/\/+$/, '')}${path}`;
+    const response = await fetch(url, {
+      ...init,
+      headers: { ...(this.options.tenantId && { 'X-Tenant-Id': this.options.tenantId }), ...init.headers },
+    });
+    const text = await response.text();
+    const contentType = response.headers.get('content-type') || '';
+
+    const result: HttpResult = { url, status: response.status, body: undefined, text };
+    if (contentType.includes('xml')) {
+      try {
+        result.twiml = parseTwiml(text);
+      } catch (error) {
+        throw new Error(`Invalid TwiML from ${path}: ${(error as Error).message}`);
+      }
+    } else if (contentType.includes('json') && text) {
+      result.body = JSON.parse(text);
+    }
+    return result;
+  }
+
+  private check(response: HttpResult, expect: SimulatorExpectation = {}): string[] {
+    const failures: string[] = [];
+    const ok = expect.status ? response.status === expect.status : response.status >= 200 && response.status < 300;
+
+    if (!ok) {
+      failures.push(`Expected HTTP ${expect.status ?? '2xx'}, got ${response.status}: ${response.text.slice(0, 200)}`);
+    }
+
+    if (expect.twiml || expect.notTwiml || expect.say) {
+      if (!response.twiml) {
+        return [...failures, 'Expected TwiML, got no XML response'];
+      }
+      for (const path of expect.twiml || []) {
+        if (findTwiml(response.twiml, path).length === 0) failures.push(`TwiML has no ${path}`);
+      }
+      for (const path of expect.notTwiml || []) {
+        if (findTwiml(response.twiml, path).length > 0) failures.push(`TwiML should not have ${path}`);
+      }
+      const said = findAllTwiml(response.twiml, 'Say').map((say) => say.text);
+      if (expect.say && !said.some((text) => text.includes(expect.say!))) {
+        failures.push(`No <Say> contains "${expect.say}" (said: ${said.map((text) => `"${text}"`).join(', ')})`);
+      }
+    }
+
+    for (const [path, expected] of Object.entries(expect.body || {})) {
+      const actual = readPath(response.body, path);
+      if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+        failures.push(`Expected ${path} to be ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+      }
+    }
+    return failures;
+  }
+
+  /**
+   * Whether the call is listed by GET calls, and its stored status either way
+   */
+  private async checkCalls(expected: { active: boolean; status?: string }, callSid: string): Promise<string[]> {
+    const response = await this.api('GET', 'calls');
+    if (response.status !== 200) {
+      return [`GET calls returned HTTP ${response.status}`];
+    }
+
+    const calls = (readPath(response.body, 'calls') as Array<{ sid: string; status: string }>) || [];
+    const call = calls.find((candidate) => candidate.sid === callSid);
+
+    if (expected.active !== !!call) {
+      return [`Expected call ${callSid} to be ${expected.active ? '' : 'no longer '}active`];
+    }
+    if (!expected.status) {
+      return [];
+    }
+
+    let status = call?.status;
+    if (!call) {
+      const details = await this.api('GET', `calls/${callSid}`);
+      if (details.status !== 200) {
+        return [`GET calls/${callSid} returned HTTP ${details.status}`];
+      }
+      status = readPath(details.body, 'status') as string;
+    }
+    return status === expected.status ? [] : [`Expected call ${callSid} to be ${expected.status}, got ${status}`];
+  }
+
+  /**
+   * Replace {{name}} placeholders in every string of a value
+   */
+  private render(value: unknown, vars: Record<string, string>): unknown {
+    if (typeof value === 'string') {
+      return value.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => {
+        if (vars[name] === undefined) {
+          throw new Error(`Unknown variable {{${name}}}`);
+        }
+        return vars[name];
+      });
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.render(item, vars));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.render(item, vars)]));
+    }
+    return value;
+  }
+}
+
+function randomSid(prefix: string): string {
+  return `${prefix}${randomBytes(16).toString('hex')}`;
+}
+
+function readPath(value: unknown, path: string): unknown {
+  return path
+    .split('.')
+    .reduce<unknown>((current, key) => (current == null ? undefined : (current as Record<string, any>)[key]), value);
+}
@@ -0,0 +1,17 @@
+import { BadRequestException, createParamDecorator, ExecutionContext, ForbiddenException } from '@nestjs/common';
+
+/**
+ * The tenant TenantMiddleware (or an authenticated principal) resolved for the request. Requests
+ * naming a tenant in X-Tenant-Id that AuthGuard did not accept, or resolving none, are refused.
+ */
+export const CurrentTenant = createParamDecorator((_data: unknown, context: ExecutionContext): string => {
+  const request = context.switchToHttp().getRequest();
+
+  if (request.requestedTenantId && request.requestedTenantId !== request.tenantId) {
+    throw new ForbiddenException('X-Tenant-Id is only accepted from authenticated callers allowed that tenant');
+  }
+  if (!request.tenantId) {
+    throw new BadRequestException('Unable to resolve tenant for request');
+  }
+  return request.tenantId;
+});
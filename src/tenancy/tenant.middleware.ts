@@ -0,0 +1,53 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { NextFunction, Request, Response } from 'express';
+import { TwilioConfigService } from '../config/twilio.config';
+
+/**
+ * Resolves which tenant a request belongs to before guards and handlers run. The X-Tenant-Id header
+ * is only noted here: AuthGuard applies it once the principal is known to be allowed that tenant.
+ */
+@Injectable()
+export class TenantMiddleware implements NestMiddleware {
+  constructor(
+    private readonly twilioConfig: TwilioConfigService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  use(
+    request: Request & { tenantId?: string; requestedTenantId?: string },
+    _response: Response,
+    next: NextFunction,
+  ) {
+    request.requestedTenantId = request.header('X-Tenant-Id') || undefined;
+    request.tenantId = this.resolveTenantId(request);
+    next();
+  }
+
+  private resolveTenantId(request: Request): string | undefined {
+    // Twilio webhooks identify the account they were sent for, and the signature proves it
+    const accountSid = request.body?.AccountSid || request.query?.AccountSid;
+    const byAccount = accountSid && this.twilioConfig.findTenantByAccountSid(String(accountSid));
+    if (byAccount) {
+      return byAccount.id;
+    }
+
+    const byHost = request.hostname && this.twilioConfig.findTenantByHostname(request.hostname);
+    if (byHost) {
+      return byHost.id;
+    }
+
+    const tenants = this.twilioConfig.getTenants();
+    const defaultTenantId = this.configService.get<string>('tenancy.defaultTenantId');
+
+    if (defaultTenantId) {
+      return this.twilioConfig.getTenant(defaultTenantId).id;
+    }
+    if (tenants.length === 1) {
+      return tenants[0].id;
+    }
+
+    // Left to AuthGuard; handlers refuse the request if nothing resolves it
+    return undefined;
+  }
+}
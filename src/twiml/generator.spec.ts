@@ -0,0 +1,120 @@
+import { TwiMLGenerator } from './generator';
+import { validateTwiml } from './validator';
+
+describe('TwiMLGenerator', () => {
+  const cases: Array<[string, () => string]> = [
+    ['generateOutboundCall to a number', () => TwiMLGenerator.generateOutboundCall('+14155550123', '+15005550006')],
+    ['generateOutboundCall to a client', () => TwiMLGenerator.generateOutboundCall('client:bob', '+15005550006')],
+    [
+      'generateOutboundCall with recording, whisper and status callback',
+      () =>
+        TwiMLGenerator.generateOutboundCall('+14155550123', '+15005550006', {
+          record: true,
+          announceConsent: true,
+          timeLimit: 600,
+          whisper: 'Call from the support line.',
+          statusCallback: 'https://example.com/api/v1/test-talk/call-status',
+        }),
+    ],
+    [
+      'generateOutboundCall to a client with recording consent',
+      () => TwiMLGenerator.generateOutboundCall('client:bob', '+15005550006', { record: true, announceConsent: true }),
+    ],
+    ['generateConsentNotice', () => TwiMLGenerator.generateConsentNotice('This call may be recorded.')],
+    ['generateConsentNotice without a message', () => TwiMLGenerator.generateConsentNotice()],
+    ['generateAgentConnect', () => TwiMLGenerator.generateAgentConnect('alice')],
+    [
+      'generateAgentConnect with recording consent',
+      () => TwiMLGenerator.generateAgentConnect('alice', { record: true, consentMessage: 'This call may be recorded.' }),
+    ],
+    ['generateIncomingCall to an agent', () => TwiMLGenerator.generateIncomingCall('alice')],
+    ['generateIncomingCall with nobody available', () => TwiMLGenerator.generateIncomingCall(null)],
+    ['generateTransfer to a number', () => TwiMLGenerator.generateTransfer('+14155550123', '+15005550006')],
+    ['generateTransfer to a client', () => TwiMLGenerator.generateTransfer('client:bob', '+15005550006')],
+    ['generateConferenceJoin', () => TwiMLGenerator.generateConferenceJoin('call-CA123')],
+    [
+      'generateConferenceJoin ending the conference on exit',
+      () => TwiMLGenerator.generateConferenceJoin('call-CA123', { endConferenceOnExit: true }),
+    ],
+    [
+      'generateIvrSay with a next step',
+      () => TwiMLGenerator.generateIvrSay('Welcome.', '/api/v1/test-talk/ivr?node=2'),
+    ],
+    ['generateIvrSay ending the call', () => TwiMLGenerator.generateIvrSay('Goodbye.')],
+    [
+      'generateIvrMenu',
+      () =>
+        TwiMLGenerator.generateIvrMenu({
+          prompt: 'Press 1 for sales or 2 for support.',
+          input: 'dtmf speech',
+          timeout: 5,
+          action: '/api/v1/test-talk/ivr?node=menu',
+          notice: 'Sorry, I did not get that.',
+        }),
+    ],
+    [
+      'generateIvrMenu for speech only',
+      () =>
+        TwiMLGenerator.generateIvrMenu({
+          prompt: 'Which department?',
+          input: 'speech',
+          timeout: 5,
+          action: '/api/v1/test-talk/ivr?node=menu',
+        }),
+    ],
+    ['generateForward', () => TwiMLGenerator.generateForward('+14155550123')],
+    ['generateRedirect', () => TwiMLGenerator.generateRedirect('/api/v1/test-talk/voice')],
+    ['generateHangup', () => TwiMLGenerator.generateHangup()],
+    ['generateHangup with a message', () => TwiMLGenerator.generateHangup('Goodbye.')],
+    ['generateEnqueue', () => TwiMLGenerator.generateEnqueue('support')],
+    [
+      'generateQueueWait with position and music',
+      () =>
+        TwiMLGenerator.generateQueueWait({
+          position: 2,
+          waitMusicUrl: 'https://example.com/hold.mp3',
+          pauseSeconds: 30,
+        }),
+    ],
+    ['generateQueueWait with a pause', () => TwiMLGenerator.generateQueueWait({ pauseSeconds: 30 })],
+    ['generateQueueWait leaving the queue', () => TwiMLGenerator.generateQueueWait({ pauseSeconds: 30, leave: true })],
+    ['generateCallbackOffer', () => TwiMLGenerator.generateCallbackOffer()],
+    [
+      'generateVoicemailPrompt',
+      () => TwiMLGenerator.generateVoicemailPrompt({ greeting: 'Leave a message.', maxLength: 120, transcribe: false }),
+    ],
+    [
+      'generateVoicemailPrompt with transcription',
+      () => TwiMLGenerator.generateVoicemailPrompt({ greeting: 'Leave a message.', maxLength: 120, transcribe: true }),
+    ],
+    ['generateVoicemailComplete', () => TwiMLGenerator.generateVoicemailComplete()],
+    ['generateDialStatus after no answer', () => TwiMLGenerator.generateDialStatus('no-answer')],
+    ['generateDialStatus after completion', () => TwiMLGenerator.generateDialStatus('completed')],
+    ['generateDialStatus otherwise', () => TwiMLGenerator.generateDialStatus('canceled')],
+    ['generateErrorResponse', () => TwiMLGenerator.generateErrorResponse()],
+    ['generateErrorResponse with a message', () => TwiMLGenerator.generateErrorResponse('Call ended.')],
+  ];
+
+  it.each(cases)('%s', (_, generate) => {
+    const twiml = generate();
+
+    expect(validateTwiml(twiml)).toEqual([]);
+    expect(twiml).toMatchSnapshot();
+  });
+
+  it('plays the recording consent notice to the called party rather than the caller', () => {
+    const twiml = TwiMLGenerator.generateOutboundCall('+14155550123', '+15005550006', {
+      record: true,
+      announceConsent: true,
+    });
+
+    expect(twiml).not.toContain('<Say');
+    expect(twiml).toContain('<Number url="/api/v1/test-talk/recording-consent">+14155550123</Number>');
+  });
+
+  it('leaves the consent notice out of calls that are not recorded', () => {
+    const twiml = TwiMLGenerator.generateOutboundCall('+14155550123', '+15005550006', { announceConsent: true });
+
+    expect(twiml).not.toContain('recording-consent');
+  });
+});
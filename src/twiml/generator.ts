@@ -1,33 +1,125 @@
+import { Logger } from '@nestjs/common';
 import * as twilio from 'twilio';
+import { validateTwiml } from './validator';
 
 /**
  * Optimized TwiML response generator
  */
 export class TwiMLGenerator {
+  private static readonly logger = new Logger(TwiMLGenerator.name);
+
   private static createResponse(): twilio.twiml.VoiceResponse {
     return new twilio.twiml.VoiceResponse();
   }
 
-  static generateOutboundCall(to: string, from: string): string {
+  /**
+   * Serialize a response once it passes validation, falling back to the error response when it does not
+   */
+  private static render(
+    response: twilio.twiml.VoiceResponse,
+    method: string,
+    fallback: () => string = () => this.generateErrorResponse(),
+  ): string {
+    const twiml = response.toString();
+    const violations = validateTwiml(twiml);
+
+    if (violations.length === 0) {
+      return twiml;
+    }
+
+    this.logger.error(`${method} generated invalid TwiML (${violations.join('; ')}): ${twiml}`);
+    return fallback();
+  }
+
+  static generateOutboundCall(
+    to: string,
+    from: string,
+    options: {
+      record?: boolean;
+      announceConsent?: boolean;
+      timeLimit?: number;
+      whisper?: string;
+      statusCallback?: string;
+    } = {},
+  ): string {
     const response = this.createResponse();
 
+    if (options.whisper) {
+      response.say({ voice: 'alice', language: 'en-US' }, options.whisper);
+    }
+
+    const dial = response.dial({
+      callerId: from,
+      timeout: 30,
+      action: '/api/v1/test-talk/dial-status',
+      answerOnBridge: true,
+      ...(options.timeLimit && { timeLimit: options.timeLimit }),
+      ...(options.record && {
+        record: 'record-from-answer-dual',
+        recordingStatusCallback: '/api/v1/test-talk/recording-status',
+        recordingStatusCallbackMethod: 'POST',
+        recordingStatusCallbackEvent: ['in-progress', 'completed', 'absent'],
+      }),
+    });
+
+    // The person being called is the one who has not agreed to recording, so the notice plays on their leg
+    const consent = options.record && options.announceConsent ? { url: '/api/v1/test-talk/recording-consent' } : {};
+
     if (to.startsWith('client:')) {
-      const dial = response.dial({
-        callerId: from,
-        timeout: 30,
-        answerOnBridge: true,
-      });
-      dial.client(to.replace('client:', ''));
+      dial.client(consent, to.replace('client:', ''));
+    } else if (options.statusCallback) {
+      dial.number(
+        {
+          ...consent,
+          statusCallback: options.statusCallback,
+          statusCallbackEvent: ['initiated', 'ringing', 'answered', 'completed'],
+          statusCallbackMethod: 'POST',
+        },
+        to,
+      );
     } else {
-      const dial = response.dial({
-        callerId: from,
-        timeout: 30,
-        answerOnBridge: true,
-      });
-      dial.number(to);
+      dial.number(consent, to);
+    }
+
+    return this.render(response, 'generateOutboundCall');
+  }
+
+  /**
+   * Recording notice played to the called party once they answer, before the legs are bridged.
+   * Without a message the legs are bridged straight away.
+   */
+  static generateConsentNotice(message?: string): string {
+    const response = this.createResponse();
+    if (message) {
+      response.say({ voice: 'alice', language: 'en-US' }, message);
+    }
+    return this.render(response, 'generateConsentNotice');
+  }
+
+  /**
+   * Ring an agent's browser client from a customer who has already answered. The customer is the
+   * called party here, so any consent notice is said to them before the agent is dialed.
+   */
+  static generateAgentConnect(identity: string, options: { record?: boolean; consentMessage?: string } = {}): string {
+    const response = this.createResponse();
+
+    if (options.record && options.consentMessage) {
+      response.say({ voice: 'alice', language: 'en-US' }, options.consentMessage);
     }
 
-    return response.toString();
+    const dial = response.dial({
+      timeout: 30,
+      action: '/api/v1/test-talk/dial-status',
+      ...(options.record && {
+        record: 'record-from-answer-dual',
+        recordingStatusCallback: '/api/v1/test-talk/recording-status',
+        recordingStatusCallbackMethod: 'POST',
+        recordingStatusCallbackEvent: ['in-progress', 'completed', 'absent'],
+      }),
+    });
+    dial.client(identity);
+
+    return this.render(response, 'generateAgentConnect');
   }
 
   static generateIncomingCall(clientIdentity?: string | null): string {
@@ -41,13 +133,12 @@ export class TwiMLGenerator {
       'Please hold while we connect your call.'
     );
 
-    const dial = response.dial({
-      timeout: 30,
-      action: '/api/v1/test-talk/dial-status',
-      answerOnBridge: true,
-    });
-
     if (clientIdentity) {
+      const dial = response.dial({
+        timeout: 30,
+        action: '/api/v1/test-talk/dial-status',
+        answerOnBridge: true,
+      });
       dial.client(clientIdentity);
     } else {
       response.say(
@@ -59,7 +150,224 @@ export class TwiMLGenerator {
       );
     }
 
-    return response.toString();
+    return this.render(response, 'generateIncomingCall');
+  }
+
+  /**
+   * Dial the transfer target. Sent on a REST update, so callers pass an absolute action when they have one.
+   */
+  static generateTransfer(target: string, callerId: string, options: { action?: string } = {}): string {
+    const response = this.createResponse();
+
+    response.say({ voice: 'alice', language: 'en-US' }, 'Please hold while we transfer your call.');
+
+    const dial = response.dial({
+      callerId,
+      timeout: 30,
+      action: options.action || '/api/v1/test-talk/dial-status',
+      answerOnBridge: true,
+    });
+    if (target.startsWith('client:')) {
+      dial.client(target.replace('client:', ''));
+    } else {
+      dial.number(target);
+    }
+
+    return this.render(response, 'generateTransfer');
+  }
+
+  /**
+   * Join a conference. TwiML handed to Twilio on a REST update has no request URL to resolve
+   * a relative callback against, so those callers pass an absolute statusCallback.
+   */
+  static generateConferenceJoin(
+    conferenceName: string,
+    options: { endConferenceOnExit?: boolean; statusCallback?: string } = {},
+  ): string {
+    const response = this.createResponse();
+    const dial = response.dial();
+
+    dial.conference(
+      {
+        beep: 'false',
+        startConferenceOnEnter: true,
+        endConferenceOnExit: options.endConferenceOnExit ?? false,
+        statusCallback: options.statusCallback || '/api/v1/test-talk/conference-status',
+        statusCallbackMethod: 'POST',
+        statusCallbackEvent: ['start', 'end', 'join', 'leave', 'mute', 'hold'],
+      },
+      conferenceName
+    );
+
+    return this.render(response, 'generateConferenceJoin');
+  }
+
+  static generateIvrSay(message: string, nextUrl?: string): string {
+    const response = this.createResponse();
+
+    response.say({ voice: 'alice', language: 'en-US' }, message);
+    if (nextUrl) {
+      response.redirect({ method: 'POST' }, nextUrl);
+    } else {
+      response.hangup();
+    }
+
+    return this.render(response, 'generateIvrSay');
+  }
+
+  static generateIvrMenu(options: {
+    prompt: string;
+    input: 'dtmf' | 'speech' | 'dtmf speech';
+    timeout: number;
+    action: string;
+    notice?: string;
+  }): string {
+    const response = this.createResponse();
+
+    if (options.notice) {
+      response.say({ voice: 'alice', language: 'en-US' }, options.notice);
+    }
+
+    const gather = response.gather({
+      input: options.input.split(' ') as Array<'dtmf' | 'speech'>,
+      timeout: options.timeout,
+      action: options.action,
+      method: 'POST',
+      ...(options.input !== 'speech' && { numDigits: 1 }),
+    });
+    gather.say({ voice: 'alice', language: 'en-US' }, options.prompt);
+
+    // Gather falls through here when the caller says nothing
+    response.redirect({ method: 'POST' }, options.action);
+
+    return this.render(response, 'generateIvrMenu');
+  }
+
+  static generateForward(number: string): string {
+    const response = this.createResponse();
+
+    const dial = response.dial({
+      timeout: 30,
+      action: '/api/v1/test-talk/dial-status',
+      answerOnBridge: true,
+    });
+    dial.number(number);
+
+    return this.render(response, 'generateForward');
+  }
+
+  static generateRedirect(url: string): string {
+    const response = this.createResponse();
+    response.redirect({ method: 'POST' }, url);
+    return this.render(response, 'generateRedirect');
+  }
+
+  static generateHangup(message?: string): string {
+    const response = this.createResponse();
+    if (message) {
+      response.say({ voice: 'alice', language: 'en-US' }, message);
+    }
+    response.hangup();
+    return this.render(response, 'generateHangup');
+  }
+
+  static generateEnqueue(queueName: string): string {
+    const response = this.createResponse();
+
+    response.say(
+      { voice: 'alice', language: 'en-US' },
+      'All of our agents are busy. Please stay on the line and your call will be answered in the order it was received.'
+    );
+    response.enqueue(
+      {
+        waitUrl: '/api/v1/test-talk/queue/wait',
+        waitUrlMethod: 'POST',
+        action: '/api/v1/test-talk/queue/leave',
+        method: 'POST',
+      },
+      queueName
+    );
+
+    return this.render(response, 'generateEnqueue');
+  }
+
+  static generateQueueWait(options: {
+    position?: number;
+    waitMusicUrl?: string;
+    pauseSeconds: number;
+    leave?: boolean;
+  }): string {
+    const response = this.createResponse();
+
+    if (options.leave) {
+      response.leave();
+      return this.render(response, 'generateQueueWait');
+    }
+
+    if (options.position) {
+      response.say(
+        { voice: 'alice', language: 'en-US' },
+        `You are caller number ${options.position}. Thank you for your patience.`
+      );
+    }
+
+    if (options.waitMusicUrl) {
+      response.play(options.waitMusicUrl);
+    } else {
+      response.pause({ length: options.pauseSeconds });
+    }
+
+    return this.render(response, 'generateQueueWait');
+  }
+
+  static generateCallbackOffer(): string {
+    const response = this.createResponse();
+
+    const gather = response.gather({
+      numDigits: 1,
+      timeout: 10,
+      action: '/api/v1/test-talk/queue/callback',
+      method: 'POST',
+    });
+    gather.say(
+      { voice: 'alice', language: 'en-US' },
+      'We are sorry for the long wait. Press 1 and we will call you back as soon as an agent is free.'
+    );
+    response.say({ voice: 'alice', language: 'en-US' }, 'Goodbye.');
+
+    return this.render(response, 'generateCallbackOffer');
+  }
+
+  static generateVoicemailPrompt(options: {
+    greeting: string;
+    maxLength: number;
+    transcribe: boolean;
+  }): string {
+    const response = this.createResponse();
+
+    response.say({ voice: 'alice', language: 'en-US' }, options.greeting);
+    response.record({
+      maxLength: options.maxLength,
+      playBeep: true,
+      finishOnKey: '#',
+      action: '/api/v1/test-talk/voicemail/complete',
+      method: 'POST',
+      recordingStatusCallback: '/api/v1/test-talk/voicemail/recording-status',
+      recordingStatusCallbackMethod: 'POST',
+      ...(options.transcribe && {
+        transcribe: true,
+        transcribeCallback: '/api/v1/test-talk/voicemail/transcription',
+      }),
+    });
+
+    return this.render(response, 'generateVoicemailPrompt');
+  }
+
+  static generateVoicemailComplete(): string {
+    const response = this.createResponse();
+    response.say({ voice: 'alice', language: 'en-US' }, 'Thank you for your message. Goodbye.');
+    response.hangup();
+    return this.render(response, 'generateVoicemailComplete');
   }
 
   static generateDialStatus(dialStatus: string): string {
@@ -78,12 +386,12 @@ export class TwiMLGenerator {
         response.say('Call ended.');
     }
 
-    return response.toString();
+    return this.render(response, 'generateDialStatus');
   }
 
   static generateErrorResponse(message = 'We are experiencing technical difficulties. Please try again later.'): string {
     const response = this.createResponse();
     response.say({ voice: 'alice', language: 'en-US' }, message);
-    return response.toString();
+    return this.render(response, 'generateErrorResponse');
   }
 }
@@ -0,0 +1,83 @@
+import { TwimlNode } from '../types';
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+/**
+ * Parse a TwiML document into its element tree. This covers the XML Twilio accepts from a webhook
+ * (elements, attributes, text and entities), not XML in general.
+ */
+export function parseTwiml(xml: string): TwimlNode {
+  const root: TwimlNode = { name: '#document', attributes: {}, text: '', children: [] };
+  const stack: TwimlNode[] = [root];
+  const tag = /<(\/?)([A-Za-z][\w.-]*)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+  let position = 0;
+  let match: RegExpExecArray | null;
+
+  const body = xml.replace(/<\?[\s\S]*?\?>|<!--[\s\S]*?-->/g, '');
+
+  while ((match = tag.exec(body))) {
+    stack[stack.length - 1].text += decode(body.slice(position, match.index));
+    position = tag.lastIndex;
+
+    const [, closing, name, attributes, selfClosing] = match;
+    if (closing) {
+      const open = stack.pop();
+      if (!open || open.name !== name || stack.length === 0) {
+        throw new Error(`Unexpected </${name}> in TwiML`);
+      }
+      open.text = open.text.trim();
+      continue;
+    }
+
+    const node: TwimlNode = { name, attributes: parseAttributes(attributes), text: '', children: [] };
+    stack[stack.length - 1].children.push(node);
+    if (!selfClosing) {
+      stack.push(node);
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`Unclosed <${stack[stack.length - 1].name}> in TwiML`);
+  }
+  if (root.children.length !== 1 || root.children[0].name !== 'Response') {
+    throw new Error('TwiML must have a single <Response> root');
+  }
+  return root.children[0];
+}
+
+/**
+ * Every element matching a slash-separated path of element names below the given node, e.g. "Dial/Client"
+ */
+export function findTwiml(node: TwimlNode, path: string): TwimlNode[] {
+  const [first, ...rest] = path.split('/').filter(Boolean);
+  const matches = node.children.filter((child) => child.name === first);
+  return rest.length === 0 ? matches : matches.flatMap((child) => findTwiml(child, rest.join('/')));
+}
+
+/**
+ * Every element with this name anywhere below the given node, in document order
+ */
+export function findAllTwiml(node: TwimlNode, name: string): TwimlNode[] {
+  return node.children.flatMap((child) => [...(child.name === name ? [child] : []), ...findAllTwiml(child, name)]);
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const attribute = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = attribute.exec(source))) {
+    attributes[match[1]] = decode(match[2] ?? match[3]);
+  }
+  return attributes;
+}
+
+function decode(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const hex = code[1].toLowerCase() === 'x';
+      return String.fromCodePoint(parseInt(code.slice(hex ? 2 : 1), hex ? 16 : 10));
+    }
+    return ENTITIES[code] ?? entity;
+  });
+}
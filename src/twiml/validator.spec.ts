@@ -0,0 +1,75 @@
+import { Logger } from '@nestjs/common';
+import { TwiMLGenerator } from './generator';
+import { validateTwiml } from './validator';
+
+describe('validateTwiml', () => {
+  const twiml = (body: string) => `<?xml version="1.0" encoding="UTF-8"?><Response>${body}</Response>`;
+
+  it('accepts well formed TwiML', () => {
+    expect(validateTwiml(twiml('<Say>Hello</Say><Dial><Client><Identity>bob</Identity></Client></Dial>'))).toEqual(
+      [],
+    );
+  });
+
+  it('reports documents that do not parse', () => {
+    expect(validateTwiml('<Response><Say>')).toHaveLength(1);
+  });
+
+  it('labels each problem with the path to the element at fault', () => {
+    expect(validateTwiml(twiml('<Say>Hello</Say><Dial></Dial><Hangup>now</Hangup>'))).toEqual([
+      'Response/Dial[2]: <Dial> has no number, client or other target',
+      'Response/Hangup[3]: <Hangup> cannot contain text',
+    ]);
+  });
+
+  it('reports unknown and misplaced elements', () => {
+    expect(validateTwiml(twiml('<Shout>Hi</Shout><Gather><Dial>+14155550123</Dial></Gather>'))).toEqual([
+      'Response/Shout[1]: unknown element <Shout>',
+      'Response/Gather[2]/Dial[1]: <Dial> is not allowed inside <Gather>',
+    ]);
+  });
+
+  it('reports empty targets', () => {
+    expect(validateTwiml(twiml('<Dial><Client></Client></Dial><Play/><Redirect/>'))).toEqual([
+      'Response/Dial[1]/Client[1]: <Client> needs an identity',
+      'Response/Play[2]: <Play> needs a URL or digits',
+      'Response/Redirect[3]: <Redirect> cannot be empty',
+    ]);
+  });
+
+  it('reports verbs that can never run', () => {
+    expect(validateTwiml(twiml('<Hangup/><Say>Goodbye</Say>'))).toEqual([
+      'Response: verbs after <Hangup> are never reached',
+    ]);
+  });
+});
+
+describe('TwiMLGenerator fallback', () => {
+  const errorResponse = TwiMLGenerator.generateErrorResponse();
+
+  beforeEach(() => {
+    jest.spyOn(Logger.prototype, 'error').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('answers with the error response instead of invalid TwiML', () => {
+    expect(TwiMLGenerator.generateRedirect('')).toBe(errorResponse);
+    expect(TwiMLGenerator.generateIvrSay('')).toBe(errorResponse);
+    expect(TwiMLGenerator.generateTransfer('client:', '+15005550006')).toBe(errorResponse);
+  });
+
+  it('logs what was wrong with the TwiML it replaced', () => {
+    TwiMLGenerator.generateRedirect('');
+
+    expect(Logger.prototype.error).toHaveBeenCalledWith(
+      expect.stringContaining('(Response/Redirect[1]: <Redirect> cannot be empty)'),
+    );
+  });
+
+  it('falls back to the default message when the error message itself is empty', () => {
+    expect(TwiMLGenerator.generateErrorResponse('')).toBe(errorResponse);
+  });
+});
@@ -0,0 +1,135 @@
+import { TwimlNode } from '../types';
+import { parseTwiml } from './parser';
+
+interface ElementRule {
+  // Elements allowed directly inside this one
+  children: string[];
+  // Whether the element must carry text (a URL, number, name or message), may, or must be empty
+  text: 'required' | 'optional' | 'none';
+}
+
+const VERBS = [
+  'Say', 'Play', 'Pause', 'Dial', 'Gather', 'Record', 'Hangup', 'Redirect', 'Reject',
+  'Enqueue', 'Leave', 'Connect', 'Start', 'Stop', 'Refer', 'Pay', 'Sms', 'Message',
+];
+const DIAL_NOUNS = ['Client', 'Conference', 'Number', 'Queue', 'Sip', 'Sim', 'Application'];
+const SSML = ['break', 'emphasis', 'lang', 'p', 'phoneme', 'prosody', 's', 'say-as', 'sub', 'w'];
+const MEDIA_STREAMS = ['Stream', 'Siprec', 'Transcription'];
+
+// Verbs that end or hand off the call, so nothing after them in the same document runs
+const FINAL_VERBS = ['Hangup', 'Reject', 'Redirect'];
+
+const RULES: Record<string, ElementRule> = {
+  Response: { children: VERBS, text: 'none' },
+  Say: { children: SSML, text: 'required' },
+  Play: { children: [], text: 'optional' },
+  Pause: { children: [], text: 'none' },
+  Dial: { children: DIAL_NOUNS, text: 'optional' },
+  Gather: { children: ['Say', 'Play', 'Pause'], text: 'none' },
+  Record: { children: [], text: 'none' },
+  Hangup: { children: [], text: 'none' },
+  Redirect: { children: [], text: 'required' },
+  Reject: { children: [], text: 'none' },
+  Enqueue: { children: ['Task'], text: 'optional' },
+  Leave: { children: [], text: 'none' },
+  Connect: { children: ['Room', 'Stream', 'Conversation', 'VirtualAgent', 'ConversationRelay'], text: 'none' },
+  Start: { children: MEDIA_STREAMS, text: 'none' },
+  Stop: { children: MEDIA_STREAMS, text: 'none' },
+  Refer: { children: ['Sip'], text: 'none' },
+  Pay: { children: ['Prompt', 'Parameter'], text: 'none' },
+  Sms: { children: [], text: 'required' },
+  Message: { children: [], text: 'required' },
+  Client: { children: ['Identity', 'Parameter'], text: 'optional' },
+  Identity: { children: [], text: 'required' },
+  Conference: { children: [], text: 'required' },
+  Number: { children: [], text: 'required' },
+  Queue: { children: [], text: 'required' },
+  Sip: { children: ['Parameter'], text: 'required' },
+  Sim: { children: [], text: 'required' },
+  Application: { children: ['ApplicationSid', 'Parameter'], text: 'none' },
+  ApplicationSid: { children: [], text: 'required' },
+  Task: { children: [], text: 'required' },
+  Room: { children: [], text: 'required' },
+  Stream: { children: ['Parameter'], text: 'none' },
+  Siprec: { children: ['Parameter'], text: 'none' },
+  Transcription: { children: ['Parameter'], text: 'none' },
+  Conversation: { children: ['Parameter'], text: 'none' },
+  VirtualAgent: { children: ['Config', 'Parameter'], text: 'none' },
+  ConversationRelay: { children: ['Language', 'Parameter'], text: 'none' },
+  Config: { children: [], text: 'none' },
+  Language: { children: [], text: 'none' },
+  Parameter: { children: [], text: 'none' },
+  Prompt: { children: ['Say', 'Play', 'Pause'], text: 'none' },
+  ...Object.fromEntries(SSML.map((name): [string, ElementRule] => [name, { children: SSML, text: 'optional' }])),
+};
+
+/**
+ * Every way the document breaks TwiML's verb and noun structure, each labelled with the path to the
+ * element at fault, e.g. "Response/Dial[2]: <Dial> has no number, client or other target"
+ */
+export function validateTwiml(xml: string): string[] {
+  let root: TwimlNode;
+  try {
+    root = parseTwiml(xml);
+  } catch (error) {
+    return [(error as Error).message];
+  }
+
+  const errors: string[] = [];
+  validateElement(root, 'Response', errors);
+
+  const finalIndex = root.children.findIndex((verb) => FINAL_VERBS.includes(verb.name));
+  if (finalIndex >= 0 && finalIndex < root.children.length - 1) {
+    errors.push(`Response: verbs after <${root.children[finalIndex].name}> are never reached`);
+  }
+  return errors;
+}
+
+function validateElement(node: TwimlNode, path: string, errors: string[]) {
+  const rule = RULES[node.name];
+  const text = node.text.trim();
+
+  if (rule.text === 'none' && text) {
+    errors.push(`${path}: <${node.name}> cannot contain text`);
+  }
+  // Elements that take text may nest others instead, as <Say> does SSML and <Client> does <Identity>
+  if (rule.text === 'required' && !text && node.children.length === 0) {
+    errors.push(`${path}: <${node.name}> cannot be empty`);
+  }
+
+  switch (node.name) {
+    case 'Dial':
+      if (!text && node.children.length === 0) {
+        errors.push(`${path}: <Dial> has no number, client or other target`);
+      } else if (text && node.children.length > 0) {
+        errors.push(`${path}: <Dial> cannot dial a number as text and nested nouns at once`);
+      }
+      break;
+    case 'Client':
+      if (!text && !node.children.some((child) => child.name === 'Identity' && child.text.trim())) {
+        errors.push(`${path}: <Client> needs an identity`);
+      }
+      break;
+    case 'Play':
+      if (!text && !node.attributes.digits) {
+        errors.push(`${path}: <Play> needs a URL or digits`);
+      }
+      break;
+    case 'Enqueue':
+      if (!text && !node.children.some((child) => child.name === 'Task')) {
+        errors.push(`${path}: <Enqueue> needs a queue name or a <Task>`);
+      }
+      break;
+  }
+
+  node.children.forEach((child, index) => {
+    const childPath = `${path}/${child.name}[${index + 1}]`;
+    if (!RULES[child.name]) {
+      errors.push(`${childPath}: unknown element <${child.name}>`);
+    } else if (!rule.children.includes(child.name)) {
+      errors.push(`${childPath}: <${child.name}> is not allowed inside <${node.name}>`);
+    } else {
+      validateElement(child, childPath, errors);
+    }
+  });
+}
@@ -6,43 +6,570 @@ export interface MakeCallDto {
 export interface CallStatus {
   CallSid: string;
   CallStatus: string;
-  Duration?: string;
+  // Seconds; Twilio's Duration is the same length rounded up to whole minutes
+  CallDuration?: string;
   From: string;
   To: string;
   Direction: string;
 }
 
+export interface CallStatusTransition {
+  status: string;
+  timestamp: Date;
+}
+
+export interface CallRecording {
+  sid: string;
+  status: string;
+  channels?: number;
+  duration?: number;
+  url?: string;
+  startedAt?: Date;
+  updatedAt: Date;
+}
+
+export interface CallConference {
+  name: string;
+  sid?: string;
+  status: 'joined' | 'left';
+  muted: boolean;
+  hold: boolean;
+  updatedAt: Date;
+}
+
+export interface CallBridge {
+  // Rung first: the agent's browser client address or their own phone number
+  agent: string;
+  customer: string;
+  whisper: string;
+  record: boolean;
+  timeLimit?: number;
+  customerCallSid?: string;
+  customerStatus?: string;
+}
+
 export interface ActiveCall {
   sid: string;
+  tenantId: string;
   to: string;
   from: string;
   type: 'browser-to-phone' | 'phone-to-browser';
+  identity?: string;
   status: string;
   createdAt: Date;
   duration?: number;
   lastUpdated?: Date;
+  endedAt?: Date;
+  statusHistory: CallStatusTransition[];
+  recordings?: CallRecording[];
+  conference?: CallConference;
+  // Click-to-call: this is the agent's leg and the customer is dialed once they answer
+  bridge?: CallBridge;
+}
+
+export interface CallHistoryFilter {
+  tenantId?: string;
+  cursor?: { createdAt: Date; sid: string };
+  limit: number;
+  startDate?: Date;
+  endDate?: Date;
+  direction?: ActiveCall['type'];
+  status?: string;
+  phoneNumber?: string;
+  minDuration?: number;
+  maxDuration?: number;
+}
+
+export interface CallHistoryPage {
+  calls: ActiveCall[];
+  pagination: {
+    limit: number;
+    hasMore: boolean;
+    nextCursor: string | null;
+  };
+}
+
+export type CallEventType =
+  | 'call.created'
+  | 'call.updated'
+  | 'call.status'
+  | 'call.dial-status'
+  | 'call.routed'
+  | 'call.ended'
+  | 'call.transferred'
+  | 'call.held'
+  | 'call.resumed'
+  | 'call.muted'
+  | 'voicemail.created';
+
+export interface CallEvent {
+  type: CallEventType;
+  callSid: string;
+  tenantId?: string;
+  identity?: string;
+  timestamp: Date;
+  call?: ActiveCall;
+  data?: Record<string, unknown>;
+}
+
+export type LifecycleEventType = 'call.started' | 'call.answered' | 'call.ended' | 'call.failed';
+
+export interface WebhookSubscriber {
+  url: string;
+  tenantId: string;
+  events?: LifecycleEventType[];
+  secret: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  tenantId: string;
+  subscriberUrl: string;
+  type: LifecycleEventType;
+  body: string;
+  attempts: number;
+  createdAt: Date;
+  lastAttemptAt?: Date;
+  lastError?: string;
 }
 
 export interface CallStatistics {
+  tenantId: string;
   totalActiveCalls: number;
+  totalFinishedCalls: number;
   callsByStatus: Record<string, number>;
   callsByType: Record<string, number>;
   averageCallDuration: number;
+  queueDepth: number;
+  averageQueueWaitTime: number;
+}
+
+export interface QueueConfig {
+  enabled: boolean;
+  name: string;
+  waitMusicUrl: string;
+  announceIntervalSeconds: number;
+  maxWaitSeconds: number;
+  overflowAction: 'voicemail' | 'callback';
+}
+
+export interface QueueStatistics {
+  queueDepth: number;
+  averageQueueWaitTime: number;
+}
+
+export interface CallbackRequest {
+  callSid: string;
+  from: string;
+  requestedAt: Date;
+}
+
+export interface AuthPrincipal {
+  subject: string;
+  identity: string;
+  role: string;
+  strategy: string;
+  tenantId?: string;
+}
+
+export interface ApiKeyCredential {
+  key: string;
+  identity: string;
+  role?: string;
+  tenantId?: string;
+}
+
+export interface JwtAuthConfig {
+  jwksPath: string;
+  issuer: string;
+  audience: string;
+  identityClaim: string;
+  roleClaim: string;
+  tenantClaim: string;
+}
+
+export interface TokenPolicy {
+  ttl: number;
+  incomingAllow: boolean;
+  outgoingAllow: boolean;
+}
+
+export type PresenceState = 'available' | 'busy' | 'offline';
+
+export interface ClientPresence {
+  identity: string;
+  tenantId: string;
+  state: PresenceState;
+  registeredAt: Date;
+  lastHeartbeat: Date;
+  idleSince: Date;
+}
+
+export type RoutingStrategyName = 'round-robin' | 'longest-idle' | 'sticky';
+
+export interface RecordingConfig {
+  enabled: boolean;
+  consentAnnouncement: string;
+}
+
+export interface VoicemailConfig {
+  enabled: boolean;
+  greeting: string;
+  maxLength: number;
+  transcribe: boolean;
+}
+
+export interface Voicemail {
+  sid: string;
+  tenantId: string;
+  callSid: string;
+  from: string;
+  to: string;
+  recordingUrl: string;
+  duration: number;
+  transcription?: string;
+  transcriptionStatus?: string;
+  heard: boolean;
+  heardAt?: Date;
+  createdAt: Date;
+}
+
+export type PhoneNumberKind =
+  | 'mobile'
+  | 'landline'
+  | 'landline-or-mobile'
+  | 'toll-free'
+  | 'premium'
+  | 'shared-cost'
+  | 'voip'
+  | 'unknown';
+
+export interface PhoneNumberInfo {
+  e164: string;
+  country?: string;
+  countryCallingCode: string;
+  kind: PhoneNumberKind;
+  nationalFormat: string;
+  internationalFormat: string;
+}
+
+export interface DialPolicyConfig {
+  allowedCountries: string[];
+  deniedCountries: string[];
+  blockedPrefixes: string[];
+  blockPremium: boolean;
+  dailyCallLimit: number;
+  dailyMinutesLimit: number;
+}
+
+export type DialBlockReason =
+  | 'country-not-allowed'
+  | 'country-denied'
+  | 'prefix-blocked'
+  | 'premium'
+  | 'short-code'
+  | 'daily-call-limit'
+  | 'daily-minutes-limit';
+
+export interface DialPolicyDecision {
+  allowed: boolean;
+  reason?: DialBlockReason;
+  message?: string;
+  remainingSeconds?: number;
+}
+
+export interface BlockedDialAttempt {
+  tenantId: string;
+  identity?: string;
+  destination: string;
+  reason: DialBlockReason;
+  attemptedAt: Date;
+}
+
+export type CallerIdStrategy = 'local-presence' | 'round-robin';
+
+export interface PoolNumber {
+  phoneNumber: string;
+  tenantId: string;
+  tags: string[];
+  addedAt: Date;
+}
+
+export interface CallerIdSelection {
+  phoneNumber: string;
+  reason: 'requested' | 'area-code' | 'country' | 'round-robin';
+}
+
+export interface ConferenceRoom {
+  name: string;
+  tenantId: string;
+  sid?: string;
+  status: 'waiting' | 'in-progress';
+  // Rooms opened around a live call disappear when the conference ends
+  temporary: boolean;
+  createdBy?: string;
+  createdAt: Date;
+}
+
+export interface ConferenceParticipant {
+  callSid: string;
+  label?: string;
+  status: string;
+  muted: boolean;
+  hold: boolean;
+}
+
+export type TransferType = 'cold' | 'warm';
+
+export interface WarmTransfer {
+  conferenceName: string;
+  tenantId: string;
+  agentCallSid: string;
+  customerCallSid: string;
+  targetCallSid: string;
+  target: string;
+  startedAt: Date;
+}
+
+export interface TransferResult {
+  type: TransferType;
+  callSid: string;
+  target: string;
+  conferenceName?: string;
+  targetCallSid?: string;
+}
+
+export type Weekday = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday';
+
+export interface WeeklyHours {
+  timezone: string;
+  // Ranges such as "09:00-17:00" per day; days left out are closed
+  days: Partial<Record<Weekday, string[]>>;
+}
+
+export interface Holiday {
+  // "2026-12-24" for a single date or "12-25" for every year, in the schedule's timezone
+  date: string;
+  name?: string;
+}
+
+export interface BusinessHoursSchedule extends WeeklyHours {
+  id: string;
+  holidays?: Holiday[];
+  closedMessage?: string;
+  // Numbers take precedence over tenants when both match a call
+  tenants?: string[];
+  numbers?: string[];
+}
+
+export interface BusinessHoursConfig {
+  // Applied to every schedule
+  holidays?: Holiday[];
+  schedules: BusinessHoursSchedule[];
+}
+
+export interface BusinessHoursState {
+  scheduleId: string | null;
+  timezone?: string;
+  open: boolean;
+  holiday?: string;
+  nextTransition: { at: Date; open: boolean } | null;
+}
+
+export interface IvrMenuOption {
+  digit?: string;
+  phrases?: string[];
+  next: string;
+}
+
+export type IvrNode =
+  | { type: 'say'; message: string; next?: string }
+  | {
+      type: 'menu';
+      prompt: string;
+      input?: 'dtmf' | 'speech' | 'dtmf speech';
+      timeout?: number;
+      retries?: number;
+      invalidMessage?: string;
+      fallback?: string;
+      options: IvrMenuOption[];
+    }
+  | { type: 'hours'; schedule: WeeklyHours | string; open: string; closed: string }
+  | { type: 'client'; identity: string }
+  | { type: 'agents' }
+  | { type: 'queue' }
+  | { type: 'number'; number: string }
+  | { type: 'voicemail' }
+  | { type: 'hangup'; message?: string };
+
+export interface IvrFlow {
+  start: string;
+  nodes: Record<string, IvrNode>;
+  // Tenants whose calls go through the flow; required once more than one tenant is configured
+  tenants?: string[];
+}
+
+/**
+ * What the caller hears at one node, and where the call goes from there
+ */
+export interface IvrStep {
+  nodeId: string;
+  twiml: string;
+  next:
+    | { type: 'node'; nodeId: string }
+    | { type: 'input'; nodeId: string; attempt: number }
+    | { type: 'exit'; target: 'agents' | 'queue' | 'voicemail' | 'client' | 'number' | 'hangup' };
+}
+
+export interface IvrDryRunResult {
+  steps: Array<IvrStep & { input?: string }>;
+  // Inputs left over once the flow stopped asking for them
+  unusedInputs: string[];
+}
+
+export interface RateLimitPolicy {
+  algorithm: 'sliding-window' | 'token-bucket';
+  limit: number;
+  windowMs: number;
+  // principal falls back to the client IP on routes the request reached without authenticating
+  keyBy: 'ip' | 'principal';
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number;
+}
+
+// A call as the voice provider reports it
+export interface RemoteCall {
+  sid: string;
+  status: string;
+  from: string;
+  to: string;
+  direction: string;
+  duration?: number;
+  createdAt?: Date;
+  startTime?: Date;
+  endTime?: Date;
+  parentCallSid?: string;
+}
+
+export interface CreateCallParams {
+  to: string;
+  from: string;
+  // Fetched for TwiML once the call is answered
+  url: string;
+  method?: 'GET' | 'POST';
+  statusCallback?: string;
+  statusCallbackEvent?: string[];
+  timeLimit?: number;
+}
+
+export interface UpdateCallParams {
+  status?: 'completed' | 'canceled';
+  twiml?: string;
+  url?: string;
+  method?: 'GET' | 'POST';
+}
+
+export interface CreateParticipantParams {
+  to: string;
+  from: string;
+  muted?: boolean;
+  statusCallback?: string;
+  statusCallbackEvent?: string[];
+  conferenceStatusCallback?: string;
+  conferenceStatusCallbackEvent?: string[];
+}
+
+export interface UpdateParticipantParams {
+  muted?: boolean;
+  hold?: boolean;
+  // Played to the participant while held
+  holdUrl?: string;
+}
+
+export interface VoiceAccount {
+  sid: string;
+  friendlyName: string;
+  status: string;
+}
+
+export interface ReconciliationResult {
+  tenantId: string;
+  ranAt: Date;
+  durationMs: number;
+  // Call SIDs by what was done to them
+  added: string[];
+  updated: string[];
+  closed: string[];
+  swept: string[];
+  error?: string;
+}
+
+export interface TwimlNode {
+  name: string;
+  attributes: Record<string, string>;
+  text: string;
+  children: TwimlNode[];
+}
+
+export interface SimulatorExpectation {
+  // HTTP status of the response; any 2xx passes when unset
+  status?: number;
+  // Verb paths such as "Dial/Client" that the returned TwiML must contain
+  twiml?: string[];
+  // Verb paths it must not contain
+  notTwiml?: string[];
+  // Text that one of the <Say> verbs must contain
+  say?: string;
+  // Dotted paths into a JSON response and the values they must hold
+  body?: Record<string, unknown>;
+}
+
+export type SimulatorStep = { expect?: SimulatorExpectation; params?: Record<string, string> } & (
+  | { webhook: string }
+  | { follow: string }
+  | { status: string }
+  | { api: { method?: 'GET' | 'POST' | 'PUT' | 'DELETE'; path: string; body?: unknown }; save?: Record<string, string> }
+  | { calls: { active: boolean; status?: string } }
+  | { wait: number }
+);
+
+export interface SimulatorScenario {
+  name: string;
+  description?: string;
+  call?: { from?: string; to?: string; direction?: string; callSid?: string };
+  steps: SimulatorStep[];
+}
+
+export interface SimulatorStepResult {
+  step: number;
+  description: string;
+  passed: boolean;
+  failures: string[];
+  twiml?: string;
 }
 
-export interface RateLimitEntry {
-  count: number;
-  lastAttempt: Date;
+export interface SimulatorResult {
+  scenario: string;
+  callSid: string;
+  passed: boolean;
+  durationMs: number;
+  steps: SimulatorStepResult[];
 }
 
 export interface HealthCheckResult {
   status: 'healthy' | 'unhealthy';
   details: {
+    tenantId?: string;
     accountSid?: string;
     accountName?: string;
     activeCalls?: number;
     twilioStatus?: string;
     phoneNumber?: string;
+    reconciliation?: ReconciliationResult | null;
     error?: string;
   };
 }
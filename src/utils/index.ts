@@ -1,16 +1,91 @@
+import {
+  CountryCode,
+  isSupportedCountry,
+  parsePhoneNumberFromString,
+  parsePhoneNumberWithError,
+  ParseError,
+  validatePhoneNumberLength,
+} from 'libphonenumber-js/max';
+import { PhoneNumberInfo, PhoneNumberKind } from '../types';
+
 /**
  * Phone number validation utilities
  */
 export class PhoneValidator {
   private static readonly PHONE_REGEX = /^\+[1-9]\d{1,14}$/;
 
+  private static readonly KINDS: Record<string, PhoneNumberKind> = {
+    MOBILE: 'mobile',
+    FIXED_LINE: 'landline',
+    FIXED_LINE_OR_MOBILE: 'landline-or-mobile',
+    TOLL_FREE: 'toll-free',
+    PREMIUM_RATE: 'premium',
+    SHARED_COST: 'shared-cost',
+    VOIP: 'voip',
+  };
+
+  private static readonly PARSE_ERRORS: Record<string, string> = {
+    INVALID_COUNTRY: 'no country code was given and no default region applies',
+    NOT_A_NUMBER: 'it does not look like a phone number',
+    TOO_SHORT: 'it is too short',
+    TOO_LONG: 'it is too long',
+    INVALID_LENGTH: 'it has an invalid length',
+  };
+
   static isValid(phoneNumber: string): boolean {
     return this.PHONE_REGEX.test(phoneNumber);
   }
 
-  static sanitize(phoneNumber: string): string {
-    const cleaned = phoneNumber.replace(/[^\d+]/g, '');
-    return cleaned.startsWith('+') ? cleaned : `+1${cleaned}`;
+  static isRegion(region?: string): region is CountryCode {
+    return !!region && isSupportedCountry(region);
+  }
+
+  /**
+   * Best-effort E.164 form; input that cannot be parsed comes back stripped of formatting
+   */
+  static sanitize(phoneNumber: string, defaultRegion?: string): string {
+    const parsed = parsePhoneNumberFromString(
+      phoneNumber,
+      this.isRegion(defaultRegion) ? defaultRegion : undefined,
+    );
+    return parsed ? parsed.number : phoneNumber.replace(/[^\d+]/g, '');
+  }
+
+  /**
+   * Parse user input into E.164, explaining why it was rejected if it is not a dialable number
+   */
+  static parse(
+    phoneNumber: string,
+    defaultRegion?: string,
+  ): { number: PhoneNumberInfo; error?: never } | { number?: never; error: string } {
+    const region = this.isRegion(defaultRegion) ? defaultRegion : undefined;
+
+    try {
+      const parsed = parsePhoneNumberWithError(phoneNumber, region);
+
+      if (!parsed.isValid()) {
+        const lengthError = validatePhoneNumberLength(phoneNumber, region);
+        return {
+          error: lengthError
+            ? this.PARSE_ERRORS[lengthError]
+            : `it is not a valid${parsed.country ? ` ${parsed.country}` : ''} number`,
+        };
+      }
+
+      return {
+        number: {
+          e164: parsed.number,
+          country: parsed.country,
+          countryCallingCode: parsed.countryCallingCode,
+          kind: this.KINDS[parsed.getType() || ''] || 'unknown',
+          nationalFormat: parsed.formatNational(),
+          internationalFormat: parsed.formatInternational(),
+        },
+      };
+    } catch (error) {
+      const message = error instanceof ParseError ? error.message : '';
+      return { error: this.PARSE_ERRORS[message] || 'it could not be parsed' };
+    }
   }
 }
 
@@ -30,59 +105,3 @@ export class TwilioValidator {
     return appSid?.startsWith('AP') && appSid.length === 34;
   }
 }
-
-/**
- * Rate limiting utilities
- */
-export class RateLimiter {
-  private attempts = new Map<string, { count: number; lastAttempt: Date }>();
-  private readonly maxAttempts: number;
-  private readonly windowMs: number;
-
-  constructor(maxAttempts = 5, windowMs = 60000) {
-    this.maxAttempts = maxAttempts;
-    this.windowMs = windowMs;
-  }
-
-  check(identifier: string): boolean {
-    const now = new Date();
-    const attempts = this.attempts.get(identifier);
-
-    if (!attempts) {
-      this.attempts.set(identifier, { count: 1, lastAttempt: now });
-      return true;
-    }
-
-    if (now.getTime() - attempts.lastAttempt.getTime() > this.windowMs) {
-      this.attempts.set(identifier, { count: 1, lastAttempt: now });
-      return true;
-    }
-
-    if (attempts.count >= this.maxAttempts) {
-      return false;
-    }
-
-    attempts.count++;
-    attempts.lastAttempt = now;
-    return true;
-  }
-
-  cleanup(): void {
-    const now = new Date();
-    const oneHourAgo = now.getTime() - 3600000;
-
-    for (const [key, attempts] of this.attempts.entries()) {
-      if (attempts.lastAttempt.getTime() < oneHourAgo) {
-        this.attempts.delete(key);
-      }
-    }
-  }
-
-  clear(): void {
-    this.attempts.clear();
-  }
-
-  getSize(): number {
-    return this.attempts.size;
-  }
-}
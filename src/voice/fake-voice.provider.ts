@@ -0,0 +1,373 @@
+import { Logger, OnModuleDestroy } from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import * as twilio from 'twilio';
+import { TwilioConfigService } from '../config/twilio.config';
+import { isTerminalStatus } from '../repositories/call.repository';
+import {
+  CallRecording,
+  ConferenceParticipant,
+  CreateCallParams,
+  CreateParticipantParams,
+  RemoteCall,
+  TokenPolicy,
+  UpdateCallParams,
+  UpdateParticipantParams,
+  VoiceAccount,
+} from '../types';
+import { VoiceProvider } from './voice-provider';
+
+interface FakeCall extends RemoteCall {
+  tenantId: string;
+  statusCallback?: string;
+  statusCallbackEvent: string[];
+  sequence: number;
+  // The last TwiML or URL the call was redirected to
+  instructions?: string;
+}
+
+interface FakeConference {
+  sid: string;
+  tenantId: string;
+  name: string;
+  status: 'in-progress' | 'completed';
+  participants: Map<string, { muted: boolean; hold: boolean }>;
+}
+
+export interface FakeVoiceProviderOptions {
+  // Calls progress on their own unless this is false, leaving it to progress()
+  autoProgress?: boolean;
+  ringMs?: number;
+  talkMs?: number;
+}
+
+/**
+ * In-memory stand-in for Twilio. Placed calls ring, are answered and hang up on timers, and their
+ * status callbacks are posted back signed with the tenant's auth token, so the service runs offline.
+ * Queues only hold the callers put there with enqueue(), and every number counts as owned.
+ */
+export class FakeVoiceProvider implements VoiceProvider, OnModuleDestroy {
+  readonly name = 'fake';
+  private readonly logger = new Logger(FakeVoiceProvider.name);
+  private readonly calls = new Map<string, FakeCall>();
+  private readonly timers = new Map<string, NodeJS.Timeout[]>();
+  private readonly queues = new Map<string, string[]>();
+  private readonly conferences = new Map<string, FakeConference>();
+
+  constructor(
+    private readonly twilioConfig: TwilioConfigService,
+    private readonly options: FakeVoiceProviderOptions = {},
+  ) {}
+
+  onModuleDestroy() {
+    this.timers.forEach((timers) => timers.forEach((timer) => clearTimeout(timer)));
+    this.timers.clear();
+  }
+
+  async createCall(tenantId: string, params: CreateCallParams): Promise<RemoteCall> {
+    return this.snapshot(this.placeCall(tenantId, params, params.url));
+  }
+
+  async updateCall(tenantId: string, callSid: string, params: UpdateCallParams): Promise<RemoteCall> {
+    const call = this.requireCall(tenantId, callSid);
+
+    if (params.twiml || params.url) {
+      call.instructions = params.twiml || params.url;
+    }
+    if (params.status) {
+      return this.hangUp(callSid);
+    }
+    return this.snapshot(call);
+  }
+
+  async fetchCall(tenantId: string, callSid: string): Promise<RemoteCall | null> {
+    const call = this.calls.get(callSid);
+    return call && call.tenantId === tenantId ? this.snapshot(call) : null;
+  }
+
+  async listCalls(tenantId: string, filter: { status?: string; parentCallSid?: string }): Promise<RemoteCall[]> {
+    return Array.from(this.calls.values())
+      .filter(
+        (call) =>
+          call.tenantId === tenantId &&
+          (!filter.status || call.status === filter.status) &&
+          (!filter.parentCallSid || call.parentCallSid === filter.parentCallSid),
+      )
+      .map((call) => this.snapshot(call));
+  }
+
+  async listRecordings(): Promise<CallRecording[]> {
+    return [];
+  }
+
+  async updateRecording(tenantId: string, callSid: string): Promise<Pick<CallRecording, 'sid' | 'status'>> {
+    this.requireCall(tenantId, callSid);
+    // Fake calls are never recorded, so there is nothing to control
+    throw Object.assign(new Error(`Fake call ${callSid} has no recording in progress`), { status: 404 });
+  }
+
+  async dequeueCaller(
+    tenantId: string,
+    queueName: string,
+    params: { url: string; method?: 'GET' | 'POST' },
+  ): Promise<string | null> {
+    const callSid = this.queues.get(`${tenantId}:${queueName}`)?.shift();
+    if (!callSid) {
+      return null;
+    }
+
+    const call = this.calls.get(callSid);
+    if (call) {
+      call.instructions = params.url;
+    }
+    return callSid;
+  }
+
+  async findConference(tenantId: string, name: string): Promise<string | null> {
+    const conference = Array.from(this.conferences.values()).find(
+      (candidate) => candidate.tenantId === tenantId && candidate.name === name && candidate.status === 'in-progress',
+    );
+    return conference?.sid || null;
+  }
+
+  async endConference(tenantId: string, conferenceSid: string): Promise<void> {
+    const conference = this.requireConference(tenantId, conferenceSid);
+    conference.status = 'completed';
+    conference.participants.forEach((_, callSid) => this.hangUp(callSid));
+    conference.participants.clear();
+  }
+
+  async listParticipants(tenantId: string, conferenceSid: string): Promise<ConferenceParticipant[]> {
+    const conference = this.requireConference(tenantId, conferenceSid);
+    return Array.from(conference.participants.keys()).map((callSid) => this.participant(conference, callSid));
+  }
+
+  async addParticipant(
+    tenantId: string,
+    name: string,
+    params: CreateParticipantParams,
+  ): Promise<ConferenceParticipant> {
+    const sid = await this.findConference(tenantId, name);
+    const conference: FakeConference = (sid && this.conferences.get(sid)) || {
+      sid: `CF${randomBytes(16).toString('hex')}`,
+      tenantId,
+      name,
+      status: 'in-progress',
+      participants: new Map(),
+    };
+    this.conferences.set(conference.sid, conference);
+
+    const call = this.placeCall(tenantId, params, `conference:${name}`);
+    conference.participants.set(call.sid, { muted: params.muted ?? false, hold: false });
+    return this.participant(conference, call.sid);
+  }
+
+  async updateParticipant(
+    tenantId: string,
+    conferenceSid: string,
+    callSid: string,
+    params: UpdateParticipantParams,
+  ): Promise<ConferenceParticipant> {
+    const conference = this.requireConference(tenantId, conferenceSid);
+    const state = this.requireParticipant(conference, callSid);
+
+    state.muted = params.muted ?? state.muted;
+    state.hold = params.hold ?? state.hold;
+    return this.participant(conference, callSid);
+  }
+
+  async removeParticipant(tenantId: string, conferenceSid: string, callSid: string): Promise<void> {
+    const conference = this.requireConference(tenantId, conferenceSid);
+    this.requireParticipant(conference, callSid);
+
+    conference.participants.delete(callSid);
+    this.hangUp(callSid);
+  }
+
+  async ownsNumber(): Promise<boolean> {
+    return true;
+  }
+
+  async fetchAccount(tenantId: string): Promise<VoiceAccount> {
+    const { accountSid } = this.twilioConfig.getConfig(tenantId);
+    return { sid: accountSid, friendlyName: 'Fake voice provider', status: 'active' };
+  }
+
+  createAccessToken(tenantId: string, identity: string, policy: TokenPolicy): string {
+    const { accountSid, apiKey, apiSecret } = this.twilioConfig.getCredentialsForToken(tenantId);
+    const { twimlAppSid } = this.twilioConfig.getConfig(tenantId);
+
+    // Well formed but only as valid as the configured credentials
+    const AccessToken = twilio.jwt.AccessToken;
+    const token = new AccessToken(accountSid || 'ACfake', apiKey || 'SKfake', apiSecret || 'fake-secret', {
+      identity,
+      ttl: policy.ttl,
+    });
+    token.addGrant(
+      new AccessToken.VoiceGrant({
+        outgoingApplicationSid: policy.outgoingAllow ? twimlAppSid : undefined,
+        incomingAllow: policy.incomingAllow,
+      }),
+    );
+    return token.toJwt();
+  }
+
+  /**
+   * Move a call to a new status and send its status callback; finished calls stay finished
+   */
+  progress(callSid: string, status: string): RemoteCall {
+    const call = this.calls.get(callSid);
+    if (!call) {
+      throw Object.assign(new Error(`Fake call ${callSid} not found`), { status: 404 });
+    }
+    if (isTerminalStatus(call.status)) {
+      return this.snapshot(call);
+    }
+
+    call.status = status;
+    if (status === 'in-progress') {
+      call.startTime = new Date();
+    }
+    if (isTerminalStatus(status)) {
+      call.endTime = new Date();
+      call.duration = call.startTime ? Math.round((call.endTime.getTime() - call.startTime.getTime()) / 1000) : 0;
+      this.timers.get(callSid)?.forEach((timer) => clearTimeout(timer));
+      this.timers.delete(callSid);
+    }
+
+    void this.sendStatusCallback(call);
+    return this.snapshot(call);
+  }
+
+  /**
+   * Put a call in a queue, as an <Enqueue> verb would, so dequeueCaller() has someone to hand over
+   */
+  enqueue(tenantId: string, queueName: string, callSid: string): void {
+    const key = `${tenantId}:${queueName}`;
+    this.queues.set(key, [...(this.queues.get(key) || []), callSid]);
+  }
+
+  private placeCall(
+    tenantId: string,
+    params: Pick<CreateCallParams, 'to' | 'from' | 'statusCallback' | 'statusCallbackEvent'>,
+    instructions: string,
+  ): FakeCall {
+    const call: FakeCall = {
+      sid: `CA${randomBytes(16).toString('hex')}`,
+      status: 'queued',
+      from: params.from,
+      to: params.to,
+      direction: 'outbound-api',
+      createdAt: new Date(),
+      tenantId,
+      statusCallback: params.statusCallback,
+      statusCallbackEvent: params.statusCallbackEvent || [],
+      sequence: 0,
+      instructions,
+    };
+
+    this.calls.set(call.sid, call);
+    this.logger.log(`Fake call ${call.sid} placed from ${call.from} to ${call.to}`);
+
+    if (this.options.autoProgress !== false) {
+      const ringMs = this.options.ringMs ?? 2000;
+      const talkMs = this.options.talkMs ?? 10000;
+      this.timers.set(call.sid, [
+        this.after(0, () => this.progress(call.sid, 'initiated')),
+        this.after(Math.min(500, ringMs), () => this.progress(call.sid, 'ringing')),
+        this.after(ringMs, () => this.progress(call.sid, 'in-progress')),
+        this.after(ringMs + talkMs, () => this.progress(call.sid, 'completed')),
+      ]);
+    }
+
+    return call;
+  }
+
+  private async sendStatusCallback(call: FakeCall): Promise<void> {
+    // Like Twilio, completed is always sent and the other events only when asked for
+    const event =
+      call.status === 'in-progress' ? 'answered' : isTerminalStatus(call.status) ? 'completed' : call.status;
+    if (!call.statusCallback || (event !== 'completed' && !call.statusCallbackEvent.includes(event))) {
+      return;
+    }
+
+    const { accountSid, authToken } = this.twilioConfig.getConfig(call.tenantId);
+    const params: Record<string, string> = {
+      AccountSid: accountSid,
+      ApiVersion: '2010-04-01',
+      CallSid: call.sid,
+      CallStatus: call.status,
+      Direction: call.direction,
+      From: call.from,
+      To: call.to,
+      SequenceNumber: String(call.sequence++),
+      Timestamp: new Date().toUTCString(),
+      ...(call.duration !== undefined && {
+        CallDuration: String(call.duration),
+        Duration: String(Math.ceil(call.duration / 60)),
+      }),
+    };
+
+    try {
+      await fetch(call.statusCallback, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          'X-Twilio-Signature': twilio.getExpectedTwilioSignature(authToken, call.statusCallback, params),
+        },
+        body: new URLSearchParams(params),
+      });
+    } catch (error) {
+      this.logger.warn(`Status callback for fake call ${call.sid} failed: ${(error as Error).message}`);
+    }
+  }
+
+  private requireCall(tenantId: string, callSid: string): FakeCall {
+    const call = this.calls.get(callSid);
+    if (!call || call.tenantId !== tenantId) {
+      throw Object.assign(new Error(`Fake call ${callSid} not found`), { status: 404 });
+    }
+    return call;
+  }
+
+  private requireConference(tenantId: string, conferenceSid: string): FakeConference {
+    const conference = this.conferences.get(conferenceSid);
+    if (!conference || conference.tenantId !== tenantId) {
+      throw Object.assign(new Error(`Fake conference ${conferenceSid} not found`), { status: 404 });
+    }
+    return conference;
+  }
+
+  private requireParticipant(conference: FakeConference, callSid: string): { muted: boolean; hold: boolean } {
+    const state = conference.participants.get(callSid);
+    if (!state) {
+      throw Object.assign(new Error(`Call ${callSid} is not in fake conference ${conference.sid}`), { status: 404 });
+    }
+    return state;
+  }
+
+  private participant(conference: FakeConference, callSid: string): ConferenceParticipant {
+    const { status } = this.calls.get(callSid)!;
+    return {
+      callSid,
+      // Twilio's participant statuses rather than call statuses
+      status: status === 'in-progress' ? 'connected' : isTerminalStatus(status) ? 'complete' : 'connecting',
+      ...conference.participants.get(callSid)!,
+    };
+  }
+
+  // Twilio cancels calls that were never answered even when asked to complete them
+  private hangUp(callSid: string): RemoteCall {
+    return this.progress(callSid, this.calls.get(callSid)?.status === 'in-progress' ? 'completed' : 'canceled');
+  }
+
+  private snapshot(call: FakeCall): RemoteCall {
+    const { sid, status, from, to, direction, duration, createdAt, startTime, endTime, parentCallSid } = call;
+    return { sid, status, from, to, direction, duration, createdAt, startTime, endTime, parentCallSid };
+  }
+
+  private after(ms: number, action: () => void): NodeJS.Timeout {
+    const timer = setTimeout(action, ms);
+    timer.unref();
+    return timer;
+  }
+}
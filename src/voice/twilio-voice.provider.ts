@@ -0,0 +1,199 @@
+import * as twilio from 'twilio';
+import { CallInstance, CallStatus } from 'twilio/lib/rest/api/v2010/account/call';
+import { ParticipantInstance } from 'twilio/lib/rest/api/v2010/account/conference/participant';
+import { TwilioConfigService } from '../config/twilio.config';
+import {
+  CallRecording,
+  ConferenceParticipant,
+  CreateCallParams,
+  CreateParticipantParams,
+  RemoteCall,
+  TokenPolicy,
+  UpdateCallParams,
+  UpdateParticipantParams,
+  VoiceAccount,
+} from '../types';
+import { VoiceProvider } from './voice-provider';
+
+/**
+ * The Twilio REST API, through each tenant's cached client
+ */
+export class TwilioVoiceProvider implements VoiceProvider {
+  readonly name = 'twilio';
+
+  constructor(private readonly twilioConfig: TwilioConfigService) {}
+
+  async createCall(tenantId: string, params: CreateCallParams): Promise<RemoteCall> {
+    return toRemoteCall(await this.twilioConfig.getClient(tenantId).calls.create(params));
+  }
+
+  async updateCall(tenantId: string, callSid: string, params: UpdateCallParams): Promise<RemoteCall> {
+    return toRemoteCall(await this.twilioConfig.getClient(tenantId).calls(callSid).update(params));
+  }
+
+  async fetchCall(tenantId: string, callSid: string): Promise<RemoteCall | null> {
+    try {
+      return toRemoteCall(await this.twilioConfig.getClient(tenantId).calls(callSid).fetch());
+    } catch (error) {
+      if ((error as { status?: number }).status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async listCalls(tenantId: string, filter: { status?: string; parentCallSid?: string }): Promise<RemoteCall[]> {
+    const calls = await this.twilioConfig.getClient(tenantId).calls.list({
+      status: filter.status as CallStatus | undefined,
+      parentCallSid: filter.parentCallSid,
+      limit: 1000,
+    });
+    return calls.map(toRemoteCall);
+  }
+
+  async listRecordings(tenantId: string, callSid: string): Promise<CallRecording[]> {
+    const recordings = await this.twilioConfig.getClient(tenantId).recordings.list({ callSid });
+    return recordings.map((recording) => ({
+      sid: recording.sid,
+      status: recording.status,
+      channels: recording.channels,
+      duration: recording.duration ? parseInt(recording.duration) : undefined,
+      url: `https://api.twilio.com${recording.uri.replace('.json', '')}`,
+      startedAt: recording.startTime,
+      updatedAt: recording.dateUpdated,
+    }));
+  }
+
+  async updateRecording(
+    tenantId: string,
+    callSid: string,
+    status: 'paused' | 'in-progress' | 'stopped',
+  ): Promise<Pick<CallRecording, 'sid' | 'status'>> {
+    const recording = await this.twilioConfig
+      .getClient(tenantId)
+      .calls(callSid)
+      .recordings('Twilio.CURRENT')
+      .update({ status });
+    return { sid: recording.sid, status: recording.status };
+  }
+
+  async dequeueCaller(
+    tenantId: string,
+    queueName: string,
+    params: { url: string; method?: 'GET' | 'POST' },
+  ): Promise<string | null> {
+    const client = this.twilioConfig.getClient(tenantId);
+    const queue = (await client.queues.list()).find((candidate) => candidate.friendlyName === queueName);
+    if (!queue || queue.currentSize === 0) {
+      return null;
+    }
+
+    const member = await client.queues(queue.sid).members('Front').update({ method: 'POST', ...params });
+    return member.callSid;
+  }
+
+  async findConference(tenantId: string, name: string): Promise<string | null> {
+    const [conference] = await this.twilioConfig
+      .getClient(tenantId)
+      .conferences.list({ friendlyName: name, status: 'in-progress', limit: 1 });
+    return conference?.sid || null;
+  }
+
+  async endConference(tenantId: string, conferenceSid: string): Promise<void> {
+    await this.twilioConfig.getClient(tenantId).conferences(conferenceSid).update({ status: 'completed' });
+  }
+
+  async listParticipants(tenantId: string, conferenceSid: string): Promise<ConferenceParticipant[]> {
+    const participants = await this.twilioConfig.getClient(tenantId).conferences(conferenceSid).participants.list();
+    return participants.map(toParticipant);
+  }
+
+  async addParticipant(
+    tenantId: string,
+    name: string,
+    params: CreateParticipantParams,
+  ): Promise<ConferenceParticipant> {
+    const participant = await this.twilioConfig
+      .getClient(tenantId)
+      .conferences(name)
+      .participants.create({
+        ...params,
+        beep: 'false',
+        earlyMedia: true,
+        startConferenceOnEnter: true,
+        endConferenceOnExit: false,
+        muted: params.muted ?? false,
+      });
+    return toParticipant(participant);
+  }
+
+  async updateParticipant(
+    tenantId: string,
+    conferenceSid: string,
+    callSid: string,
+    params: UpdateParticipantParams,
+  ): Promise<ConferenceParticipant> {
+    const participant = await this.twilioConfig
+      .getClient(tenantId)
+      .conferences(conferenceSid)
+      .participants(callSid)
+      .update(params);
+    return toParticipant(participant);
+  }
+
+  async removeParticipant(tenantId: string, conferenceSid: string, callSid: string): Promise<void> {
+    await this.twilioConfig.getClient(tenantId).conferences(conferenceSid).participants(callSid).remove();
+  }
+
+  async ownsNumber(tenantId: string, phoneNumber: string): Promise<boolean> {
+    const owned = await this.twilioConfig.getClient(tenantId).incomingPhoneNumbers.list({ phoneNumber, limit: 1 });
+    return owned.length > 0;
+  }
+
+  async fetchAccount(tenantId: string): Promise<VoiceAccount> {
+    const { accountSid } = this.twilioConfig.getConfig(tenantId);
+    const account = await this.twilioConfig.getClient(tenantId).api.accounts(accountSid).fetch();
+    return { sid: account.sid, friendlyName: account.friendlyName, status: account.status };
+  }
+
+  createAccessToken(tenantId: string, identity: string, policy: TokenPolicy): string {
+    const { accountSid, apiKey, apiSecret } = this.twilioConfig.getCredentialsForToken(tenantId);
+    const { twimlAppSid } = this.twilioConfig.getConfig(tenantId);
+
+    const AccessToken = twilio.jwt.AccessToken;
+    const token = new AccessToken(accountSid, apiKey, apiSecret, { identity, ttl: policy.ttl });
+
+    token.addGrant(
+      new AccessToken.VoiceGrant({
+        outgoingApplicationSid: policy.outgoingAllow ? twimlAppSid : undefined,
+        incomingAllow: policy.incomingAllow,
+      }),
+    );
+    return token.toJwt();
+  }
+}
+
+function toParticipant(participant: ParticipantInstance): ConferenceParticipant {
+  return {
+    callSid: participant.callSid,
+    label: participant.label || undefined,
+    status: participant.status,
+    muted: participant.muted,
+    hold: participant.hold,
+  };
+}
+
+function toRemoteCall(call: CallInstance): RemoteCall {
+  return {
+    sid: call.sid,
+    status: call.status,
+    from: call.from,
+    to: call.to,
+    direction: call.direction,
+    duration: call.duration ? parseInt(call.duration, 10) : undefined,
+    createdAt: call.dateCreated || undefined,
+    startTime: call.startTime || undefined,
+    endTime: call.endTime || undefined,
+    parentCallSid: call.parentCallSid || undefined,
+  };
+}
@@ -0,0 +1,57 @@
+import {
+  CallRecording,
+  ConferenceParticipant,
+  CreateCallParams,
+  CreateParticipantParams,
+  RemoteCall,
+  TokenPolicy,
+  UpdateCallParams,
+  UpdateParticipantParams,
+  VoiceAccount,
+} from '../types';
+
+export const VOICE_PROVIDER = Symbol('VOICE_PROVIDER');
+
+/**
+ * The call, queue, conference, account and token operations services need from the voice platform, so
+ * they can run against an in-memory fake as well as Twilio. Errors for unknown calls, conferences,
+ * participants and recordings carry `status: 404`.
+ */
+export interface VoiceProvider {
+  readonly name: string;
+  createCall(tenantId: string, params: CreateCallParams): Promise<RemoteCall>;
+  updateCall(tenantId: string, callSid: string, params: UpdateCallParams): Promise<RemoteCall>;
+  /** Null when the provider has no record of the call */
+  fetchCall(tenantId: string, callSid: string): Promise<RemoteCall | null>;
+  listCalls(tenantId: string, filter: { status?: string; parentCallSid?: string }): Promise<RemoteCall[]>;
+  listRecordings(tenantId: string, callSid: string): Promise<CallRecording[]>;
+  /** Pause, resume or stop the recording currently running on a call */
+  updateRecording(
+    tenantId: string,
+    callSid: string,
+    status: 'paused' | 'in-progress' | 'stopped',
+  ): Promise<Pick<CallRecording, 'sid' | 'status'>>;
+  /** Redirect the caller at the front of a queue, returning their call SID, or null when nobody is waiting */
+  dequeueCaller(
+    tenantId: string,
+    queueName: string,
+    params: { url: string; method?: 'GET' | 'POST' },
+  ): Promise<string | null>;
+  /** SID of the in-progress conference with this name, or null when nobody is in it */
+  findConference(tenantId: string, name: string): Promise<string | null>;
+  endConference(tenantId: string, conferenceSid: string): Promise<void>;
+  listParticipants(tenantId: string, conferenceSid: string): Promise<ConferenceParticipant[]>;
+  /** Dial into a conference by name, starting it if nobody has joined yet */
+  addParticipant(tenantId: string, name: string, params: CreateParticipantParams): Promise<ConferenceParticipant>;
+  updateParticipant(
+    tenantId: string,
+    conferenceSid: string,
+    callSid: string,
+    params: UpdateParticipantParams,
+  ): Promise<ConferenceParticipant>;
+  removeParticipant(tenantId: string, conferenceSid: string, callSid: string): Promise<void>;
+  /** Whether the tenant's account owns the number, and so may use it as a caller ID */
+  ownsNumber(tenantId: string, phoneNumber: string): Promise<boolean>;
+  fetchAccount(tenantId: string): Promise<VoiceAccount>;
+  createAccessToken(tenantId: string, identity: string, policy: TokenPolicy): string;
+}